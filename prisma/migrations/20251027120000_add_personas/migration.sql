@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "personaId" TEXT;
+
+-- CreateTable
+CREATE TABLE "personas" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "tone" TEXT,
+    "vocabulary" TEXT,
+    "formality" TEXT NOT NULL DEFAULT 'informal',
+    "allowSwearing" BOOLEAN NOT NULL DEFAULT true,
+    "emojiRate" DOUBLE PRECISION NOT NULL DEFAULT 0.1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "personas_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "personas_name_key" ON "personas"("name");
+
+-- CreateIndex
+CREATE INDEX "users_personaId_idx" ON "users"("personaId");
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_personaId_fkey" FOREIGN KEY ("personaId") REFERENCES "personas"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed: базовые персоны
+INSERT INTO "personas" ("id", "name", "description", "tone", "vocabulary", "formality", "allowSwearing", "emojiRate", "updatedAt")
+VALUES
+    ('persona_friend', 'друг', 'Близкий друг. Общаемся на равных, можно подкалывать.', 'расслабленный, с сарказмом', 'щас, норм, кек, збс, хз, короче', 'informal', true, 0.1, CURRENT_TIMESTAMP),
+    ('persona_work', 'работа', 'Коллега или руководитель. Общение по делу, без фамильярности.', 'спокойный, уважительный, по делу', 'хорошо, понял, сделаю, посмотрю', 'formal', false, 0, CURRENT_TIMESTAMP);
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "mediaType" TEXT,
+ADD COLUMN     "transcript" TEXT;
+
+-- AlterTable
+ALTER TABLE "pending_messages" ADD COLUMN     "mediaType" TEXT,
+ADD COLUMN     "transcript" TEXT;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "conversations" ALTER COLUMN "userId" DROP NOT NULL,
+ADD COLUMN     "chatId" BIGINT,
+ADD COLUMN     "isGroup" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "title" TEXT,
+ADD COLUMN     "groupRepliesEnabled" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "senderName" TEXT,
+ADD COLUMN     "senderTelegramId" BIGINT;
+
+-- AlterTable
+ALTER TABLE "pending_messages" ADD COLUMN     "chatId" BIGINT,
+ADD COLUMN     "senderName" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "conversations_chatId_key" ON "conversations"("chatId");
+
+-- CreateIndex
+CREATE INDEX "pending_messages_chatId_processed_idx" ON "pending_messages"("chatId", "processed");
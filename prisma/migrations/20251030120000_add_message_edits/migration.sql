@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "editedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "message_edits" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "previousContent" TEXT NOT NULL,
+    "editedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_edits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "message_edits_messageId_idx" ON "message_edits"("messageId");
+
+-- CreateIndex
+CREATE INDEX "messages_telegramMessageId_idx" ON "messages"("telegramMessageId");
+
+-- CreateIndex
+CREATE INDEX "pending_messages_telegramMessageId_processed_idx" ON "pending_messages"("telegramMessageId", "processed");
+
+-- AddForeignKey
+ALTER TABLE "message_edits" ADD CONSTRAINT "message_edits_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "replyToMessageId" INTEGER,
+ADD COLUMN     "quoteText" TEXT;
+
+-- AlterTable
+ALTER TABLE "pending_messages" ADD COLUMN     "replyToMessageId" INTEGER,
+ADD COLUMN     "quoteText" TEXT;
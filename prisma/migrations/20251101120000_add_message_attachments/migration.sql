@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "message_attachments" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT,
+    "pendingMessageId" TEXT,
+    "mimeType" TEXT NOT NULL DEFAULT 'image/jpeg',
+    "data" TEXT NOT NULL,
+    "sizeBytes" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "message_attachments_messageId_idx" ON "message_attachments"("messageId");
+
+-- CreateIndex
+CREATE INDEX "message_attachments_pendingMessageId_idx" ON "message_attachments"("pendingMessageId");
+
+-- AddForeignKey
+ALTER TABLE "message_attachments" ADD CONSTRAINT "message_attachments_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_attachments" ADD CONSTRAINT "message_attachments_pendingMessageId_fkey" FOREIGN KEY ("pendingMessageId") REFERENCES "pending_messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Переносим существующие base64 изображения во вложения
+INSERT INTO "message_attachments" ("id", "messageId", "data", "sizeBytes")
+SELECT 'att_m_' || "id", "id", "imageBase64", (length("imageBase64") * 3 / 4)::INTEGER
+FROM "messages"
+WHERE "imageBase64" IS NOT NULL;
+
+INSERT INTO "message_attachments" ("id", "pendingMessageId", "data", "sizeBytes")
+SELECT 'att_p_' || "id", "id", "imageBase64", (length("imageBase64") * 3 / 4)::INTEGER
+FROM "pending_messages"
+WHERE "imageBase64" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "messages" DROP COLUMN "imageBase64";
+
+-- AlterTable
+ALTER TABLE "pending_messages" DROP COLUMN "imageBase64",
+ADD COLUMN     "groupedId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "pending_messages_groupedId_idx" ON "pending_messages"("groupedId");
@@ -0,0 +1,7 @@
+-- AlterTable
+-- Base64 остается только у старых вложений, пока их не перенесет скрипт media:migrate
+ALTER TABLE "message_attachments" ADD COLUMN     "storageKey" TEXT,
+ALTER COLUMN "data" DROP NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "message_attachments_createdAt_idx" ON "message_attachments"("createdAt");
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "owner_status" (
+    "id" TEXT NOT NULL DEFAULT 'owner',
+    "busyUntil" TIMESTAMP(3),
+    "busyReason" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "owner_status_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "approvalMode" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "reply_drafts" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "telegramId" BIGINT NOT NULL,
+    "messages" TEXT[],
+    "replyToMessageId" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "controlChatId" BIGINT,
+    "controlMessageId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "reply_drafts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reply_drafts_conversationId_status_idx" ON "reply_drafts"("conversationId", "status");
+
+-- CreateIndex
+CREATE INDEX "reply_drafts_controlChatId_controlMessageId_idx" ON "reply_drafts"("controlChatId", "controlMessageId");
+
+-- AddForeignKey
+ALTER TABLE "reply_drafts" ADD CONSTRAINT "reply_drafts_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
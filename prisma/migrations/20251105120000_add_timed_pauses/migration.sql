@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "conversations" ADD COLUMN     "ignoredUntil" TIMESTAMP(3),
+ADD COLUMN     "awayNotifiedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "owner_status" ADD COLUMN     "pausedAt" TIMESTAMP(3),
+ADD COLUMN     "pausedUntil" TIMESTAMP(3),
+ADD COLUMN     "awayMessage" TEXT;
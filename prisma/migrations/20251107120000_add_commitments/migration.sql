@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "commitments" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "quote" TEXT,
+    "dueAt" TIMESTAMP(3),
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "remindedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "commitments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "commitments_userId_idx" ON "commitments"("userId");
+
+-- CreateIndex
+CREATE INDEX "commitments_status_dueAt_idx" ON "commitments"("status", "dueAt");
+
+-- AddForeignKey
+ALTER TABLE "commitments" ADD CONSTRAINT "commitments_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
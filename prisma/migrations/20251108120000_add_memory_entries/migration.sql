@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "memory_entries" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "embedding" DOUBLE PRECISION[],
+    "embedder" TEXT NOT NULL,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "memory_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "memory_entries_conversationId_embedder_idx" ON "memory_entries"("conversationId", "embedder");
+
+-- AddForeignKey
+ALTER TABLE "memory_entries" ADD CONSTRAINT "memory_entries_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "archivedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "conversation_summaries" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "level" TEXT NOT NULL,
+    "periodStart" DATE NOT NULL,
+    "content" TEXT NOT NULL,
+    "messageCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "conversation_summaries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "conversation_summaries_conversationId_level_periodStart_key" ON "conversation_summaries"("conversationId", "level", "periodStart");
+
+-- AddForeignKey
+ALTER TABLE "conversation_summaries" ADD CONSTRAINT "conversation_summaries_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "user_facts" ADD COLUMN     "confidence" DOUBLE PRECISION NOT NULL DEFAULT 1,
+ADD COLUMN     "firstSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "key" TEXT,
+ADD COLUMN     "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'conversation',
+ADD COLUMN     "sourceMessageIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- Существующие факты: по одному на категорию, ключ "general" (дубликаты - "general-2" и т.д.)
+UPDATE "user_facts" AS f
+SET "key" = CASE WHEN r."n" = 1 THEN 'general' ELSE 'general-' || r."n" END,
+    "firstSeenAt" = f."createdAt",
+    "lastSeenAt" = f."updatedAt"
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "userId", "category" ORDER BY "createdAt") AS "n"
+    FROM "user_facts"
+) AS r
+WHERE f."id" = r."id";
+
+ALTER TABLE "user_facts" ALTER COLUMN "key" SET NOT NULL;
+
+-- CreateTable
+CREATE TABLE "user_fact_history" (
+    "id" TEXT NOT NULL,
+    "userFactId" TEXT NOT NULL,
+    "previousFact" TEXT NOT NULL,
+    "previousConfidence" DOUBLE PRECISION NOT NULL,
+    "source" TEXT NOT NULL,
+    "sourceMessageIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_fact_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_facts_userId_category_key_key" ON "user_facts"("userId", "category", "key");
+
+-- CreateIndex
+CREATE INDEX "user_fact_history_userFactId_idx" ON "user_fact_history"("userFactId");
+
+-- AddForeignKey
+ALTER TABLE "user_fact_history" ADD CONSTRAINT "user_fact_history_userFactId_fkey" FOREIGN KEY ("userFactId") REFERENCES "user_facts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "contact_events" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "factId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "month" INTEGER NOT NULL,
+    "day" INTEGER NOT NULL,
+    "year" INTEGER,
+    "lastGreetedOn" DATE,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "contact_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "contact_events_factId_key" ON "contact_events"("factId");
+
+-- CreateIndex
+CREATE INDEX "contact_events_userId_idx" ON "contact_events"("userId");
+
+-- CreateIndex
+CREATE INDEX "contact_events_month_day_idx" ON "contact_events"("month", "day");
+
+-- AddForeignKey
+ALTER TABLE "contact_events" ADD CONSTRAINT "contact_events_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contact_events" ADD CONSTRAINT "contact_events_factId_fkey" FOREIGN KEY ("factId") REFERENCES "user_facts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "pending_messages" ALTER COLUMN "telegramMessageId" DROP NOT NULL;
@@ -0,0 +1,91 @@
+#!/usr/bin/env ts-node
+/**
+ * Script to move base64 images stored in the database into MediaStorage
+ *
+ * Usage:
+ * 1. Configure MEDIA_STORAGE (and S3_* for s3) in .env
+ * 2. Apply migrations: yarn prisma:migrate:deploy
+ * 3. Run: yarn media:migrate
+ *
+ * Safe to re-run: only attachments without storageKey are processed
+ */
+import { ConfigService } from '@nestjs/config';
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+
+import configuration from '../src/config/configuration';
+import { PrismaService } from '../src/database/prisma.service';
+import { MediaStorageService } from '../src/media/media-storage.service';
+import { createMediaStorageProvider } from '../src/media/media.module';
+
+// Load .env file
+dotenv.config({ path: path.join(__dirname, '..', '.env') });
+
+const BATCH_SIZE = 50;
+
+async function main() {
+  console.log('=== Media Migration ===\n');
+
+  const configService = new ConfigService(configuration());
+  const prisma = new PrismaService();
+  const provider = createMediaStorageProvider(configService);
+  const mediaStorage = new MediaStorageService(provider, configService, prisma);
+
+  console.log(`Storage provider: ${provider.name}`);
+
+  let migrated = 0;
+  let failed = 0;
+  // Skip attachments that failed to migrate so the loop terminates
+  const failedIds: string[] = [];
+
+  for (;;) {
+    const attachments = await prisma.messageAttachment.findMany({
+      where: {
+        storageKey: null,
+        data: { not: null },
+        id: { notIn: failedIds },
+      },
+      select: { id: true, mimeType: true, data: true },
+      take: BATCH_SIZE,
+    });
+
+    if (attachments.length === 0) {
+      break;
+    }
+
+    for (const attachment of attachments) {
+      try {
+        const stored = await mediaStorage.saveImage(
+          Buffer.from(attachment.data!, 'base64'),
+          attachment.mimeType,
+        );
+        await prisma.messageAttachment.update({
+          where: { id: attachment.id },
+          data: {
+            storageKey: stored.storageKey,
+            sizeBytes: stored.sizeBytes,
+            data: null,
+          },
+        });
+        migrated++;
+      } catch (error) {
+        console.error(`Failed to migrate attachment ${attachment.id}:`, error);
+        failedIds.push(attachment.id);
+        failed++;
+      }
+    }
+
+    console.log(`Migrated ${migrated} attachment(s)...`);
+  }
+
+  console.log();
+  console.log(`Done: ${migrated} migrated, ${failed} failed`);
+
+  await prisma.$disconnect();
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
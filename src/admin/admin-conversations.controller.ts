@@ -0,0 +1,55 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Put,
+  Query,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+
+import { AdminTokenGuard } from './admin-token.guard';
+import { AdminService } from './admin.service';
+import { BigIntSerializationInterceptor } from './bigint-serialization.interceptor';
+import { ListConversationsQueryDto } from './dto/list-conversations-query.dto';
+import { PaginationQueryDto } from './dto/pagination-query.dto';
+import { SetIgnoredDto } from './dto/set-ignored.dto';
+
+@Controller('admin')
+@UseGuards(AdminTokenGuard)
+@UseInterceptors(BigIntSerializationInterceptor)
+export class AdminConversationsController {
+  constructor(private readonly adminService: AdminService) {}
+
+  @Get('conversations')
+  listConversations(@Query() query: ListConversationsQueryDto) {
+    return this.adminService.listConversations(query);
+  }
+
+  @Get('conversations/:id')
+  getConversation(@Param('id') conversationId: string) {
+    return this.adminService.getConversation(conversationId);
+  }
+
+  @Get('conversations/:id/messages')
+  listMessages(
+    @Param('id') conversationId: string,
+    @Query() query: PaginationQueryDto,
+  ) {
+    return this.adminService.listMessages(conversationId, query);
+  }
+
+  @Put('conversations/:id/ignored')
+  setIgnored(@Param('id') conversationId: string, @Body() body: SetIgnoredDto) {
+    return this.adminService.setConversationIgnored(
+      conversationId,
+      body.ignored,
+    );
+  }
+
+  @Get('pending')
+  listPendingMessages(@Query() query: PaginationQueryDto) {
+    return this.adminService.listPendingMessages(query);
+  }
+}
@@ -0,0 +1,89 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  SetMetadata,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { timingSafeEqual } from 'crypto';
+import type { Request } from 'express';
+
+const ALLOW_QUERY_TOKEN = 'adminAllowQueryToken';
+
+/**
+ * Разрешает передать токен в `?token=` - только для потоков событий:
+ * EventSource в браузере не умеет слать заголовки, а URL попадает в логи
+ */
+export const AllowQueryToken = () => SetMetadata(ALLOW_QUERY_TOKEN, true);
+
+/**
+ * Проверяет токен Admin API: `Authorization: Bearer <token>`, `X-Admin-Token`
+ * или `?token=` на маршрутах с @AllowQueryToken()
+ * Если ADMIN_API_TOKEN не задан, API отключено
+ */
+@Injectable()
+export class AdminTokenGuard implements CanActivate {
+  private readonly apiToken?: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly reflector: Reflector,
+  ) {
+    this.apiToken = this.configService.get<string>('admin.apiToken');
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    if (!this.apiToken) {
+      throw new ForbiddenException('Admin API is disabled');
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const allowQueryToken = this.reflector.get<boolean | undefined>(
+      ALLOW_QUERY_TOKEN,
+      context.getHandler(),
+    );
+    const token = this.extractToken(request, allowQueryToken ?? false);
+
+    if (!token || !this.isValidToken(token)) {
+      throw new UnauthorizedException('Invalid admin token');
+    }
+
+    return true;
+  }
+
+  private extractToken(
+    request: Request,
+    allowQueryToken: boolean,
+  ): string | undefined {
+    const authorization = request.headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+      return authorization.slice('Bearer '.length).trim();
+    }
+
+    const header = request.headers['x-admin-token'];
+    if (header) {
+      return Array.isArray(header) ? header[0] : header;
+    }
+
+    if (!allowQueryToken) {
+      return undefined;
+    }
+
+    const { token } = request.query;
+    return typeof token === 'string' ? token : undefined;
+  }
+
+  /**
+   * Сравнение за постоянное время (без утечки токена по таймингу)
+   */
+  private isValidToken(token: string): boolean {
+    const expected = Buffer.from(this.apiToken!);
+    const actual = Buffer.from(token);
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
+}
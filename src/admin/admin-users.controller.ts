@@ -0,0 +1,79 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Put,
+  Query,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+
+import { AdminTokenGuard } from './admin-token.guard';
+import { AdminService } from './admin.service';
+import { BigIntSerializationInterceptor } from './bigint-serialization.interceptor';
+import { PaginationQueryDto } from './dto/pagination-query.dto';
+import { SetContextDto } from './dto/set-context.dto';
+import { UpsertFactDto } from './dto/upsert-fact.dto';
+
+@Controller('admin/users')
+@UseGuards(AdminTokenGuard)
+@UseInterceptors(BigIntSerializationInterceptor)
+export class AdminUsersController {
+  constructor(private readonly adminService: AdminService) {}
+
+  @Get()
+  listUsers(@Query() query: PaginationQueryDto) {
+    return this.adminService.listUsers(query);
+  }
+
+  @Get(':id')
+  getUser(@Param('id') userId: string) {
+    return this.adminService.getUser(userId);
+  }
+
+  @Put(':id/context')
+  setContext(@Param('id') userId: string, @Body() body: SetContextDto) {
+    return this.adminService.setCustomContext(userId, body.context);
+  }
+
+  @Delete(':id/context')
+  clearContext(@Param('id') userId: string) {
+    return this.adminService.setCustomContext(userId, null);
+  }
+
+  @Get(':id/facts')
+  listFacts(@Param('id') userId: string) {
+    return this.adminService.listFacts(userId);
+  }
+
+  @Put(':id/facts')
+  upsertFact(@Param('id') userId: string, @Body() body: UpsertFactDto) {
+    return this.adminService.upsertFact(userId, body);
+  }
+
+  @Delete(':id/facts')
+  clearFacts(@Param('id') userId: string) {
+    return this.adminService.clearFacts(userId);
+  }
+
+  @Delete(':id/facts/:category')
+  deleteFact(@Param('id') userId: string, @Param('category') category: string) {
+    return this.adminService.deleteFact(userId, category);
+  }
+
+  @Delete(':id/facts/:category/:key')
+  deleteFactByKey(
+    @Param('id') userId: string,
+    @Param('category') category: string,
+    @Param('key') key: string,
+  ) {
+    return this.adminService.deleteFact(userId, category, key);
+  }
+
+  @Delete(':id/rate-limit')
+  resetRateLimit(@Param('id') userId: string) {
+    return this.adminService.resetRateLimit(userId);
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+
+import { ConversationModule } from '../conversation/conversation.module';
+import { PauseModule } from '../pause/pause.module';
+import { RateLimitModule } from '../rate-limit/rate-limit.module';
+
+import { AdminConversationsController } from './admin-conversations.controller';
+import { AdminTokenGuard } from './admin-token.guard';
+import { AdminUsersController } from './admin-users.controller';
+import { AdminService } from './admin.service';
+
+@Module({
+  imports: [ConfigModule, ConversationModule, PauseModule, RateLimitModule],
+  controllers: [AdminUsersController, AdminConversationsController],
+  providers: [AdminService, AdminTokenGuard],
+})
+export class AdminModule {}
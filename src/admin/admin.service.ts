@@ -0,0 +1,269 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+
+import { ConversationService } from '../conversation/conversation.service';
+import { FactInput, FactsService } from '../conversation/facts.service';
+import { PrismaService } from '../database/prisma.service';
+import { PauseService } from '../pause/pause.service';
+import { RateLimitService } from '../rate-limit/rate-limit.service';
+
+import { ListConversationsQueryDto } from './dto/list-conversations-query.dto';
+import {
+  PaginatedResult,
+  PaginationQueryDto,
+} from './dto/pagination-query.dto';
+
+@Injectable()
+export class AdminService {
+  private readonly logger = new Logger(AdminService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly conversationService: ConversationService,
+    private readonly factsService: FactsService,
+    private readonly rateLimitService: RateLimitService,
+    private readonly pauseService: PauseService,
+  ) {}
+
+  /**
+   * Список пользователей (последние обновленные сверху)
+   */
+  async listUsers({ page, limit }: PaginationQueryDto) {
+    const [items, total] = await Promise.all([
+      this.prisma.user.findMany({
+        orderBy: { updatedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: { persona: { select: { id: true, name: true } } },
+      }),
+      this.prisma.user.count(),
+    ]);
+
+    return this.paginate(items, total, page, limit);
+  }
+
+  /**
+   * Пользователь с фактами, диалогами и состоянием rate limit
+   */
+  async getUser(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: {
+        persona: { select: { id: true, name: true } },
+        facts: { orderBy: { createdAt: 'asc' } },
+        conversations: { orderBy: { lastMessageAt: 'desc' } },
+      },
+    });
+
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    const rateLimit = await this.rateLimitService.checkLimit(user.telegramId);
+
+    return { ...user, rateLimit };
+  }
+
+  /**
+   * Устанавливает или сбрасывает (null) персональный контекст
+   */
+  async setCustomContext(userId: string, context: string | null) {
+    await this.getUserOrFail(userId);
+
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: { customContext: context },
+    });
+    this.logger.log(
+      `Custom context for user ${userId} ${context ? 'updated' : 'cleared'} via admin API`,
+    );
+    return user;
+  }
+
+  /**
+   * Факты о пользователе с историей изменений
+   */
+  async listFacts(userId: string) {
+    await this.getUserOrFail(userId);
+
+    return await this.prisma.userFact.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      include: { history: { orderBy: { createdAt: 'desc' } } },
+    });
+  }
+
+  /**
+   * Создает факт или обновляет существующий с той же категорией и ключом
+   */
+  async upsertFact(userId: string, input: FactInput) {
+    await this.getUserOrFail(userId);
+    await this.factsService.setFact(userId, input, 'admin');
+    return await this.listFacts(userId);
+  }
+
+  /**
+   * Удаляет факты категории или один факт по категории и ключу
+   */
+  async deleteFact(userId: string, category: string, key?: string) {
+    await this.getUserOrFail(userId);
+
+    const deleted = await this.factsService.deleteFactByCategory(
+      userId,
+      category,
+      key,
+    );
+    return { deleted };
+  }
+
+  /**
+   * Удаляет все факты о пользователе
+   */
+  async clearFacts(userId: string) {
+    await this.getUserOrFail(userId);
+
+    const deleted = await this.factsService.deleteAllFactsForUser(userId);
+    return { deleted };
+  }
+
+  /**
+   * Сбрасывает счетчик rate limit пользователя
+   */
+  async resetRateLimit(userId: string) {
+    const user = await this.getUserOrFail(userId);
+
+    await this.rateLimitService.resetLimit(user.telegramId);
+    return await this.rateLimitService.checkLimit(user.telegramId);
+  }
+
+  /**
+   * Список диалогов (личные и групповые)
+   */
+  async listConversations({
+    page,
+    limit,
+    ignored,
+    isGroup,
+  }: ListConversationsQueryDto) {
+    const where = { isIgnored: ignored, isGroup };
+
+    const [items, total] = await Promise.all([
+      this.prisma.conversation.findMany({
+        where,
+        orderBy: { lastMessageAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: {
+          user: true,
+          _count: { select: { messages: true } },
+        },
+      }),
+      this.prisma.conversation.count({ where }),
+    ]);
+
+    return this.paginate(items, total, page, limit);
+  }
+
+  /**
+   * Диалог (без сообщений)
+   */
+  async getConversation(conversationId: string) {
+    const conversation = await this.prisma.conversation.findUnique({
+      where: { id: conversationId },
+      include: {
+        user: true,
+        _count: { select: { messages: true } },
+      },
+    });
+
+    if (!conversation) {
+      throw new NotFoundException(`Conversation ${conversationId} not found`);
+    }
+
+    return conversation;
+  }
+
+  /**
+   * Сообщения диалога, новые сверху
+   */
+  async listMessages(
+    conversationId: string,
+    { page, limit }: PaginationQueryDto,
+  ) {
+    await this.getConversation(conversationId);
+
+    const where = { conversationId };
+    const [items, total] = await Promise.all([
+      this.prisma.message.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: {
+          attachments: {
+            select: { id: true, mimeType: true, sizeBytes: true },
+          },
+          edits: true,
+        },
+      }),
+      this.prisma.message.count({ where }),
+    ]);
+
+    return this.paginate(items, total, page, limit);
+  }
+
+  /**
+   * Добавляет диалог в игнор-лист или убирает из него
+   */
+  async setConversationIgnored(conversationId: string, ignored: boolean) {
+    await this.getConversation(conversationId);
+
+    const conversation = ignored
+      ? await this.pauseService.pauseChat(conversationId, null)
+      : await this.pauseService.resumeChat(conversationId);
+    this.logger.log(
+      `Conversation ${conversationId} isIgnored set to ${ignored} via admin API`,
+    );
+    return conversation;
+  }
+
+  /**
+   * Очередь: необработанные pending сообщения
+   */
+  async listPendingMessages({ page, limit }: PaginationQueryDto) {
+    const where = { processed: false };
+
+    const [items, total] = await Promise.all([
+      this.prisma.pendingMessage.findMany({
+        where,
+        orderBy: { scheduledFor: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: {
+          attachments: {
+            select: { id: true, mimeType: true, sizeBytes: true },
+          },
+        },
+      }),
+      this.prisma.pendingMessage.count({ where }),
+    ]);
+
+    return this.paginate(items, total, page, limit);
+  }
+
+  private async getUserOrFail(userId: string) {
+    const user = await this.conversationService.getUserById(userId);
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+    return user;
+  }
+
+  private paginate<T>(
+    items: T[],
+    total: number,
+    page: number,
+    limit: number,
+  ): PaginatedResult<T> {
+    return { items, total, page, limit };
+  }
+}
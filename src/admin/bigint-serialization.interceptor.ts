@@ -0,0 +1,38 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { map, Observable } from 'rxjs';
+
+/**
+ * Приводит BigInt (Telegram ID) к строкам - JSON.stringify их не поддерживает
+ */
+@Injectable()
+export class BigIntSerializationInterceptor implements NestInterceptor {
+  intercept(
+    _context: ExecutionContext,
+    next: CallHandler,
+  ): Observable<unknown> {
+    return next.handle().pipe(map((data) => serializeBigInt(data)));
+  }
+}
+
+export function serializeBigInt(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(serializeBigInt);
+  }
+
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, serializeBigInt(item)]),
+    );
+  }
+
+  return value;
+}
@@ -0,0 +1,16 @@
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsOptional } from 'class-validator';
+
+import { PaginationQueryDto } from './pagination-query.dto';
+
+export class ListConversationsQueryDto extends PaginationQueryDto {
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean()
+  @IsOptional()
+  ignored?: boolean;
+
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean()
+  @IsOptional()
+  isGroup?: boolean;
+}
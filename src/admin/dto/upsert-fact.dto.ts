@@ -0,0 +1,18 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class UpsertFactDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  category: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  key?: string; // О ком/о чем факт внутри категории, по умолчанию "general"
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  fact: string;
+}
@@ -2,9 +2,13 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { LoggerModule } from 'nestjs-pino';
 
+import { AdminModule } from './admin/admin.module';
 import configuration, { validate } from './config/configuration';
 import { ConversationModule } from './conversation/conversation.module';
+import { DashboardModule } from './dashboard/dashboard.module';
 import { DatabaseModule } from './database/database.module';
+import { DigestModule } from './digest/digest.module';
+import { EventsModule } from './events/events.module';
 import { OpenAIModule } from './openai/openai.module';
 import { QueueModule } from './queue/queue.module';
 import { RateLimitModule } from './rate-limit/rate-limit.module';
@@ -43,6 +47,10 @@ import { TelegramModule } from './telegram/telegram.module';
     OpenAIModule,
     ConversationModule,
     TelegramModule,
+    AdminModule,
+    DashboardModule,
+    DigestModule,
+    EventsModule,
   ],
   controllers: [],
   providers: [],
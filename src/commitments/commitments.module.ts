@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+
+import { ConversationModule } from '../conversation/conversation.module';
+import { OpenAIModule } from '../openai/openai.module';
+import { SharedQueueModule } from '../queue/shared-queue.module';
+import { ScheduleModule } from '../schedule/schedule.module';
+import { TelegramModule } from '../telegram/telegram.module';
+
+import { CommitmentsProcessor } from './commitments.processor';
+import { CommitmentsService } from './commitments.service';
+
+@Module({
+  imports: [
+    ConfigModule,
+    SharedQueueModule,
+    ConversationModule,
+    OpenAIModule,
+    ScheduleModule,
+    TelegramModule,
+  ],
+  providers: [CommitmentsService, CommitmentsProcessor],
+  exports: [CommitmentsService],
+})
+export class CommitmentsModule {}
@@ -0,0 +1,32 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import type { Job } from 'bull';
+
+import { MESSAGE_QUEUE } from '../queue/shared-queue.module';
+
+import {
+  COMMITMENT_REMINDER_JOB,
+  CommitmentReminderJob,
+  CommitmentsService,
+} from './commitments.service';
+
+@Processor(MESSAGE_QUEUE)
+export class CommitmentsProcessor {
+  private readonly logger = new Logger(CommitmentsProcessor.name);
+
+  constructor(private readonly commitmentsService: CommitmentsService) {}
+
+  @Process(COMMITMENT_REMINDER_JOB)
+  async handleReminder(job: Job<CommitmentReminderJob>) {
+    try {
+      const reminded = await this.commitmentsService.sendReminder(job.data);
+      return { success: true, reminded };
+    } catch (error) {
+      this.logger.error(
+        `Error sending reminder for commitment ${job.data.commitmentId}`,
+        error,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,290 @@
+import { InjectQueue } from '@nestjs/bull';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Commitment, User } from '@prisma/client';
+import type { Queue } from 'bull';
+
+import { CommandRegistry } from '../conversation/commands/command-registry';
+import type { CommandContext } from '../conversation/commands/command.types';
+import { PrismaService } from '../database/prisma.service';
+import { OpenAIService } from '../openai/openai.service';
+import { MESSAGE_QUEUE } from '../queue/shared-queue.module';
+import { ScheduleService } from '../schedule/schedule.service';
+import { TelegramService } from '../telegram/telegram.service';
+import { formatLocalIso } from '../utils/owner-schedule';
+
+export const COMMITMENT_REMINDER_JOB = 'commitment-reminder';
+
+export interface CommitmentReminderJob {
+  commitmentId: string;
+}
+
+export type CommitmentStatus = 'open' | 'done' | 'cancelled';
+
+export interface TrackReplyContext {
+  telegramId: bigint; // Собеседник
+  incoming: string[]; // Сообщения собеседника, на которые ответил бот
+  reply: string; // Ответ бота
+}
+
+type CommitmentWithUser = Commitment & { user: User };
+
+/**
+ * Обещания, которые бот дал от имени владельца: извлекаются из ответов,
+ * показываются командой "обещания", перед сроком владельцу приходит напоминание
+ */
+@Injectable()
+export class CommitmentsService {
+  private readonly logger = new Logger(CommitmentsService.name);
+  private readonly enabled: boolean;
+  private readonly remindBeforeMinutes: number;
+
+  constructor(
+    @InjectQueue(MESSAGE_QUEUE) private readonly messageQueue: Queue,
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly openaiService: OpenAIService,
+    private readonly scheduleService: ScheduleService,
+    private readonly telegramService: TelegramService,
+    commandRegistry: CommandRegistry,
+  ) {
+    this.enabled = this.configService.get<boolean>('commitments.enabled', true);
+    this.remindBeforeMinutes = this.configService.get<number>(
+      'commitments.remindBeforeMinutes',
+      60,
+    );
+
+    commandRegistry.register(
+      {
+        name: 'обещания',
+        aliases: ['promises', 'commitments'],
+        targetable: true,
+        category: 'commitments',
+        readOnly: true,
+        description:
+          'что бот пообещал от твоего имени (в Избранном - всем собеседникам)',
+        handler: (ctx) => this.handleList(ctx),
+      },
+      {
+        name: 'выполнено',
+        aliases: ['обещание выполнено', 'done'],
+        args: [{ name: 'number', label: 'номер', type: 'number' }],
+        targetable: true,
+        category: 'commitments',
+        description: 'отметить обещание из списка выполненным',
+        handler: (ctx, args) =>
+          this.handleClose(ctx, args.number as number, 'done'),
+      },
+      {
+        name: 'отменить обещание',
+        aliases: ['cancel promise'],
+        args: [{ name: 'number', label: 'номер', type: 'number' }],
+        targetable: true,
+        category: 'commitments',
+        description: 'убрать обещание из списка без выполнения',
+        handler: (ctx, args) =>
+          this.handleClose(ctx, args.number as number, 'cancelled'),
+      },
+    );
+  }
+
+  /**
+   * Ищет обещания в ответе бота и записывает их с напоминаниями
+   * @returns записанные обещания
+   */
+  async trackReply(context: TrackReplyContext): Promise<Commitment[]> {
+    if (!this.enabled || !context.reply.trim()) {
+      return [];
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { telegramId: context.telegramId },
+    });
+    if (!user) {
+      return [];
+    }
+
+    const now = new Date();
+    const existing = await this.prisma.commitment.findMany({
+      where: { userId: user.id, status: 'open' },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const extracted = await this.openaiService.extractCommitments(
+      context.incoming,
+      context.reply,
+      formatLocalIso(now, this.scheduleService.getTimezone()),
+      existing.map((commitment) => commitment.text),
+    );
+
+    const created: Commitment[] = [];
+    for (const item of extracted) {
+      const dueAt = item.due ? new Date(item.due) : null;
+      const commitment = await this.prisma.commitment.create({
+        data: {
+          userId: user.id,
+          text: item.text.trim(),
+          quote: item.quote || null,
+          // Срок в прошлом или нераспознанный - значит модель ошиблась, оставляем без срока
+          dueAt: dueAt && dueAt > now ? dueAt : null,
+        },
+      });
+      await this.scheduleReminder(commitment);
+      created.push(commitment);
+    }
+
+    if (created.length > 0) {
+      this.logger.log(
+        `Tracked ${created.length} commitment(s) for user ${user.telegramId}`,
+      );
+    }
+    return created;
+  }
+
+  /**
+   * Напоминает владельцу об обещании (задача commitment-reminder)
+   * Обещание могло быть уже закрыто - тогда напоминание не нужно
+   */
+  async sendReminder(job: CommitmentReminderJob): Promise<boolean> {
+    const commitment = await this.prisma.commitment.findUnique({
+      where: { id: job.commitmentId },
+      include: { user: true },
+    });
+
+    if (!commitment || commitment.status !== 'open' || commitment.remindedAt) {
+      return false;
+    }
+
+    const due = commitment.dueAt
+      ? ` (срок - ${this.scheduleService.formatTime(commitment.dueAt)})`
+      : '';
+    await this.telegramService.sendNotification(
+      `⏰ **Ты обещал** ${this.formatUserName(commitment.user)}: ${commitment.text}${due}` +
+        `${commitment.quote ? `\n\n> ${commitment.quote}` : ''}` +
+        `\n\nСписок и отметка о выполнении - "обещания"`,
+    );
+    await this.prisma.commitment.update({
+      where: { id: commitment.id },
+      data: { remindedAt: new Date() },
+    });
+
+    this.logger.log(`Reminder sent for commitment ${commitment.id}`);
+    return true;
+  }
+
+  /**
+   * Открытые обещания: сначала со сроком (ближайшие выше), потом без срока
+   * @param userId - только этому собеседнику (без userId - всем)
+   */
+  async getOpen(userId?: string): Promise<CommitmentWithUser[]> {
+    return this.prisma.commitment.findMany({
+      where: { status: 'open', ...(userId ? { userId } : {}) },
+      include: { user: true },
+      orderBy: [
+        { dueAt: { sort: 'asc', nulls: 'last' } },
+        { createdAt: 'asc' },
+      ],
+    });
+  }
+
+  /**
+   * Планирует напоминание за remindBeforeMinutes до срока
+   */
+  private async scheduleReminder(commitment: Commitment): Promise<void> {
+    if (!commitment.dueAt) {
+      return;
+    }
+
+    const remindAt =
+      commitment.dueAt.getTime() - this.remindBeforeMinutes * 60000;
+    const job: CommitmentReminderJob = { commitmentId: commitment.id };
+    await this.messageQueue.add(COMMITMENT_REMINDER_JOB, job, {
+      jobId: `${COMMITMENT_REMINDER_JOB}:${commitment.id}`,
+      delay: Math.max(0, remindAt - Date.now()),
+      removeOnComplete: true,
+      removeOnFail: true,
+    });
+  }
+
+  /**
+   * Собеседник, которому адресована команда (null - команда в Избранном, про всех)
+   */
+  private async getTargetUser(ctx: CommandContext): Promise<User | null> {
+    if (ctx.targetTelegramId === ctx.ownerTelegramId) {
+      return null;
+    }
+    return this.prisma.user.findUnique({
+      where: { telegramId: ctx.targetTelegramId },
+    });
+  }
+
+  /**
+   * Команда: список открытых обещаний
+   */
+  private async handleList(ctx: CommandContext): Promise<string> {
+    const user = await this.getTargetUser(ctx);
+    const commitments = await this.getOpen(user?.id);
+
+    if (commitments.length === 0) {
+      return user
+        ? `Открытых обещаний ${this.formatUserName(user)} нет.`
+        : 'Открытых обещаний нет.';
+    }
+
+    const now = new Date();
+    const lines = commitments.map((commitment, index) => {
+      const overdue = commitment.dueAt && commitment.dueAt <= now ? ' ❗' : '';
+      const due = commitment.dueAt
+        ? ` - до ${this.scheduleService.formatTime(commitment.dueAt)}${overdue}`
+        : '';
+      const whom = user ? '' : `${this.formatUserName(commitment.user)}: `;
+      return `${index + 1}. ${whom}${commitment.text}${due}`;
+    });
+
+    return `🤝 **Обещания${user ? ` ${this.formatUserName(user)}` : ''}:**
+
+${lines.join('\n')}
+
+Отметить: "выполнено 1", убрать: "отменить обещание 1"`;
+  }
+
+  /**
+   * Команды: выполнено / отменить обещание (номер - из списка "обещания")
+   */
+  private async handleClose(
+    ctx: CommandContext,
+    number: number,
+    status: Exclude<CommitmentStatus, 'open'>,
+  ): Promise<string> {
+    const user = await this.getTargetUser(ctx);
+    const commitments = await this.getOpen(user?.id);
+    const commitment = commitments[number - 1];
+
+    if (!commitment) {
+      return `Обещания с номером ${number} нет. Список - "обещания".`;
+    }
+
+    await this.prisma.commitment.update({
+      where: { id: commitment.id },
+      data: { status, completedAt: new Date() },
+    });
+
+    const job = await this.messageQueue.getJob(
+      `${COMMITMENT_REMINDER_JOB}:${commitment.id}`,
+    );
+    if (job) {
+      await job.remove();
+    }
+
+    return status === 'done'
+      ? `✅ Выполнено: ${commitment.text}`
+      : `🗑 Убрано: ${commitment.text}`;
+  }
+
+  private formatUserName(user: User): string {
+    return (
+      [user.firstName, user.lastName].filter(Boolean).join(' ') ||
+      (user.username ? `@${user.username}` : 'Без имени')
+    );
+  }
+}
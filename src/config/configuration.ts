@@ -1,16 +1,20 @@
 import { plainToClass } from 'class-transformer';
 import {
   IsEnum,
+  IsIn,
   IsInt,
   IsNotEmpty,
   IsOptional,
   IsPositive,
   IsString,
+  Matches,
   Max,
   Min,
   validateSync,
 } from 'class-validator';
 
+import { POLICY_ACTIONS } from '../policy/reply-policy';
+
 enum Environment {
   Development = 'development',
   Production = 'production',
@@ -24,6 +28,9 @@ enum LogLevel {
   Error = 'error',
 }
 
+// Диапазон времени "HH:MM-HH:MM"
+const TIME_RANGE_REGEX = /^\d{1,2}:\d{2}-\d{1,2}:\d{2}$/;
+
 export class EnvironmentVariables {
   // Database
   @IsString()
@@ -56,6 +63,10 @@ export class EnvironmentVariables {
   @IsOptional()
   OWNER_TELEGRAM_ID?: string;
 
+  @IsString()
+  @IsOptional()
+  APPROVAL_CHAT_ID?: string;
+
   // OpenAI
   @IsString()
   @IsNotEmpty()
@@ -96,6 +107,11 @@ export class EnvironmentVariables {
   @Max(65535)
   PORT: number = 8000;
 
+  // Admin API (без токена API отключено)
+  @IsString()
+  @IsOptional()
+  ADMIN_API_TOKEN?: string;
+
   // Message Processing
   @IsInt()
   @IsPositive()
@@ -115,6 +131,34 @@ export class EnvironmentVariables {
   @Max(200)
   SUMMARY_THRESHOLD: number = 50;
 
+  @IsInt()
+  @Min(200)
+  @Max(8000)
+  @IsOptional()
+  SUMMARY_TOKEN_BUDGET?: number = 1500;
+
+  @IsInt()
+  @Min(2000)
+  @Max(200000)
+  @IsOptional()
+  CONTEXT_TOKEN_BUDGET?: number = 12000;
+
+  @IsInt()
+  @Min(100)
+  @Max(8000)
+  @IsOptional()
+  FACTS_TOKEN_BUDGET?: number = 800;
+
+  @IsInt()
+  @Min(100)
+  @Max(8000)
+  @IsOptional()
+  MEMORY_TOKEN_BUDGET?: number = 1000;
+
+  @IsIn(['true', 'false'])
+  @IsOptional()
+  NOTIFY_MODEL_ON_EDIT?: string = 'true';
+
   // Rate Limiting
   @IsInt()
   @IsPositive()
@@ -166,6 +210,31 @@ export class EnvironmentVariables {
   @IsOptional()
   DELAY_LONG_PROBABILITY?: number = 0.05;
 
+  // Owner Schedule
+  @IsIn(['true', 'false'])
+  @IsOptional()
+  SCHEDULE_ENABLED?: string = 'true';
+
+  @IsString()
+  @IsOptional()
+  SCHEDULE_TIMEZONE?: string = 'Asia/Bishkek';
+
+  @Matches(TIME_RANGE_REGEX)
+  @IsOptional()
+  SCHEDULE_SLEEP_HOURS?: string = '01:00-09:00';
+
+  @Matches(TIME_RANGE_REGEX)
+  @IsOptional()
+  SCHEDULE_WEEKEND_SLEEP_HOURS?: string = '02:00-11:00';
+
+  @Matches(TIME_RANGE_REGEX)
+  @IsOptional()
+  SCHEDULE_WORK_HOURS?: string = '10:00-19:00';
+
+  @Matches(/^[1-7](-[1-7])?(,[1-7](-[1-7])?)*$/)
+  @IsOptional()
+  SCHEDULE_WORK_DAYS?: string = '1-5';
+
   // Read Status Configuration
   @IsPositive()
   @Min(0)
@@ -173,6 +242,219 @@ export class EnvironmentVariables {
   @IsOptional()
   READ_SEEN_WITHOUT_READ_PROBABILITY?: number = 0.2;
 
+  // Voice Messages (распознавание речи)
+  @IsIn(['true', 'false'])
+  @IsOptional()
+  ENABLE_VOICE_MESSAGES?: string = 'true';
+
+  @IsIn(['whisper', 'local'])
+  @IsOptional()
+  SPEECH_PROVIDER?: string = 'whisper';
+
+  @IsString()
+  @IsOptional()
+  WHISPER_MODEL?: string = 'whisper-1';
+
+  @IsInt()
+  @IsPositive()
+  @Max(3600)
+  @IsOptional()
+  VOICE_MAX_DURATION_SECONDS?: number = 300;
+
+  // Group Chats
+  @IsString()
+  @IsOptional()
+  GROUP_TRIGGER_NAMES?: string = 'канат,kanat';
+
+  // Images
+  @IsInt()
+  @IsPositive()
+  @Max(10)
+  @IsOptional()
+  MAX_IMAGES_PER_MESSAGE?: number = 5;
+
+  @IsInt()
+  @IsPositive()
+  @Max(20480)
+  @IsOptional()
+  MAX_IMAGE_SIZE_KB?: number = 1024;
+
+  // Stickers & GIFs
+  @IsIn(['true', 'false'])
+  @IsOptional()
+  STICKER_VISION?: string = 'true';
+
+  @IsIn(['reaction', 'sticker', 'text', 'random'])
+  @IsOptional()
+  STICKER_REPLY_MODE?: string = 'random';
+
+  @IsString()
+  @IsOptional()
+  STICKER_SET_NAME?: string;
+
+  // Owner Notifications
+  @IsIn(['true', 'false'])
+  @IsOptional()
+  NOTIFICATIONS_ENABLED?: string = 'true';
+
+  @IsString()
+  @IsOptional()
+  NOTIFICATIONS_CHAT_ID?: string;
+
+  @IsString()
+  @IsOptional()
+  NOTIFICATIONS_CATEGORIES?: string = 'urgent,distress,money,meeting,uncertain';
+
+  // Facts
+  @IsInt()
+  @Min(5)
+  @Max(100)
+  @IsOptional()
+  FACTS_EXTRACTION_MESSAGES?: number = 20;
+
+  @IsPositive()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  FACTS_MIN_CONFIDENCE?: number = 0.4;
+
+  // Long-term Memory
+  @IsIn(['true', 'false'])
+  @IsOptional()
+  MEMORY_ENABLED?: string = 'true';
+
+  @IsIn(['openai', 'local'])
+  @IsOptional()
+  MEMORY_EMBEDDER?: string = 'openai';
+
+  @IsString()
+  @IsOptional()
+  MEMORY_EMBEDDING_MODEL?: string = 'text-embedding-3-small';
+
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  @IsOptional()
+  MEMORY_TOP_K?: number = 5;
+
+  @IsPositive()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  MEMORY_MIN_SIMILARITY?: number = 0.35;
+
+  // Commitments
+  @IsIn(['true', 'false'])
+  @IsOptional()
+  COMMITMENTS_ENABLED?: string = 'true';
+
+  @IsInt()
+  @Min(0)
+  @Max(1440)
+  @IsOptional()
+  COMMITMENTS_REMIND_BEFORE_MINUTES?: number = 60;
+
+  // Daily Digest
+  @IsIn(['true', 'false'])
+  @IsOptional()
+  DIGEST_ENABLED?: string = 'true';
+
+  @Matches(/^\d{1,2}:\d{2}$/)
+  @IsOptional()
+  DIGEST_TIME?: string = '21:00';
+
+  // Events & Greetings
+  @IsIn(['true', 'false'])
+  @IsOptional()
+  EVENTS_ENABLED?: string = 'true';
+
+  @Matches(/^\d{1,2}:\d{2}$/)
+  @IsOptional()
+  EVENTS_GREETING_TIME?: string = '10:00';
+
+  @IsIn(['approve', 'send'])
+  @IsOptional()
+  EVENTS_GREETING_MODE?: string = 'approve';
+
+  // Reply Policy
+  @IsIn(['all', 'contacts', 'allowlist'])
+  @IsOptional()
+  POLICY_MODE?: string = 'all';
+
+  @IsIn(POLICY_ACTIONS)
+  @IsOptional()
+  POLICY_DENIED_ACTION?: string = 'notify';
+
+  @IsIn(POLICY_ACTIONS)
+  @IsOptional()
+  POLICY_DENYLIST_ACTION?: string = 'ignore';
+
+  @IsIn(POLICY_ACTIONS)
+  @IsOptional()
+  POLICY_BOT_ACTION?: string = 'ignore';
+
+  @IsIn(POLICY_ACTIONS)
+  @IsOptional()
+  POLICY_SPAM_ACTION?: string = 'ignore';
+
+  @IsIn(POLICY_ACTIONS)
+  @IsOptional()
+  POLICY_MUTUAL_CONTACT_ACTION?: string = 'reply';
+
+  @IsIn(POLICY_ACTIONS)
+  @IsOptional()
+  POLICY_CONTACT_ACTION?: string = 'reply';
+
+  @IsIn(POLICY_ACTIONS)
+  @IsOptional()
+  POLICY_UNKNOWN_ACTION?: string = 'reply';
+
+  @IsIn(['', ...POLICY_ACTIONS])
+  @IsOptional()
+  POLICY_VERIFIED_ACTION?: string;
+
+  @IsIn(['', ...POLICY_ACTIONS])
+  @IsOptional()
+  POLICY_PREMIUM_ACTION?: string;
+
+  // Media Storage
+  @IsIn(['local', 's3'])
+  @IsOptional()
+  MEDIA_STORAGE?: string = 'local';
+
+  @IsString()
+  @IsOptional()
+  MEDIA_STORAGE_PATH?: string = './storage/media';
+
+  @IsString()
+  @IsOptional()
+  S3_ENDPOINT?: string;
+
+  @IsString()
+  @IsOptional()
+  S3_REGION?: string = 'us-east-1';
+
+  @IsString()
+  @IsOptional()
+  S3_BUCKET?: string = 'sydykov-media';
+
+  @IsString()
+  @IsOptional()
+  S3_ACCESS_KEY_ID?: string;
+
+  @IsString()
+  @IsOptional()
+  S3_SECRET_ACCESS_KEY?: string;
+
+  @IsIn(['true', 'false'])
+  @IsOptional()
+  S3_FORCE_PATH_STYLE?: string = 'true';
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  MEDIA_RETENTION_DAYS?: number = 30;
+
   // Logging
   @IsEnum(LogLevel)
   @IsOptional()
@@ -208,6 +490,7 @@ export default () => ({
   bot: {
     name: process.env.BOT_NAME || 'канатик',
     ownerTelegramId: process.env.OWNER_TELEGRAM_ID,
+    approvalChatId: process.env.APPROVAL_CHAT_ID || undefined,
   },
   openai: {
     apiKey: process.env.OPENAI_API_KEY,
@@ -223,6 +506,9 @@ export default () => ({
     nodeEnv: process.env.NODE_ENV || 'development',
     port: parseInt(process.env.PORT || '8000', 10),
   },
+  admin: {
+    apiToken: process.env.ADMIN_API_TOKEN || undefined,
+  },
   messageProcessing: {
     delaySeconds: parseInt(process.env.MESSAGE_DELAY_SECONDS || '10', 10),
     contextMessagesLimit: parseInt(
@@ -230,6 +516,17 @@ export default () => ({
       10,
     ),
     summaryThreshold: parseInt(process.env.SUMMARY_THRESHOLD || '50', 10),
+    summaryTokenBudget: parseInt(
+      process.env.SUMMARY_TOKEN_BUDGET || '1500',
+      10,
+    ),
+    contextTokenBudget: parseInt(
+      process.env.CONTEXT_TOKEN_BUDGET || '12000',
+      10,
+    ),
+    factsTokenBudget: parseInt(process.env.FACTS_TOKEN_BUDGET || '800', 10),
+    memoryTokenBudget: parseInt(process.env.MEMORY_TOKEN_BUDGET || '1000', 10),
+    notifyModelOnEdit: process.env.NOTIFY_MODEL_ON_EDIT !== 'false',
   },
   rateLimit: {
     maxMessagesPerHour: parseInt(
@@ -254,11 +551,107 @@ export default () => ({
     ),
     longProbability: parseFloat(process.env.DELAY_LONG_PROBABILITY || '0.05'),
   },
+  schedule: {
+    enabled: process.env.SCHEDULE_ENABLED !== 'false',
+    timezone: process.env.SCHEDULE_TIMEZONE || 'Asia/Bishkek',
+    sleepHours: process.env.SCHEDULE_SLEEP_HOURS || '01:00-09:00',
+    weekendSleepHours:
+      process.env.SCHEDULE_WEEKEND_SLEEP_HOURS || '02:00-11:00',
+    workHours: process.env.SCHEDULE_WORK_HOURS || '10:00-19:00',
+    workDays: process.env.SCHEDULE_WORK_DAYS || '1-5',
+  },
   readStatus: {
     seenWithoutReadProbability: parseFloat(
       process.env.READ_SEEN_WITHOUT_READ_PROBABILITY || '0.20',
     ),
   },
+  speech: {
+    enabled: process.env.ENABLE_VOICE_MESSAGES !== 'false',
+    provider: process.env.SPEECH_PROVIDER || 'whisper',
+    whisperModel: process.env.WHISPER_MODEL || 'whisper-1',
+    maxDurationSeconds: parseInt(
+      process.env.VOICE_MAX_DURATION_SECONDS || '300',
+      10,
+    ),
+  },
+  groups: {
+    triggerNames: (process.env.GROUP_TRIGGER_NAMES || 'канат,kanat')
+      .split(',')
+      .map((name) => name.trim().toLowerCase())
+      .filter(Boolean),
+  },
+  images: {
+    maxPerMessage: parseInt(process.env.MAX_IMAGES_PER_MESSAGE || '5', 10),
+    maxSizeKb: parseInt(process.env.MAX_IMAGE_SIZE_KB || '1024', 10),
+  },
+  stickers: {
+    vision: process.env.STICKER_VISION !== 'false',
+    replyMode: process.env.STICKER_REPLY_MODE || 'random',
+    setName: process.env.STICKER_SET_NAME || undefined,
+  },
+  notifications: {
+    enabled: process.env.NOTIFICATIONS_ENABLED !== 'false',
+    chatId: process.env.NOTIFICATIONS_CHAT_ID || undefined,
+    categories:
+      process.env.NOTIFICATIONS_CATEGORIES ||
+      'urgent,distress,money,meeting,uncertain',
+  },
+  facts: {
+    extractionMessages: parseInt(
+      process.env.FACTS_EXTRACTION_MESSAGES || '20',
+      10,
+    ),
+    minConfidence: parseFloat(process.env.FACTS_MIN_CONFIDENCE || '0.4'),
+  },
+  memory: {
+    enabled: process.env.MEMORY_ENABLED !== 'false',
+    embedder: process.env.MEMORY_EMBEDDER || 'openai',
+    embeddingModel:
+      process.env.MEMORY_EMBEDDING_MODEL || 'text-embedding-3-small',
+    topK: parseInt(process.env.MEMORY_TOP_K || '5', 10),
+    minSimilarity: parseFloat(process.env.MEMORY_MIN_SIMILARITY || '0.35'),
+  },
+  commitments: {
+    enabled: process.env.COMMITMENTS_ENABLED !== 'false',
+    remindBeforeMinutes: parseInt(
+      process.env.COMMITMENTS_REMIND_BEFORE_MINUTES || '60',
+      10,
+    ),
+  },
+  digest: {
+    enabled: process.env.DIGEST_ENABLED !== 'false',
+    time: process.env.DIGEST_TIME || '21:00',
+  },
+  events: {
+    enabled: process.env.EVENTS_ENABLED !== 'false',
+    greetingTime: process.env.EVENTS_GREETING_TIME || '10:00',
+    greetingMode: process.env.EVENTS_GREETING_MODE || 'approve',
+  },
+  policy: {
+    mode: process.env.POLICY_MODE || 'all',
+    deniedAction: process.env.POLICY_DENIED_ACTION || 'notify',
+    denylistAction: process.env.POLICY_DENYLIST_ACTION || 'ignore',
+    botAction: process.env.POLICY_BOT_ACTION || 'ignore',
+    spamAction: process.env.POLICY_SPAM_ACTION || 'ignore',
+    mutualContactAction: process.env.POLICY_MUTUAL_CONTACT_ACTION || 'reply',
+    contactAction: process.env.POLICY_CONTACT_ACTION || 'reply',
+    unknownAction: process.env.POLICY_UNKNOWN_ACTION || 'reply',
+    verifiedAction: process.env.POLICY_VERIFIED_ACTION || undefined,
+    premiumAction: process.env.POLICY_PREMIUM_ACTION || undefined,
+  },
+  media: {
+    storage: process.env.MEDIA_STORAGE || 'local',
+    localPath: process.env.MEDIA_STORAGE_PATH || './storage/media',
+    s3: {
+      endpoint: process.env.S3_ENDPOINT,
+      region: process.env.S3_REGION || 'us-east-1',
+      bucket: process.env.S3_BUCKET || 'sydykov-media',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false',
+    },
+    retentionDays: parseInt(process.env.MEDIA_RETENTION_DAYS || '30', 10),
+  },
   logging: {
     level: process.env.LOG_LEVEL || 'info',
   },
@@ -0,0 +1,170 @@
+import {
+  levenshtein,
+  matchCommand,
+  normalizeWord,
+  parseArgs,
+  splitTarget,
+  stripBotName,
+  tokenize,
+} from './command-parser';
+import type { CommandDefinition } from './command.types';
+
+const command = (
+  definition: Partial<CommandDefinition> & { name: string },
+): CommandDefinition => ({
+  category: 'test',
+  description: definition.name,
+  handler: () => '',
+  ...definition,
+});
+
+const definitions: CommandDefinition[] = [
+  command({ name: 'факты', targetable: true, readOnly: true }),
+  command({ name: 'статистика', readOnly: true }),
+  command({ name: 'очистить факты', targetable: true }),
+  command({ name: 'стоп', targetable: true }),
+  command({
+    name: 'стоп на',
+    targetable: true,
+    args: [{ name: 'until', type: 'text' }],
+  }),
+  command({
+    name: 'история факта',
+    readOnly: true,
+    args: [{ name: 'number', type: 'number' }],
+  }),
+  command({
+    name: 'одобрение',
+    args: [{ name: 'enabled', type: 'boolean' }],
+  }),
+];
+
+describe('command-parser', () => {
+  describe('normalizeWord / tokenize', () => {
+    it('lowercases, replaces ё and strips edge punctuation', () => {
+      expect(normalizeWord('«Ещё!»')).toBe('еще');
+    });
+
+    it('keeps @ in the raw token and skips punctuation-only words', () => {
+      expect(tokenize('стоп, — @Vasya!')).toEqual([
+        { value: 'стоп', raw: 'стоп', end: 5 },
+        { value: 'vasya', raw: '@Vasya', end: 15 },
+      ]);
+    });
+  });
+
+  describe('stripBotName', () => {
+    it('strips the bot name at the start or at the end', () => {
+      expect(stripBotName('Канатик, факты', 'канатик')).toBe('факты');
+      expect(stripBotName('факты, канатик', 'канатик')).toBe('факты');
+    });
+
+    it('returns null when the bot is not addressed', () => {
+      expect(stripBotName('скажи канатику факты', 'канатик')).toBeNull();
+      expect(stripBotName('канатики, факты', 'канатик')).toBeNull();
+    });
+  });
+
+  describe('levenshtein', () => {
+    it('counts insertions, deletions and substitutions', () => {
+      expect(levenshtein('факты', 'факты')).toBe(0);
+      expect(levenshtein('фкты', 'факты')).toBe(1);
+      expect(levenshtein('статистка', 'статистика')).toBe(1);
+      expect(levenshtein('', 'стоп')).toBe(4);
+    });
+  });
+
+  describe('matchCommand', () => {
+    it('prefers the longest exact alias', () => {
+      const match = matchCommand('стоп на 2 часа', definitions);
+
+      expect(match?.definition.name).toBe('стоп на');
+      expect(match?.argsText).toBe('2 часа');
+    });
+
+    it('allows typos in read-only commands', () => {
+      const match = matchCommand('статистка', definitions);
+
+      expect(match?.definition.name).toBe('статистика');
+      expect(match?.distance).toBe(1);
+    });
+
+    it('requires exact names for commands that change state', () => {
+      expect(matchCommand('очистить фактв', definitions)).toBeNull();
+      expect(matchCommand('одобрени вкл', definitions)).toBeNull();
+    });
+
+    it('rejects extra words for commands without arguments', () => {
+      expect(matchCommand('статистика за неделю', definitions)).toBeNull();
+    });
+
+    it('returns null for unknown text', () => {
+      expect(matchCommand('как дела', definitions)).toBeNull();
+      expect(matchCommand('', definitions)).toBeNull();
+    });
+  });
+
+  describe('splitTarget', () => {
+    const split = (text: string) => {
+      const match = matchCommand(text, definitions);
+      if (!match) {
+        throw new Error(`No command for "${text}"`);
+      }
+      return splitTarget(match);
+    };
+
+    it('takes an explicit target from the first or the last word', () => {
+      expect(split('стоп на @vasya 3 часа')).toMatchObject({
+        target: '@vasya',
+        match: { argsText: '3 часа' },
+      });
+      expect(split('стоп на 3 часа 123456789')).toMatchObject({
+        target: '123456789',
+        match: { argsText: '3 часа' },
+      });
+    });
+
+    it('treats the whole rest as a name for commands without arguments', () => {
+      expect(split('факты Вася Пупкин')).toMatchObject({
+        target: 'Вася Пупкин',
+        match: { argsText: '' },
+      });
+    });
+
+    it('leaves arguments alone without an explicit target', () => {
+      expect(split('стоп на 3 часа')).toEqual({
+        match: expect.objectContaining({ argsText: '3 часа' }),
+      });
+    });
+  });
+
+  describe('parseArgs', () => {
+    const parse = (text: string) => {
+      const match = matchCommand(text, definitions);
+      if (!match) {
+        throw new Error(`No command for "${text}"`);
+      }
+      return parseArgs(match);
+    };
+
+    it('parses numbers, booleans and text', () => {
+      expect(parse('история факта 2')).toEqual({ args: { number: 2 } });
+      expect(parse('одобрение выкл')).toEqual({ args: { enabled: false } });
+      expect(parse('стоп на до Завтра')).toEqual({
+        args: { until: 'до Завтра' },
+      });
+    });
+
+    it('reports missing, invalid and extra arguments', () => {
+      expect(parse('история факта')).toEqual({
+        error: 'не указан аргумент "number"',
+      });
+      expect(parse('история факта два')).toEqual({
+        error: 'не понял "два" (number)',
+      });
+      expect(parse('одобрение вкл сейчас')).toEqual({
+        error: 'лишние слова "сейчас"',
+      });
+    });
+  });
+});
@@ -0,0 +1,317 @@
+import type {
+  CommandArgDefinition,
+  CommandArgs,
+  CommandDefinition,
+} from './command.types';
+
+/**
+ * Слово команды: нормализованная форма для сравнения, исходное написание и позиция в тексте
+ */
+export interface CommandToken {
+  value: string;
+  raw: string;
+  end: number;
+}
+
+export interface CommandMatch {
+  definition: CommandDefinition;
+  distance: number; // Сумма опечаток в словах команды
+  argsText: string; // Остаток строки после команды (исходный регистр)
+  argTokens: CommandToken[];
+}
+
+const TRUE_WORDS = ['вкл', 'включить', 'on', 'да', 'yes', 'true', '1'];
+const FALSE_WORDS = ['выкл', 'выключить', 'off', 'нет', 'no', 'false', '0'];
+
+const EDGE_PUNCTUATION = /^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu;
+// Для исходного слова оставляем @ в начале (цель команды: @username)
+const RAW_EDGE_PUNCTUATION = /^[^\p{L}\p{N}@]+|[^\p{L}\p{N}]+$/gu;
+
+/**
+ * Нормализует слово: нижний регистр, ё -> е, без пунктуации по краям
+ */
+export function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/ё/g, 'е').replace(EDGE_PUNCTUATION, '');
+}
+
+/**
+ * Разбивает текст на слова (слова из одной пунктуации пропускаются)
+ */
+export function tokenize(text: string): CommandToken[] {
+  const tokens: CommandToken[] = [];
+
+  for (const match of text.matchAll(/\S+/g)) {
+    const value = normalizeWord(match[0]);
+    if (value) {
+      tokens.push({
+        value,
+        raw: match[0].replace(RAW_EDGE_PUNCTUATION, ''),
+        end: match.index + match[0].length,
+      });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Убирает обращение к боту в начале ("канатик, ...") или в конце ("..., канатик")
+ * @returns текст команды или null, если к боту не обращались
+ */
+export function stripBotName(text: string, botName: string): string | null {
+  const name = botName.toLowerCase();
+  const trimmed = text.trim();
+  const lower = trimmed.toLowerCase();
+  const isBoundary = (char: string | undefined) =>
+    char === undefined || !/[\p{L}\p{N}]/u.test(char);
+
+  if (lower.startsWith(name) && isBoundary(lower[name.length])) {
+    return trimmed.slice(name.length).replace(/^[\s,.:!]+/, '');
+  }
+
+  if (
+    lower.endsWith(name) &&
+    isBoundary(lower[lower.length - name.length - 1])
+  ) {
+    return trimmed
+      .slice(0, trimmed.length - name.length)
+      .replace(/[\s,.:!]+$/, '');
+  }
+
+  return null;
+}
+
+/**
+ * Расстояние Левенштейна между словами
+ */
+export function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Сколько опечаток допускаем в слове: в коротких словах - ни одной
+ */
+function allowedTypos(word: string): number {
+  if (word.length >= 8) return 2;
+  if (word.length >= 4) return 1;
+  return 0;
+}
+
+/**
+ * Сравнивает начало текста с вариантом команды
+ * @param fuzzy - допускать ли опечатки (только для команд, которые ничего не меняют)
+ * @returns сумма опечаток или null, если не совпадает
+ */
+function matchAlias(
+  tokens: CommandToken[],
+  alias: string[],
+  fuzzy: boolean,
+): number | null {
+  if (tokens.length < alias.length) {
+    return null;
+  }
+
+  let distance = 0;
+  for (let i = 0; i < alias.length; i++) {
+    const typos = levenshtein(tokens[i].value, alias[i]);
+    if (typos > (fuzzy ? allowedTypos(alias[i]) : 0)) {
+      return null;
+    }
+    distance += typos;
+  }
+
+  return distance;
+}
+
+/**
+ * Находит команду для текста: точные совпадения важнее опечаток
+ * (опечатки допускаются только в командах readOnly),
+ * команды без аргументов (и без цели) подходят только если после них ничего нет
+ */
+export function matchCommand(
+  text: string,
+  definitions: CommandDefinition[],
+): CommandMatch | null {
+  const tokens = tokenize(text);
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  let best: CommandMatch | null = null;
+  let bestLength = 0;
+
+  for (const definition of definitions) {
+    for (const alias of [definition.name, ...(definition.aliases ?? [])]) {
+      const aliasTokens = tokenize(alias).map((token) => token.value);
+      const distance = matchAlias(
+        tokens,
+        aliasTokens,
+        definition.readOnly ?? false,
+      );
+      if (distance === null) continue;
+
+      const argTokens = tokens.slice(aliasTokens.length);
+      const acceptsArgs = definition.args?.length || definition.targetable;
+      if (argTokens.length > 0 && !acceptsArgs) continue;
+
+      const isBetter =
+        !best ||
+        distance < best.distance ||
+        (distance === best.distance && aliasTokens.length > bestLength);
+      if (isBetter) {
+        const argsText = text
+          .slice(tokens[aliasTokens.length - 1].end)
+          .replace(/^[\s,.:]+/, '')
+          .trim();
+        best = {
+          definition,
+          distance,
+          argsText,
+          argTokens: tokenize(argsText),
+        };
+        bestLength = aliasTokens.length;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Явная цель команды: @username или Telegram ID
+ */
+function isExplicitTarget(word: string): boolean {
+  return /^@\w+$/.test(word) || /^-?\d{5,}$/.test(word);
+}
+
+/**
+ * Отделяет цель команды (другой чат) от аргументов:
+ * @username или Telegram ID первым или последним словом,
+ * а у команд без аргументов - весь остаток (имя)
+ */
+export function splitTarget(match: CommandMatch): {
+  target?: string;
+  match: CommandMatch;
+} {
+  const tokens = match.argTokens;
+  const [first] = tokens;
+  const last = tokens[tokens.length - 1];
+  if (!match.definition.targetable || !first) {
+    return { match };
+  }
+
+  const withArgs = (argsText: string) => ({
+    ...match,
+    argsText,
+    argTokens: tokenize(argsText),
+  });
+
+  if (isExplicitTarget(first.raw)) {
+    const argsText = match.argsText
+      .slice(first.end)
+      .replace(/^[\s,.:]+/, '')
+      .trim();
+    return { target: first.raw, match: withArgs(argsText) };
+  }
+
+  if (!match.definition.args?.length) {
+    return { target: match.argsText, match: withArgs('') };
+  }
+
+  // "стоп на 3 часа @vasya"
+  if (tokens.length > 1 && isExplicitTarget(last.raw)) {
+    const argsText = match.argsText
+      .slice(0, match.argsText.lastIndexOf(last.raw))
+      .replace(/[\s,.:]+$/, '')
+      .trim();
+    return { target: last.raw, match: withArgs(argsText) };
+  }
+
+  return { match };
+}
+
+/**
+ * Разбирает аргументы команды по описанию
+ * @returns аргументы или текст ошибки
+ */
+export function parseArgs(
+  match: CommandMatch,
+): { args: CommandArgs } | { error: string } {
+  const args: CommandArgs = {};
+  const definitions: CommandArgDefinition[] = match.definition.args ?? [];
+  let tokenIndex = 0;
+  let rest = match.argsText;
+
+  for (const definition of definitions) {
+    if (definition.type === 'text') {
+      if (rest) {
+        args[definition.name] = rest;
+      } else if (!definition.optional) {
+        return {
+          error: `не указан аргумент "${definition.label ?? definition.name}"`,
+        };
+      }
+      break;
+    }
+
+    const token = match.argTokens[tokenIndex];
+    if (!token) {
+      if (!definition.optional) {
+        return {
+          error: `не указан аргумент "${definition.label ?? definition.name}"`,
+        };
+      }
+      continue;
+    }
+
+    const value = parseValue(token, definition);
+    if (value === null) {
+      return {
+        error: `не понял "${token.raw}" (${definition.label ?? definition.name})`,
+      };
+    }
+
+    args[definition.name] = value;
+    tokenIndex++;
+    rest = match.argsText.slice(token.end).replace(/^[\s,.:]+/, '');
+  }
+
+  const hasTextArg = definitions.some((arg) => arg.type === 'text');
+  if (!hasTextArg && tokenIndex < match.argTokens.length) {
+    return { error: `лишние слова "${rest}"` };
+  }
+
+  return { args };
+}
+
+function parseValue(
+  token: CommandToken,
+  definition: CommandArgDefinition,
+): string | number | boolean | null {
+  switch (definition.type) {
+    case 'number': {
+      const number = parseFloat(token.raw.replace(',', '.'));
+      return Number.isNaN(number) ? null : number;
+    }
+    case 'boolean':
+      if (TRUE_WORDS.includes(token.value)) return true;
+      if (FALSE_WORDS.includes(token.value)) return false;
+      return null;
+    default:
+      return token.raw;
+  }
+}
@@ -0,0 +1,141 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import {
+  CommandMatch,
+  matchCommand,
+  parseArgs,
+  splitTarget,
+  stripBotName,
+} from './command-parser';
+import type { CommandArgs, CommandDefinition } from './command.types';
+
+// Порядок и заголовки разделов справки (разделы не из списка идут в конце)
+const CATEGORY_TITLES: Record<string, string> = {
+  info: '📋 Информация',
+  stats: '📊 Статистика',
+  context: '⚙️ Управление контекстом',
+  personas: '🎭 Персоны',
+  facts: '📝 Факты о пользователе',
+  groups: '👥 Групповые чаты',
+  ignore: '🚫 Игнор-лист',
+  approval: '✅ Режим одобрения',
+  policy: '🛡 Политика автоответов',
+  commitments: '🤝 Обещания',
+  schedule: '⏰ Расписание',
+  digest: '📰 Дайджест',
+  events: '🎉 События',
+  help: '❓ Помощь',
+};
+
+export type ResolvedCommand = {
+  definition: CommandDefinition;
+  target?: string; // Другой чат, указанный в команде (еще не найденный в БД)
+} & ({ args: CommandArgs } | { error: string });
+
+/**
+ * Реестр команд владельца: команды описываются декларативно (алиасы, аргументы, справка)
+ * и регистрируются сервисами, которым они принадлежат
+ */
+@Injectable()
+export class CommandRegistry {
+  private readonly logger = new Logger(CommandRegistry.name);
+  private readonly commands: CommandDefinition[] = [];
+
+  register(...definitions: CommandDefinition[]): void {
+    for (const definition of definitions) {
+      const names = [definition.name, ...(definition.aliases ?? [])];
+      const duplicate = this.commands.find((command) =>
+        [command.name, ...(command.aliases ?? [])].some((name) =>
+          names.includes(name),
+        ),
+      );
+      if (duplicate) {
+        this.logger.warn(
+          `Command "${definition.name}" overlaps with "${duplicate.name}"`,
+        );
+      }
+
+      this.commands.push(definition);
+    }
+  }
+
+  /**
+   * Убирает обращение к боту из текста
+   * @returns текст команды или null, если к боту не обращались в начале или конце
+   */
+  extractCommandText(messageText: string, botName: string): string | null {
+    return stripBotName(messageText, botName);
+  }
+
+  /**
+   * Находит команду и разбирает аргументы
+   * @returns null если текст не похож ни на одну команду
+   */
+  resolve(commandText: string): ResolvedCommand | null {
+    const match: CommandMatch | null = matchCommand(commandText, this.commands);
+    if (!match) {
+      return null;
+    }
+
+    if (match.distance > 0) {
+      this.logger.debug(
+        `Fuzzy matched "${commandText}" to command "${match.definition.name}"`,
+      );
+    }
+
+    const { target, match: argsMatch } = splitTarget(match);
+    const parsed = parseArgs(argsMatch);
+    return 'error' in parsed
+      ? { definition: match.definition, target, error: parsed.error }
+      : { definition: match.definition, target, args: parsed.args };
+  }
+
+  /**
+   * Пример вызова команды для справки и сообщений об ошибках
+   */
+  formatUsage(definition: CommandDefinition, botName: string): string {
+    const args = definition.usage
+      ? ` ${definition.usage}`
+      : (definition.args ?? [])
+          .map((arg) => ` [${arg.label ?? arg.name}${arg.optional ? '?' : ''}]`)
+          .join('');
+    return `\`${botName}, ${definition.name}${args}\``;
+  }
+
+  /**
+   * Справка по всем командам, сгруппированная по разделам
+   */
+  formatHelp(botName: string): string {
+    const categories = [
+      ...Object.keys(CATEGORY_TITLES),
+      ...this.commands
+        .map((command) => command.category)
+        .filter((category) => !(category in CATEGORY_TITLES)),
+    ].filter((category, index, all) => all.indexOf(category) === index);
+
+    const sections = categories
+      .map((category) => {
+        const commands = this.commands.filter(
+          (command) => command.category === category,
+        );
+        if (commands.length === 0) {
+          return null;
+        }
+
+        const lines = commands.map(
+          (command) =>
+            `• ${this.formatUsage(command, botName)}${command.targetable ? ' 🎯' : ''} - ${command.description}`,
+        );
+        return [CATEGORY_TITLES[category] ?? category, ...lines].join('\n');
+      })
+      .filter(Boolean);
+
+    return `Доступные команды для владельца:
+
+${sections.join('\n\n')}
+
+🎯 Команду можно направить на другой чат (например, из Избранного): \`${botName}, стоп @username\`, \`${botName}, факты 12345\` или \`${botName}, стоп Вася\`
+
+**Другие запросы:** Если написать "${botName}, [что угодно]" и команда неизвестна - запрос будет обработан через AI как личный ассистент.`;
+  }
+}
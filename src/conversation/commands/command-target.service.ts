@@ -0,0 +1,112 @@
+import { Injectable } from '@nestjs/common';
+import type { User } from '@prisma/client';
+
+import { PrismaService } from '../../database/prisma.service';
+
+// Сколько кандидатов показываем, если имя подходит нескольким собеседникам
+const MAX_CANDIDATES = 5;
+
+export type TargetResolution =
+  | { user: User }
+  | { error: string; unknownName?: boolean }; // unknownName - имя не нашлось, возможно это не цель
+
+/**
+ * Находит собеседника, указанного в команде: @username, Telegram ID или имя
+ */
+@Injectable()
+export class CommandTargetService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async resolve(query: string): Promise<TargetResolution> {
+    const target = query.trim();
+
+    if (target.startsWith('@')) {
+      const user = await this.prisma.user.findFirst({
+        where: {
+          username: { equals: target.slice(1), mode: 'insensitive' },
+        },
+      });
+      return user
+        ? { user }
+        : {
+            error: `Собеседник ${target} не найден (он должен хоть раз написать).`,
+          };
+    }
+
+    if (/^-?\d+$/.test(target)) {
+      const user = await this.prisma.user.findUnique({
+        where: { telegramId: BigInt(target) },
+      });
+      return user
+        ? { user }
+        : {
+            error: `Собеседник с ID ${target} не найден (он должен хоть раз написать).`,
+          };
+    }
+
+    return await this.resolveByName(target);
+  }
+
+  /**
+   * Поиск по имени: каждое слово должно совпасть с именем, фамилией или username
+   * Если подходит несколько - точное совпадение полного имени, иначе просим уточнить
+   */
+  private async resolveByName(name: string): Promise<TargetResolution> {
+    const words = name.split(/\s+/).filter(Boolean);
+    const candidates = await this.prisma.user.findMany({
+      where: {
+        AND: words.map((word) => ({
+          OR: [
+            { firstName: { contains: word, mode: 'insensitive' as const } },
+            { lastName: { contains: word, mode: 'insensitive' as const } },
+            { username: { contains: word, mode: 'insensitive' as const } },
+          ],
+        })),
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: MAX_CANDIDATES + 1,
+    });
+
+    if (candidates.length === 0) {
+      return { error: `Не нашел собеседника "${name}".`, unknownName: true };
+    }
+
+    if (candidates.length === 1) {
+      return { user: candidates[0] };
+    }
+
+    const exact = candidates.filter(
+      (user) =>
+        this.formatName(user).toLowerCase() === name.toLowerCase() ||
+        user.firstName?.toLowerCase() === name.toLowerCase(),
+    );
+    if (exact.length === 1) {
+      return { user: exact[0] };
+    }
+
+    const list = candidates
+      .slice(0, MAX_CANDIDATES)
+      .map((user) => `• ${this.describe(user)}`)
+      .join('\n');
+    const more = candidates.length > MAX_CANDIDATES ? '\n• ...' : '';
+
+    return {
+      error: `Под "${name}" подходит несколько собеседников:\n${list}${more}\n\nУточни через @username или ID.`,
+    };
+  }
+
+  /**
+   * Имя собеседника для ответов команд: "Вася Пупкин (@vasya, 12345)"
+   */
+  describe(user: User): string {
+    const details = [
+      user.username ? `@${user.username}` : null,
+      `\`${user.telegramId}\``,
+    ].filter(Boolean);
+    return `${this.formatName(user) || 'Без имени'} (${details.join(', ')})`;
+  }
+
+  private formatName(user: User): string {
+    return [user.firstName, user.lastName].filter(Boolean).join(' ');
+  }
+}
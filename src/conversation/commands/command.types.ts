@@ -0,0 +1,52 @@
+/**
+ * Групповой чат, в котором написана команда
+ */
+export interface GroupChatContext {
+  chatId: bigint; // Telegram ID группового чата
+  title?: string; // Название группы
+}
+
+/**
+ * Контекст выполнения команды
+ */
+export interface CommandContext {
+  ownerTelegramId: bigint; // ID владельца (автор команды)
+  targetTelegramId: bigint; // ID собеседника в чате, где написана команда
+  groupChat?: GroupChatContext; // Групповой чат (если команда написана в группе)
+}
+
+/**
+ * Типы аргументов:
+ * word - одно слово, number - число, boolean - вкл/выкл, text - весь остаток строки (в исходном регистре)
+ */
+export type CommandArgType = 'word' | 'number' | 'boolean' | 'text';
+
+export interface CommandArgDefinition {
+  name: string; // Ключ в args
+  label?: string; // Подпись в справке (по умолчанию name)
+  type: CommandArgType;
+  optional?: boolean;
+}
+
+export type CommandArgs = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Где команда имеет смысл: в любом чате, только в личном или только в группе
+ */
+export type CommandScope = 'any' | 'private' | 'group';
+
+export interface CommandDefinition {
+  name: string; // Основное имя (показывается в справке)
+  aliases?: string[]; // Другие варианты написания (RU/EN)
+  args?: CommandArgDefinition[];
+  scope?: CommandScope; // По умолчанию any
+  targetable?: boolean; // Можно указать другой чат: @username, Telegram ID или имя
+  readOnly?: boolean; // Только показывает данные: название можно написать с опечаткой
+  category: string; // Раздел справки
+  description: string;
+  usage?: string; // Пример вызова для справки, если аргументов недостаточно для понятного примера
+  handler: (
+    context: CommandContext,
+    args: CommandArgs,
+  ) => Promise<string> | string;
+}
@@ -0,0 +1,597 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { ConversationSummary, Message, UserFact } from '@prisma/client';
+
+import { PrismaService } from '../database/prisma.service';
+import { MediaStorageService } from '../media/media-storage.service';
+import { MemoryService, type RecalledMemory } from '../memory/memory.service';
+import type { ChatMessage } from '../openai/openai.service';
+import { getLocalDate, getWeekStart } from '../utils/owner-schedule';
+import {
+  countChatTokens,
+  countMessageTokens,
+  countTokens,
+} from '../utils/tokens';
+
+import { FactsService } from './facts.service';
+import { formatMessageText, formatSummaryPeriod } from './message-format';
+
+// Сколько последних сообщений с фото отправлять в модель картинками (более старые - текстовой пометкой)
+const CONTEXT_IMAGE_MESSAGES_LIMIT = 3;
+
+// Медиа, картинки которых передаются в модель (для стикеров и GIF - превью)
+const VISION_MEDIA_TYPES: string[] = ['photo', 'sticker', 'gif'];
+
+// Какая доля бюджета после системного промпта гарантированно остается последним сообщениям
+const MIN_MESSAGES_SHARE = 0.4;
+
+// Одно сообщение занимает не больше этой доли бюджета сообщений, остальное вырезается из середины
+const LONG_MESSAGE_SHARE = 0.25;
+const LONG_MESSAGE_MIN_TOKENS = 200;
+
+// Сообщений не в архиве обычно не больше порога суммаризации; если суммаризация
+// отстает, читаем не больше стольких порогов - в бюджет больше все равно не влезет
+const MESSAGES_WINDOW_THRESHOLDS = 2;
+
+// Резюме: дни текущей и прошлой недели (прошлая могла еще не свернуться) и недели до них
+const SUMMARY_WEEKS_LIMIT = 12;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type ContextSection =
+  | 'system'
+  | 'notes'
+  | 'summary'
+  | 'facts'
+  | 'memory'
+  | 'messages';
+
+export interface ContextRequest {
+  conversationId: string;
+  userId?: string; // Собеседник для фактов (в группах нет)
+  systemPrompt: string; // Системный промпт: база + персона + персональный контекст
+  notes: ChatMessage[]; // Обязательные системные пометки (владелец, группа, ID новых сообщений)
+  memoryQuery: string; // Новые сообщения собеседника - по ним ищется долгая память
+}
+
+/**
+ * Что вошло в контекст и что пришлось сократить
+ */
+export interface ContextReport {
+  budget: number;
+  used: number;
+  sections: Record<ContextSection, number>; // Токены по разделам
+  truncated: string[]; // Что сокращено, по-человечески ("3 старых сообщения" и т.п.)
+}
+
+export interface BuiltContext {
+  messages: ChatMessage[]; // Без системного промпта - его добавляет OpenAIService
+  report: ContextReport;
+}
+
+interface ImagePart {
+  url: string;
+  detail?: 'low';
+}
+
+interface ContextItem {
+  message: Message;
+  text: string;
+  images: ImagePart[];
+  tokens: number;
+}
+
+/**
+ * Сборка контекста для модели в пределах бюджета токенов
+ * Системный промпт и пометки входят всегда; резюме, факты и долгая память
+ * получают до своего лимита; остальное - последним сообщениям. Если не влезает,
+ * сначала дешевеют и убираются картинки старых сообщений, потом сами старые сообщения
+ */
+@Injectable()
+export class ContextBuilderService {
+  private readonly logger = new Logger(ContextBuilderService.name);
+  private readonly model: string;
+  private readonly contextTokenBudget: number;
+  private readonly summaryTokenBudget: number;
+  private readonly factsTokenBudget: number;
+  private readonly memoryTokenBudget: number;
+  private readonly messagesWindow: number;
+  private readonly timezone: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly mediaStorageService: MediaStorageService,
+    private readonly factsService: FactsService,
+    private readonly memoryService: MemoryService,
+  ) {
+    this.model = this.configService.get<string>('openai.model', 'gpt-4o-mini');
+    this.contextTokenBudget = this.configService.get<number>(
+      'messageProcessing.contextTokenBudget',
+      12000,
+    );
+    this.summaryTokenBudget = this.configService.get<number>(
+      'messageProcessing.summaryTokenBudget',
+      1500,
+    );
+    this.factsTokenBudget = this.configService.get<number>(
+      'messageProcessing.factsTokenBudget',
+      800,
+    );
+    this.memoryTokenBudget = this.configService.get<number>(
+      'messageProcessing.memoryTokenBudget',
+      1000,
+    );
+    this.messagesWindow =
+      Math.max(
+        this.configService.get<number>(
+          'messageProcessing.contextMessagesLimit',
+          20,
+        ),
+        this.configService.get<number>(
+          'messageProcessing.summaryThreshold',
+          50,
+        ),
+      ) * MESSAGES_WINDOW_THRESHOLDS;
+    this.timezone = this.configService.get<string>(
+      'schedule.timezone',
+      'Asia/Bishkek',
+    );
+  }
+
+  async build(request: ContextRequest): Promise<BuiltContext> {
+    const conversation = await this.prisma.conversation.findUnique({
+      where: { id: request.conversationId },
+      include: {
+        messages: {
+          where: { archivedAt: null },
+          orderBy: { createdAt: 'desc' },
+          take: this.messagesWindow,
+        },
+      },
+    });
+
+    if (!conversation) {
+      throw new Error(`Conversation not found: ${request.conversationId}`);
+    }
+
+    const summaries = await this.loadSummaries(request.conversationId);
+
+    const truncated: string[] = [];
+    const sections: Record<ContextSection, number> = {
+      system: this.countMessage({
+        role: 'system',
+        content: request.systemPrompt,
+      }),
+      notes: request.notes.reduce(
+        (sum, note) => sum + this.countMessage(note),
+        0,
+      ),
+      summary: 0,
+      facts: 0,
+      memory: 0,
+      messages: 0,
+    };
+
+    const available = Math.max(
+      0,
+      this.contextTokenBudget -
+        sections.system -
+        sections.notes -
+        countChatTokens([], this.model),
+    );
+    let allowance = available - Math.ceil(available * MIN_MESSAGES_SHARE);
+
+    // Резюме архива
+    const summary = this.buildSummary(
+      conversation.summary,
+      summaries,
+      Math.min(this.summaryTokenBudget, allowance),
+      truncated,
+    );
+    sections.summary = summary ? this.countMessage(summary) : 0;
+    allowance -= sections.summary;
+
+    // Факты о собеседнике
+    const facts = request.userId
+      ? this.buildFacts(
+          await this.factsService.getFactsForUser(request.userId),
+          Math.min(this.factsTokenBudget, allowance),
+          truncated,
+        )
+      : null;
+    sections.facts = facts ? this.countMessage(facts) : 0;
+    allowance -= sections.facts;
+
+    // Долгая память
+    const memory = this.buildMemory(
+      await this.memoryService.recall(
+        request.conversationId,
+        request.memoryQuery,
+      ),
+      Math.min(this.memoryTokenBudget, allowance),
+      truncated,
+    );
+    sections.memory = memory ? this.countMessage(memory) : 0;
+
+    // Последние сообщения - на все, что осталось
+    const recent = await this.buildRecentMessages(
+      conversation.messages,
+      available - sections.summary - sections.facts - sections.memory,
+      truncated,
+    );
+    sections.messages = recent.reduce(
+      (sum, message) => sum + this.countMessage(message),
+      0,
+    );
+
+    const messages = [
+      ...(summary ? [summary] : []),
+      ...recent,
+      ...request.notes,
+      ...(facts ? [facts] : []),
+      ...(memory ? [memory] : []),
+    ];
+
+    const report: ContextReport = {
+      budget: this.contextTokenBudget,
+      used:
+        Object.values(sections).reduce((sum, tokens) => sum + tokens, 0) +
+        countChatTokens([], this.model),
+      sections,
+      truncated,
+    };
+    this.logReport(request.conversationId, report);
+
+    return { messages, report };
+  }
+
+  /**
+   * Резюме периодов, которые может показать buildSummary: дни последних двух недель
+   * и самые свежие резюме недель (старые все равно не влезут в бюджет раньше свежих)
+   */
+  private async loadSummaries(
+    conversationId: string,
+  ): Promise<ConversationSummary[]> {
+    const daysSince = new Date(
+      getWeekStart(getLocalDate(new Date(), this.timezone)).getTime() - WEEK_MS,
+    );
+
+    const [days, weeks] = await Promise.all([
+      this.prisma.conversationSummary.findMany({
+        where: {
+          conversationId,
+          level: 'day',
+          periodStart: { gte: daysSince },
+        },
+      }),
+      this.prisma.conversationSummary.findMany({
+        where: { conversationId, level: 'week' },
+        orderBy: { periodStart: 'desc' },
+        take: SUMMARY_WEEKS_LIMIT,
+      }),
+    ]);
+
+    return [...days, ...weeks];
+  }
+
+  private countMessage(message: ChatMessage): number {
+    return countMessageTokens(message, this.model);
+  }
+
+  /**
+   * Резюме архива: общее резюме всей переписки, затем периоды от свежих к старым
+   * (дни текущей недели, прошлые недели) - пока хватает бюджета
+   */
+  private buildSummary(
+    overall: string | null,
+    summaries: ConversationSummary[],
+    budget: number,
+    truncated: string[],
+  ): ChatMessage | null {
+    const header = 'Краткое резюме предыдущих сообщений:\n';
+    let remaining = budget;
+
+    const overallText =
+      overall && countTokens(header + overall, this.model) <= remaining
+        ? overall
+        : null;
+    if (overall && !overallText) {
+      truncated.push('общее резюме');
+    }
+    if (overallText) {
+      remaining -= countTokens(header + overallText, this.model);
+    }
+
+    // Дни, уже свернутые в резюме недели, отдельно не показываем
+    const weekStarts = summaries
+      .filter((summary) => summary.level === 'week')
+      .map((summary) => summary.periodStart.getTime());
+    const periods = summaries
+      .filter(
+        (summary) =>
+          summary.level === 'week' ||
+          !weekStarts.includes(getWeekStart(summary.periodStart).getTime()),
+      )
+      .sort((a, b) => b.periodStart.getTime() - a.periodStart.getTime());
+
+    const selected: string[] = [];
+    for (const summary of periods) {
+      const line = `${formatSummaryPeriod(summary)}: ${summary.content}`;
+      const tokens = countTokens(line, this.model);
+      if (tokens > remaining) {
+        break;
+      }
+      selected.unshift(line);
+      remaining -= tokens;
+    }
+    if (selected.length < periods.length) {
+      truncated.push(
+        `резюме периодов: ${periods.length - selected.length} из ${periods.length}`,
+      );
+    }
+
+    const parts: string[] = [];
+    if (overallText) {
+      parts.push(header + overallText);
+    }
+    if (selected.length > 0) {
+      parts.push(`Подробнее по периодам:\n${selected.join('\n\n')}`);
+    }
+    return parts.length > 0
+      ? { role: 'system', content: parts.join('\n\n') }
+      : null;
+  }
+
+  /**
+   * Факты о собеседнике: если не влезают, первыми уходят самые старые
+   */
+  private buildFacts(
+    facts: UserFact[],
+    budget: number,
+    truncated: string[],
+  ): ChatMessage | null {
+    const selected = [...facts];
+    const format = (): ChatMessage => ({
+      role: 'system',
+      content: this.factsService.formatFactsForContext(selected),
+    });
+
+    while (selected.length > 0 && this.countMessage(format()) > budget) {
+      selected.shift();
+    }
+    if (selected.length < facts.length) {
+      truncated.push(`факты: ${selected.length} из ${facts.length}`);
+    }
+
+    return selected.length > 0 ? format() : null;
+  }
+
+  /**
+   * Долгая память: самые похожие фрагменты, пока хватает бюджета
+   */
+  private buildMemory(
+    memories: RecalledMemory[],
+    budget: number,
+    truncated: string[],
+  ): ChatMessage | null {
+    const format = (items: RecalledMemory[]): ChatMessage => ({
+      role: 'system',
+      content: this.memoryService.formatForContext(
+        [...items].sort(
+          (a, b) => a.occurredAt.getTime() - b.occurredAt.getTime(),
+        ),
+      ),
+    });
+
+    const selected: RecalledMemory[] = [];
+    for (const memory of [...memories].sort(
+      (a, b) => b.similarity - a.similarity,
+    )) {
+      if (this.countMessage(format([...selected, memory])) <= budget) {
+        selected.push(memory);
+      }
+    }
+    if (selected.length < memories.length) {
+      truncated.push(`долгая память: ${selected.length} из ${memories.length}`);
+    }
+
+    return selected.length > 0 ? format(selected) : null;
+  }
+
+  /**
+   * Последние сообщения (от старых к новым) в пределах бюджета
+   * @param messages - сообщения вне архива, от новых к старым
+   */
+  private async buildRecentMessages(
+    messages: Message[],
+    budget: number,
+    truncated: string[],
+  ): Promise<ChatMessage[]> {
+    const images = await this.loadImages(messages);
+    const maxMessageTokens = Math.max(
+      LONG_MESSAGE_MIN_TOKENS,
+      Math.floor(budget * LONG_MESSAGE_SHARE),
+    );
+
+    // Кандидаты от новых к старым; слишком длинные сообщения сокращаем сразу
+    let shortened = 0;
+    const items: ContextItem[] = messages.map((message) => {
+      let text = formatMessageText(message);
+      if (countTokens(text, this.model) > maxMessageTokens) {
+        text = this.truncateMiddle(text, maxMessageTokens);
+        shortened++;
+      }
+      const item: ContextItem = {
+        message,
+        text,
+        images: images.get(message.id) ?? [],
+        tokens: 0,
+      };
+      item.tokens = this.countMessage(this.renderItem(item));
+      return item;
+    });
+    if (shortened > 0) {
+      truncated.push(`длинные сообщения сокращены: ${shortened}`);
+    }
+
+    let total = items.reduce((sum, item) => sum + item.tokens, 0);
+    let downsampled = 0;
+    let droppedImages = 0;
+    let droppedMessages = 0;
+    const update = (item: ContextItem) => {
+      total -= item.tokens;
+      item.tokens = this.countMessage(this.renderItem(item));
+      total += item.tokens;
+    };
+
+    // Не влезает: картинки старых сообщений - сначала в low detail, потом пометкой;
+    // затем убираем самые старые сообщения (самое новое остается всегда)
+    while (total > budget && items.length > 1) {
+      const oldest = [...items].reverse();
+      const highDetail = oldest.find((item) =>
+        item.images.some((image) => !image.detail),
+      );
+      if (highDetail) {
+        highDetail.images = highDetail.images.map((image) => ({
+          ...image,
+          detail: 'low',
+        }));
+        downsampled++;
+        update(highDetail);
+        continue;
+      }
+
+      const withImages = oldest.find((item) => item.images.length > 0);
+      if (withImages) {
+        droppedImages += withImages.images.length;
+        withImages.images = [];
+        update(withImages);
+        continue;
+      }
+
+      total -= items.pop()!.tokens;
+      droppedMessages++;
+    }
+
+    if (downsampled > 0) {
+      truncated.push(`картинки в low detail: ${downsampled} сообщ.`);
+    }
+    if (droppedImages > 0) {
+      truncated.push(`картинки заменены пометкой: ${droppedImages}`);
+    }
+    if (droppedMessages > 0) {
+      truncated.push(`старые сообщения: ${droppedMessages}`);
+    }
+
+    return items.reverse().map((item) => this.renderItem(item));
+  }
+
+  /**
+   * Картинки последних сообщений с фото, стикерами и GIF (более старые - текстовой пометкой)
+   */
+  private async loadImages(
+    messages: Message[],
+  ): Promise<Map<string, ImagePart[]>> {
+    const imageMessages = messages
+      .filter(
+        (msg) =>
+          msg.mediaType &&
+          VISION_MEDIA_TYPES.includes(msg.mediaType) &&
+          !msg.deletedAt,
+      )
+      .slice(0, CONTEXT_IMAGE_MESSAGES_LIMIT);
+    const result = new Map<string, ImagePart[]>();
+    if (imageMessages.length === 0) {
+      return result;
+    }
+
+    const attachments = await this.prisma.messageAttachment.findMany({
+      where: { messageId: { in: imageMessages.map((msg) => msg.id) } },
+      select: {
+        messageId: true,
+        mimeType: true,
+        storageKey: true,
+        data: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+    for (const attachment of attachments) {
+      const data = await this.mediaStorageService.loadBase64(attachment);
+      if (!data) {
+        continue;
+      }
+      const list = result.get(attachment.messageId!) ?? [];
+      list.push({ url: `data:${attachment.mimeType};base64,${data}` });
+      result.set(attachment.messageId!, list);
+    }
+
+    // Fallback на старый формат (imageUrls)
+    for (const msg of messages) {
+      if (!result.has(msg.id) && msg.imageUrls && msg.imageUrls.length > 0) {
+        result.set(
+          msg.id,
+          msg.imageUrls.map((url) => ({ url })),
+        );
+      }
+    }
+
+    return result;
+  }
+
+  private renderItem(item: ContextItem): ChatMessage {
+    const { message } = item;
+    const role = message.role as 'user' | 'assistant';
+    let text = item.text;
+
+    // Фото без картинки в контексте - оставляем текстовую пометку
+    if (
+      message.mediaType === 'photo' &&
+      item.images.length === 0 &&
+      !message.deletedAt
+    ) {
+      text = text ? `[фото]\n${text}` : '[фото]';
+    }
+
+    if (item.images.length === 0) {
+      return { role, content: text };
+    }
+
+    return {
+      role,
+      content: [
+        ...(text ? [{ type: 'text' as const, text }] : []),
+        ...item.images.map((image) => ({
+          type: 'image_url' as const,
+          image_url: image.detail
+            ? { url: image.url, detail: image.detail }
+            : { url: image.url },
+        })),
+      ],
+    };
+  }
+
+  /**
+   * Сокращает текст до бюджета, вырезая середину: начало и конец обычно важнее
+   */
+  private truncateMiddle(text: string, maxTokens: number): string {
+    const ratio = maxTokens / countTokens(text, this.model);
+    const keep = Math.max(0, Math.floor(text.length * ratio) - 20);
+    const head = Math.ceil((keep * 2) / 3);
+    const tail = keep - head;
+    return `${text.substring(0, head)} [...сокращено...] ${tail > 0 ? text.substring(text.length - tail) : ''}`.trim();
+  }
+
+  private logReport(conversationId: string, report: ContextReport): void {
+    const sections = Object.entries(report.sections)
+      .filter(([, tokens]) => tokens > 0)
+      .map(([section, tokens]) => `${section}=${tokens}`)
+      .join(', ');
+    const message = `Context for ${conversationId}: ${report.used}/${report.budget} tokens (${sections})`;
+
+    if (report.truncated.length > 0) {
+      this.logger.log(`${message}; truncated: ${report.truncated.join('; ')}`);
+    } else {
+      this.logger.debug(message);
+    }
+  }
+}
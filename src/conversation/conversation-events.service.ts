@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+
+/**
+ * События диалогов для живого мониторинга (дашборд) и фоновых подписчиков
+ */
+export type ConversationEvent =
+  | {
+      type: 'message'; // Сообщение сохранено в диалог (входящее или ответ)
+      conversationId: string;
+      messageId: string;
+      role: string;
+      content: string;
+      mediaType?: string | null;
+      senderName?: string | null;
+      createdAt: Date;
+    }
+  | {
+      type: 'pending'; // Новое входящее сообщение ждет автоответа
+      pendingMessageId: string;
+      userId: string;
+      telegramId: bigint;
+      chatId?: bigint | null;
+      content: string;
+      scheduledFor: Date;
+    }
+  | {
+      type: 'pending-processed'; // Pending сообщения обработаны или отменены
+      pendingMessageIds: string[];
+    }
+  | {
+      type: 'fact'; // Факт о собеседнике добавлен или изменился
+      userId: string;
+      factId: string;
+      category: string;
+    };
+
+@Injectable()
+export class ConversationEventsService {
+  private readonly events = new Subject<ConversationEvent>();
+
+  /**
+   * Публикует событие (подписчиков может не быть - тогда событие теряется)
+   */
+  emit(event: ConversationEvent): void {
+    this.events.next(event);
+  }
+
+  /**
+   * Поток событий
+   */
+  get events$(): Observable<ConversationEvent> {
+    return this.events.asObservable();
+  }
+}
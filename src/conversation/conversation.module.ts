@@ -2,15 +2,54 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 
 import { DatabaseModule } from '../database/database.module';
+import { MediaModule } from '../media/media.module';
+import { MemoryModule } from '../memory/memory.module';
 import { OpenAIModule } from '../openai/openai.module';
+import { PauseModule } from '../pause/pause.module';
+import { PolicyModule } from '../policy/policy.module';
+import { ScheduleModule } from '../schedule/schedule.module';
 
+import { CommandRegistry } from './commands/command-registry';
+import { CommandTargetService } from './commands/command-target.service';
+import { ContextBuilderService } from './context-builder.service';
+import { ConversationEventsService } from './conversation-events.service';
 import { ConversationService } from './conversation.service';
 import { FactsService } from './facts.service';
 import { OwnerCommandsService } from './owner-commands.service';
+import { PersonaService } from './persona.service';
+import { ReplyDraftService } from './reply-draft.service';
 
 @Module({
-  imports: [DatabaseModule, OpenAIModule, ConfigModule],
-  providers: [ConversationService, OwnerCommandsService, FactsService],
-  exports: [ConversationService, OwnerCommandsService, FactsService],
+  imports: [
+    DatabaseModule,
+    OpenAIModule,
+    ConfigModule,
+    MediaModule,
+    MemoryModule,
+    ScheduleModule,
+    PauseModule,
+    PolicyModule,
+  ],
+  providers: [
+    ConversationService,
+    ContextBuilderService,
+    ConversationEventsService,
+    OwnerCommandsService,
+    FactsService,
+    PersonaService,
+    ReplyDraftService,
+    CommandRegistry,
+    CommandTargetService,
+  ],
+  exports: [
+    ConversationService,
+    ContextBuilderService,
+    ConversationEventsService,
+    OwnerCommandsService,
+    FactsService,
+    PersonaService,
+    ReplyDraftService,
+    CommandRegistry,
+  ],
 })
 export class ConversationModule {}
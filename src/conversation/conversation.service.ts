@@ -1,20 +1,78 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import type { ConversationSummary, Message } from '@prisma/client';
 
 import { getUserContext } from '../config/user-contexts.config';
 import { PrismaService } from '../database/prisma.service';
+import {
+  MediaStorageService,
+  type StoredMedia,
+} from '../media/media-storage.service';
+import { MemoryService } from '../memory/memory.service';
 import { ChatMessage, OpenAIService } from '../openai/openai.service';
+import { getLocalDate, getWeekStart } from '../utils/owner-schedule';
+import { isPauseActive } from '../utils/pause-duration';
+
+import { ConversationEventsService } from './conversation-events.service';
+import { formatMessageText, formatSummaryPeriod } from './message-format';
+
+export type MessageMediaType =
+  | 'photo'
+  | 'voice'
+  | 'audio'
+  | 'video_note'
+  | 'sticker'
+  | 'gif'
+  | 'reaction';
+
+/**
+ * Дополнительные данные сообщения (тип медиа, расшифровка и т.д.)
+ */
+export interface MessageMetadata {
+  mediaType?: MessageMediaType;
+  transcript?: string | null;
+  senderName?: string | null; // Имя отправителя (групповые чаты)
+  senderTelegramId?: bigint | null; // Telegram ID отправителя (групповые чаты)
+  chatId?: bigint | null; // Telegram ID группового чата (только для pending)
+  replyToMessageId?: number | null; // ID сообщения, на которое отвечают
+  quoteText?: string | null; // Цитата или текст сообщения, на которое отвечают
+}
+
+/**
+ * Вложение сообщения (файл уже сохранен в MediaStorage)
+ */
+export type AttachmentInput = StoredMedia;
+
+/**
+ * Результат применения правки входящего сообщения
+ */
+export interface IncomingEditResult {
+  pendingUpdated: number; // Сколько pending сообщений обновлено (еще не отвечены)
+  editedMessage?: {
+    id: string;
+    conversationId: string;
+    previousContent: string;
+    content: string;
+  }; // Уже сохраненное (и отвеченное) сообщение, которое изменилось
+}
+
+// ID супергрупп и каналов с маркером (-100...): нумерация сообщений у каждого своя
+const CHANNEL_CHAT_ID_MAX = -1000000000000n;
 
 @Injectable()
 export class ConversationService {
   private readonly logger = new Logger(ConversationService.name);
   private readonly contextMessagesLimit: number;
   private readonly summaryThreshold: number;
+  private readonly timezone: string;
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly openaiService: OpenAIService,
     private readonly configService: ConfigService,
+    private readonly mediaStorageService: MediaStorageService,
+    private readonly conversationEvents: ConversationEventsService,
+    private readonly memoryService: MemoryService,
   ) {
     this.contextMessagesLimit = this.configService.get<number>(
       'messageProcessing.contextMessagesLimit',
@@ -24,6 +82,10 @@ export class ConversationService {
       'messageProcessing.summaryThreshold',
       50,
     );
+    this.timezone = this.configService.get<string>(
+      'schedule.timezone',
+      'Asia/Bishkek',
+    );
   }
 
   /**
@@ -81,6 +143,59 @@ export class ConversationService {
     return conversation;
   }
 
+  /**
+   * Находит или создает диалог для группового чата
+   */
+  async findOrCreateGroupConversation(chatId: bigint, title?: string) {
+    const conversation = await this.prisma.conversation.upsert({
+      where: { chatId },
+      create: { chatId, isGroup: true, title },
+      update: title ? { title } : {},
+    });
+
+    return conversation;
+  }
+
+  /**
+   * Находит диалог группового чата (null если группа не известна)
+   */
+  async findGroupConversation(chatId: bigint) {
+    return await this.prisma.conversation.findUnique({
+      where: { chatId },
+    });
+  }
+
+  /**
+   * Включает/выключает ответы в групповом чате (allowlist групп)
+   */
+  async setGroupRepliesEnabled(
+    chatId: bigint,
+    enabled: boolean,
+    title?: string,
+  ) {
+    const conversation = await this.findOrCreateGroupConversation(
+      chatId,
+      title,
+    );
+    await this.prisma.conversation.update({
+      where: { id: conversation.id },
+      data: { groupRepliesEnabled: enabled },
+    });
+    this.logger.log(
+      `Group ${chatId} (${conversation.id}) groupRepliesEnabled set to ${enabled}`,
+    );
+  }
+
+  /**
+   * Получает список групп, в которых разрешены ответы
+   */
+  async getEnabledGroups() {
+    return await this.prisma.conversation.findMany({
+      where: { isGroup: true, groupRepliesEnabled: true },
+      orderBy: { lastMessageAt: 'desc' },
+    });
+  }
+
   /**
    * Сохраняет сообщение в БД
    */
@@ -90,7 +205,8 @@ export class ConversationService {
     content: string,
     telegramMessageId?: number,
     imageUrls: string[] = [],
-    imageBase64?: string,
+    attachments: AttachmentInput[] = [],
+    metadata: MessageMetadata = {},
   ) {
     const message = await this.prisma.message.create({
       data: {
@@ -99,7 +215,14 @@ export class ConversationService {
         content,
         telegramMessageId,
         imageUrls,
-        imageBase64,
+        attachments:
+          attachments.length > 0 ? { create: attachments } : undefined,
+        mediaType: metadata.mediaType,
+        transcript: metadata.transcript,
+        senderName: metadata.senderName,
+        senderTelegramId: metadata.senderTelegramId,
+        replyToMessageId: metadata.replyToMessageId,
+        quoteText: metadata.quoteText,
       },
     });
 
@@ -109,100 +232,46 @@ export class ConversationService {
       data: { lastMessageAt: new Date() },
     });
 
+    this.conversationEvents.emit({
+      type: 'message',
+      conversationId,
+      messageId: message.id,
+      role,
+      content,
+      mediaType: message.mediaType,
+      senderName: message.senderName,
+      createdAt: message.createdAt,
+    });
+
     return message;
   }
 
   /**
-   * Получает контекст для формирования промпта
-   * Возвращает summary + последние N сообщений
+   * Сообщение для долгой памяти: с автором, чтобы было понятно, кто что сказал
    */
-  async getConversationContext(conversationId: string): Promise<ChatMessage[]> {
-    const conversation = await this.prisma.conversation.findUnique({
-      where: { id: conversationId },
-      include: {
-        messages: {
-          orderBy: { createdAt: 'desc' },
-          take: this.contextMessagesLimit,
-        },
-      },
-    });
-
-    if (!conversation) {
-      throw new Error(`Conversation not found: ${conversationId}`);
+  private formatMemoryText(msg: Message): string {
+    const text = formatMessageText(msg);
+    if (msg.deletedAt || !text.trim()) {
+      return '';
     }
-
-    const messages: ChatMessage[] = [];
-
-    // Если есть summary, добавляем его первым
-    if (conversation.summary) {
-      messages.push({
-        role: 'system',
-        content: `Краткое резюме предыдущих сообщений:\n${conversation.summary}`,
-      });
+    if (msg.role === 'assistant') {
+      return `Я: ${text}`;
     }
-
-    // Добавляем последние N сообщений (в обратном порядке, чтобы были от старых к новым)
-    const recentMessages = conversation.messages.reverse();
-    for (const msg of recentMessages) {
-      // Если есть imageBase64 или imageUrls, формируем массив content
-      const hasImages =
-        (msg.imageUrls && msg.imageUrls.length > 0) || msg.imageBase64;
-
-      if (hasImages) {
-        const contentArray: Array<
-          | { type: 'text'; text: string }
-          | { type: 'image_url'; image_url: { url: string } }
-        > = [];
-
-        if (msg.content) {
-          contentArray.push({ type: 'text', text: msg.content });
-        }
-
-        // Приоритет: base64 изображение (новый формат)
-        if (msg.imageBase64) {
-          contentArray.push({
-            type: 'image_url',
-            image_url: {
-              url: `data:image/jpeg;base64,${msg.imageBase64}`,
-            },
-          });
-        } else if (msg.imageUrls && msg.imageUrls.length > 0) {
-          // Fallback на старый формат (imageUrls)
-          for (const imageUrl of msg.imageUrls) {
-            contentArray.push({
-              type: 'image_url',
-              image_url: { url: imageUrl },
-            });
-          }
-        }
-
-        messages.push({
-          role: msg.role as 'user' | 'assistant',
-          content: contentArray,
-        });
-      } else {
-        // Если нет картинок, просто текст
-        messages.push({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content,
-        });
-      }
-    }
-
-    this.logger.debug(
-      `Retrieved ${messages.length} messages for conversation ${conversationId}`,
-    );
-    return messages;
+    // В группах formatMessageText уже подписывает отправителя
+    return msg.senderName ? text : `Собеседник: ${text}`;
   }
 
   /**
    * Суммаризирует старые сообщения для сжатия контекста
+   * Сообщения не удаляются, а уходят в архив: общее резюме дополняется ими,
+   * резюме по дням обновляются, закончившиеся недели сворачиваются в резюме недели
    */
   async summarizeConversation(conversationId: string): Promise<void> {
     const conversation = await this.prisma.conversation.findUnique({
       where: { id: conversationId },
       include: {
         messages: {
+          where: { archivedAt: null },
           orderBy: { createdAt: 'asc' },
         },
       },
@@ -232,34 +301,192 @@ export class ConversationService {
       return;
     }
 
-    const chatMessages: ChatMessage[] = messagesToSummarize.map((msg) => ({
-      role: msg.role as 'user' | 'assistant',
-      content: msg.content,
-    }));
+    // Общее резюме дополняем новыми сообщениями, прежнее не теряется
+    const summary = await this.openaiService.summarizeMessages(
+      this.toSummaryMessages(messagesToSummarize),
+      conversation.summary,
+    );
+    const daySummaries = await this.buildDaySummaries(
+      conversationId,
+      messagesToSummarize,
+    );
 
-    // Генерируем summary
-    const summary = await this.openaiService.summarizeMessages(chatMessages);
+    // Сохраняем сообщения в долгую память до архивации.
+    // Если не вышло, не архивируем: попробуем при следующей суммаризации
+    try {
+      await this.memoryService.rememberMessages(
+        conversationId,
+        messagesToSummarize.map((msg) => ({
+          text: this.formatMemoryText(msg),
+          createdAt: msg.createdAt,
+        })),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to save memories for conversation ${conversationId}, postponing summarization`,
+        error,
+      );
+      return;
+    }
 
-    // Сохраняем summary и удаляем старые сообщения
+    // Сохраняем резюме и архивируем сообщения одной транзакцией
     await this.prisma.$transaction([
       this.prisma.conversation.update({
         where: { id: conversationId },
         data: { summary },
       }),
-      this.prisma.message.deleteMany({
-        where: {
-          id: {
-            in: messagesToSummarize.map((msg) => msg.id),
+      ...daySummaries.map((day) =>
+        this.prisma.conversationSummary.upsert({
+          where: {
+            conversationId_level_periodStart: {
+              conversationId,
+              level: 'day',
+              periodStart: day.periodStart,
+            },
           },
-        },
+          create: { conversationId, level: 'day', ...day },
+          update: { content: day.content, messageCount: day.messageCount },
+        }),
+      ),
+      this.prisma.message.updateMany({
+        where: { id: { in: messagesToSummarize.map((msg) => msg.id) } },
+        data: { archivedAt: new Date() },
       }),
     ]);
 
+    await this.rollUpWeeks(conversationId);
+
     this.logger.log(
       `Summarized ${messagesToSummarize.length} messages for conversation ${conversationId}`,
     );
   }
 
+  private toSummaryMessages(messages: Message[]): ChatMessage[] {
+    return messages.map((msg) => ({
+      role: msg.role as 'user' | 'assistant',
+      content: formatMessageText(msg),
+    }));
+  }
+
+  /**
+   * Резюме по дням для архивируемых сообщений: день мог частично уйти
+   * в архив в прошлый раз - тогда его резюме дополняется
+   */
+  private async buildDaySummaries(
+    conversationId: string,
+    messages: Message[],
+  ): Promise<
+    Array<{ periodStart: Date; content: string; messageCount: number }>
+  > {
+    const byDay = new Map<number, Message[]>();
+    for (const msg of messages) {
+      const day = getLocalDate(msg.createdAt, this.timezone).getTime();
+      byDay.set(day, [...(byDay.get(day) ?? []), msg]);
+    }
+
+    const existing = await this.prisma.conversationSummary.findMany({
+      where: {
+        conversationId,
+        level: 'day',
+        periodStart: { in: [...byDay.keys()].map((day) => new Date(day)) },
+      },
+    });
+
+    const result: Array<{
+      periodStart: Date;
+      content: string;
+      messageCount: number;
+    }> = [];
+    for (const [day, dayMessages] of byDay) {
+      const previous = existing.find(
+        (summary) => summary.periodStart.getTime() === day,
+      );
+      const content = await this.openaiService.summarizeMessages(
+        this.toSummaryMessages(dayMessages),
+        previous?.content,
+      );
+      result.push({
+        periodStart: new Date(day),
+        content,
+        messageCount: (previous?.messageCount ?? 0) + dayMessages.length,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Сворачивает дни закончившихся недель в резюме недели
+   * (и пересобирает его, если в архив позже ушли еще сообщения той недели)
+   */
+  private async rollUpWeeks(conversationId: string): Promise<void> {
+    const currentWeek = getWeekStart(getLocalDate(new Date(), this.timezone));
+    const summaries = await this.prisma.conversationSummary.findMany({
+      where: { conversationId, periodStart: { lt: currentWeek } },
+      orderBy: { periodStart: 'asc' },
+    });
+
+    const daysByWeek = new Map<number, ConversationSummary[]>();
+    for (const summary of summaries.filter((item) => item.level === 'day')) {
+      const week = getWeekStart(summary.periodStart).getTime();
+      daysByWeek.set(week, [...(daysByWeek.get(week) ?? []), summary]);
+    }
+
+    for (const [week, days] of daysByWeek) {
+      const existing = summaries.find(
+        (item) => item.level === 'week' && item.periodStart.getTime() === week,
+      );
+      const lastUpdate = Math.max(
+        ...days.map((day) => day.updatedAt.getTime()),
+      );
+      if (existing && existing.updatedAt.getTime() >= lastUpdate) {
+        continue;
+      }
+
+      try {
+        const content = await this.openaiService.combineSummaries(
+          days.map((day) => `${formatSummaryPeriod(day)}: ${day.content}`),
+        );
+        const periodStart = new Date(week);
+        const messageCount = days.reduce(
+          (sum, day) => sum + day.messageCount,
+          0,
+        );
+        await this.prisma.conversationSummary.upsert({
+          where: {
+            conversationId_level_periodStart: {
+              conversationId,
+              level: 'week',
+              periodStart,
+            },
+          },
+          create: {
+            conversationId,
+            level: 'week',
+            periodStart,
+            content,
+            messageCount,
+          },
+          update: { content, messageCount },
+        });
+
+        // Закрытая неделя попадает и в долгую память
+        if (!existing) {
+          await this.memoryService.rememberSummary(
+            conversationId,
+            content,
+            periodStart,
+          );
+        }
+      } catch (error) {
+        // Резюме дней уже сохранены - неделю свернем при следующей суммаризации
+        this.logger.error(
+          `Failed to roll up week summary for conversation ${conversationId}`,
+          error,
+        );
+      }
+    }
+  }
+
   /**
    * Сохраняет pending сообщение для debounce логики
    */
@@ -267,15 +494,16 @@ export class ConversationService {
     userId: string,
     telegramId: bigint,
     content: string,
-    telegramMessageId: number,
+    telegramMessageId: number | null,
     delaySeconds: number,
     imageUrls: string[] = [],
-    imageBase64?: string,
+    attachments: AttachmentInput[] = [],
     isOwnerMessage: boolean = false,
+    metadata: MessageMetadata & { groupedId?: string | null } = {},
   ) {
     const scheduledFor = new Date(Date.now() + delaySeconds * 1000);
 
-    return await this.prisma.pendingMessage.create({
+    const pendingMessage = await this.prisma.pendingMessage.create({
       data: {
         userId,
         telegramId,
@@ -283,10 +511,98 @@ export class ConversationService {
         telegramMessageId,
         scheduledFor,
         imageUrls,
-        imageBase64,
+        attachments:
+          attachments.length > 0 ? { create: attachments } : undefined,
+        groupedId: metadata.groupedId,
         isOwnerMessage,
+        mediaType: metadata.mediaType,
+        transcript: metadata.transcript,
+        chatId: metadata.chatId,
+        senderName: metadata.senderName,
+        replyToMessageId: metadata.replyToMessageId,
+        quoteText: metadata.quoteText,
       },
     });
+
+    this.conversationEvents.emit({
+      type: 'pending',
+      pendingMessageId: pendingMessage.id,
+      userId,
+      telegramId,
+      chatId: pendingMessage.chatId,
+      content,
+      scheduledFor,
+    });
+
+    return pendingMessage;
+  }
+
+  /**
+   * Находит необработанное pending сообщение альбома (для склейки фото альбома)
+   */
+  async findPendingAlbumMessage(groupedId: string) {
+    return await this.prisma.pendingMessage.findFirst({
+      where: { groupedId, processed: false },
+    });
+  }
+
+  /**
+   * Добавляет фото альбома (и подпись, если есть) к существующему pending сообщению
+   * @param maxImages - лимит изображений на сообщение, лишние отбрасываются
+   */
+  async appendToPendingAlbum(
+    pendingMessageId: string,
+    content: string,
+    attachments: AttachmentInput[],
+    maxImages: number,
+  ): Promise<number> {
+    const pending = await this.prisma.pendingMessage.findUnique({
+      where: { id: pendingMessageId },
+      include: { _count: { select: { attachments: true } } },
+    });
+
+    // Ответ уже сформирован - поздние фото альбома не докладываем
+    if (!pending || pending.processed) {
+      await this.mediaStorageService.deleteFiles(
+        attachments.map((a) => a.storageKey),
+      );
+      return 0;
+    }
+
+    const freeSlots = Math.max(0, maxImages - pending._count.attachments);
+    const accepted = attachments.slice(0, freeSlots);
+    const mergedContent = [pending.content, content]
+      .filter((part) => part.trim().length > 0)
+      .join('\n');
+
+    await this.prisma.pendingMessage.update({
+      where: { id: pendingMessageId },
+      data: {
+        content: mergedContent,
+        attachments: accepted.length > 0 ? { create: accepted } : undefined,
+      },
+    });
+
+    if (accepted.length < attachments.length) {
+      await this.mediaStorageService.deleteFiles(
+        attachments.slice(accepted.length).map((a) => a.storageKey),
+      );
+      this.logger.debug(
+        `Album ${pending.groupedId}: dropped ${attachments.length - accepted.length} image(s) over limit ${maxImages}`,
+      );
+    }
+
+    return accepted.length;
+  }
+
+  /**
+   * Переносит вложения pending сообщения в сохраненное сообщение
+   */
+  async movePendingAttachments(pendingMessageId: string, messageId: string) {
+    await this.prisma.messageAttachment.updateMany({
+      where: { pendingMessageId },
+      data: { pendingMessageId: null, messageId },
+    });
   }
 
   /**
@@ -296,6 +612,7 @@ export class ConversationService {
     return await this.prisma.pendingMessage.findMany({
       where: {
         userId,
+        chatId: null,
         processed: false,
       },
       orderBy: { createdAt: 'asc' },
@@ -309,6 +626,20 @@ export class ConversationService {
     return await this.prisma.pendingMessage.findMany({
       where: {
         telegramId,
+        chatId: null,
+        processed: false,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Получает все непрочитанные pending сообщения группового чата
+   */
+  async getPendingMessagesForChat(chatId: bigint) {
+    return await this.prisma.pendingMessage.findMany({
+      where: {
+        chatId,
         processed: false,
       },
       orderBy: { createdAt: 'asc' },
@@ -327,24 +658,155 @@ export class ConversationService {
         processed: true,
       },
     });
+
+    this.conversationEvents.emit({
+      type: 'pending-processed',
+      pendingMessageIds: messageIds,
+    });
+  }
+
+  /**
+   * Применяет правку входящего сообщения:
+   * обновляет pending сообщение и сохраненное сообщение (с историей правок)
+   * @param telegramMessageId - ID сообщения в Telegram
+   * @param content - новый текст
+   * @param telegramId - Telegram ID отправителя (личный чат)
+   * @param chatId - Telegram ID группового чата (если сообщение из группы)
+   */
+  async applyIncomingEdit(
+    telegramMessageId: number,
+    content: string,
+    telegramId: bigint,
+    chatId?: bigint,
+  ): Promise<IncomingEditResult> {
+    const pendingResult = await this.prisma.pendingMessage.updateMany({
+      where: {
+        telegramMessageId,
+        processed: false,
+        ...(chatId ? { chatId } : { telegramId, chatId: null }),
+      },
+      data: { content },
+    });
+
+    // Процессор копирует pending в сохраненные сообщения еще до ответа:
+    // правка во время "печатает..." должна попасть и туда, иначе модель увидит старый текст
+    const editedMessage = await this.editSavedMessage(
+      telegramMessageId,
+      content,
+      telegramId,
+      chatId,
+    );
+
+    if (pendingResult.count > 0) {
+      this.logger.log(
+        `Updated ${pendingResult.count} pending message(s) after edit of ${telegramMessageId}`,
+      );
+      return { pendingUpdated: pendingResult.count };
+    }
+
+    return editedMessage
+      ? { pendingUpdated: 0, editedMessage }
+      : { pendingUpdated: 0 };
   }
 
   /**
-   * Устанавливает флаг игнорирования для чата (команда "стоп Канатик")
+   * Обновляет сохраненное входящее сообщение, прежний текст - в историю правок
+   * @returns измененное сообщение или null, если его нет или текст не изменился
    */
-  async setConversationIgnored(userId: string, ignored: boolean) {
-    const conversation = await this.findOrCreateConversation(userId);
-    await this.prisma.conversation.update({
-      where: { id: conversation.id },
-      data: { isIgnored: ignored },
+  private async editSavedMessage(
+    telegramMessageId: number,
+    content: string,
+    telegramId: bigint,
+    chatId?: bigint,
+  ): Promise<IncomingEditResult['editedMessage'] | null> {
+    const message = await this.prisma.message.findFirst({
+      where: {
+        telegramMessageId,
+        role: 'user',
+        deletedAt: null,
+        conversation: chatId
+          ? { chatId }
+          : { isGroup: false, user: { telegramId } },
+      },
+      orderBy: { createdAt: 'desc' },
     });
+
+    if (!message || message.content === content) {
+      return null;
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.messageEdit.create({
+        data: { messageId: message.id, previousContent: message.content },
+      }),
+      this.prisma.message.update({
+        where: { id: message.id },
+        data: { content, editedAt: new Date() },
+      }),
+    ]);
+
     this.logger.log(
-      `Conversation ${conversation.id} isIgnored set to ${ignored}`,
+      `Message ${message.id} (telegram ${telegramMessageId}) edited, history saved`,
     );
+
+    return {
+      id: message.id,
+      conversationId: message.conversationId,
+      previousContent: message.content,
+      content,
+    };
+  }
+
+  /**
+   * Обрабатывает удаление входящих сообщений:
+   * отменяет pending сообщения и помечает сохраненные как удаленные
+   * @param telegramMessageIds - ID удаленных сообщений в Telegram
+   * @param chatId - Telegram ID супергруппы/канала (без него - личные чаты и обычные
+   *   группы: у них общая нумерация сообщений в рамках аккаунта)
+   */
+  async markMessagesDeleted(
+    telegramMessageIds: number[],
+    chatId?: bigint,
+  ): Promise<{ pendingCancelled: number; messagesDeleted: number }> {
+    const pendingResult = await this.prisma.pendingMessage.updateMany({
+      where: {
+        telegramMessageId: { in: telegramMessageIds },
+        processed: false,
+        ...(chatId
+          ? { chatId }
+          : {
+              OR: [{ chatId: null }, { chatId: { gt: CHANNEL_CHAT_ID_MAX } }],
+            }),
+      },
+      data: { processed: true },
+    });
+
+    const messagesResult = await this.prisma.message.updateMany({
+      where: {
+        telegramMessageId: { in: telegramMessageIds },
+        role: 'user',
+        deletedAt: null,
+        conversation: chatId
+          ? { chatId }
+          : { OR: [{ chatId: null }, { chatId: { gt: CHANNEL_CHAT_ID_MAX } }] },
+      },
+      data: { deletedAt: new Date() },
+    });
+
+    if (pendingResult.count > 0 || messagesResult.count > 0) {
+      this.logger.log(
+        `Deleted messages ${telegramMessageIds.join(', ')}: cancelled ${pendingResult.count} pending, marked ${messagesResult.count} stored`,
+      );
+    }
+
+    return {
+      pendingCancelled: pendingResult.count,
+      messagesDeleted: messagesResult.count,
+    };
   }
 
   /**
-   * Проверяет, игнорируется ли чат
+   * Проверяет, игнорируется ли чат (пауза со сроком после истечения не действует)
    */
   async isConversationIgnored(userId: string): Promise<boolean> {
     const conversation = await this.prisma.conversation.findFirst({
@@ -352,7 +814,7 @@ export class ConversationService {
       orderBy: { lastMessageAt: 'desc' },
     });
 
-    return conversation?.isIgnored ?? false;
+    return conversation ? isPauseActive(conversation) : false;
   }
 
   /**
@@ -1,122 +1,204 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { UserFact, UserFactHistory } from '@prisma/client';
 
 import { PrismaService } from '../database/prisma.service';
+import { ExtractedFactChange, OpenAIService } from '../openai/openai.service';
 
-export interface ExtractedFact {
+import { ConversationEventsService } from './conversation-events.service';
+import { formatMessageText } from './message-format';
+
+export type FactSource = 'conversation' | 'owner' | 'admin';
+
+export interface FactInput {
   category: string;
+  key?: string; // По умолчанию "general"
   fact: string;
 }
 
+const DEFAULT_FACT_KEY = 'general';
+
+// Сколько сообщений-источников хранить у факта (самые свежие)
+const SOURCE_MESSAGES_LIMIT = 20;
+
 @Injectable()
 export class FactsService {
   private readonly logger = new Logger(FactsService.name);
+  private readonly extractionMessages: number;
+  private readonly minConfidence: number;
 
-  constructor(private readonly db: PrismaService) {}
+  constructor(
+    private readonly db: PrismaService,
+    private readonly openaiService: OpenAIService,
+    private readonly configService: ConfigService,
+    private readonly conversationEvents: ConversationEventsService,
+  ) {
+    this.extractionMessages = this.configService.get<number>(
+      'facts.extractionMessages',
+      20,
+    );
+    this.minConfidence = this.configService.get<number>(
+      'facts.minConfidence',
+      0.4,
+    );
+  }
 
   /**
-   * Сохраняет факты о пользователе
-   * Если факт с такой же категорией уже существует, обновляет его
+   * Обновляет факты о собеседнике по последним сообщениям диалога
+   * Модель видит известные факты и сама решает: добавить, уточнить или подтвердить
    */
-  async saveFactsForUser(
+  async extractFromConversation(
     userId: string,
-    facts: ExtractedFact[],
+    conversationId: string,
   ): Promise<void> {
-    if (facts.length === 0) {
-      this.logger.debug(`No facts to save for user ${userId}`);
+    const messages = (
+      await this.db.message.findMany({
+        where: { conversationId, deletedAt: null },
+        orderBy: { createdAt: 'desc' },
+        take: this.extractionMessages,
+      })
+    ).reverse();
+    if (!messages.some((msg) => msg.role === 'user')) {
       return;
     }
 
-    this.logger.log(`Saving ${facts.length} facts for user ${userId}`);
+    const existing = await this.getFactsForUser(userId);
+    const changes = await this.openaiService.extractFacts(
+      messages.map(
+        (msg) =>
+          `${msg.role === 'assistant' ? 'Я' : 'Собеседник'}: ${formatMessageText(msg)}`,
+      ),
+      existing.map((fact) => `[${fact.category}/${fact.key}] ${fact.fact}`),
+    );
 
-    for (const { category, fact } of facts) {
+    let applied = 0;
+    for (const change of changes) {
       try {
-        // Проверяем, существует ли уже факт с такой категорией
-        const existingFact = await this.db.userFact.findFirst({
-          where: {
+        const sourceMessageIds = change.sources
+          .map((index) => messages[index - 1]?.id)
+          .filter((id): id is string => Boolean(id));
+        if (
+          await this.applyChange(
             userId,
-            category,
-          },
-        });
-
-        if (existingFact) {
-          // Обновляем существующий факт
-          await this.db.userFact.update({
-            where: { id: existingFact.id },
-            data: { fact },
-          });
-          this.logger.debug(
-            `Updated fact for user ${userId}, category: ${category}`,
-          );
-        } else {
-          // Создаем новый факт
-          await this.db.userFact.create({
-            data: {
-              userId,
-              category,
-              fact,
-            },
-          });
-          this.logger.debug(
-            `Created fact for user ${userId}, category: ${category}`,
-          );
+            change,
+            existing[change.existing - 1],
+            sourceMessageIds,
+          )
+        ) {
+          applied++;
         }
       } catch (error) {
         this.logger.error(
-          `Failed to save fact for user ${userId}, category: ${category}`,
+          `Failed to apply fact change for user ${userId}: ${change.action} ${change.category}/${change.key}`,
           error,
         );
       }
     }
+
+    if (applied > 0) {
+      this.logger.log(`Applied ${applied} fact changes for user ${userId}`);
+    }
+  }
+
+  /**
+   * Задает факт вручную (владелец или админка): уверенность 1, прежнее значение - в историю
+   */
+  async setFact(
+    userId: string,
+    input: FactInput,
+    source: Exclude<FactSource, 'conversation'>,
+  ): Promise<UserFact> {
+    const category = input.category.toLowerCase();
+    const key = input.key?.toLowerCase() || DEFAULT_FACT_KEY;
+    const existing = await this.db.userFact.findUnique({
+      where: { userId_category_key: { userId, category, key } },
+    });
+
+    if (existing) {
+      return await this.updateFact(existing, {
+        fact: input.fact,
+        confidence: 1,
+        source,
+        sourceMessageIds: [],
+      });
+    }
+
+    this.logger.log(
+      `Created fact for user ${userId}: ${category}/${key} (${source})`,
+    );
+    const created = await this.db.userFact.create({
+      data: { userId, category, key, fact: input.fact, source },
+    });
+    this.emitChanged(created);
+    return created;
   }
 
   /**
-   * Получает все факты о пользователе
+   * Получает все факты о пользователе: от давно не упоминавшихся к свежим
+   * @param order - 'created' - по времени создания, чтобы номера фактов в командах
+   *   владельца не сдвигались, когда факт упоминается снова
    */
-  async getFactsForUser(userId: string): Promise<ExtractedFact[]> {
+  async getFactsForUser(
+    userId: string,
+    order: 'lastSeen' | 'created' = 'lastSeen',
+  ): Promise<UserFact[]> {
     try {
-      const facts = await this.db.userFact.findMany({
+      return await this.db.userFact.findMany({
         where: { userId },
-        orderBy: { createdAt: 'asc' },
+        orderBy:
+          order === 'created'
+            ? [{ createdAt: 'asc' }, { id: 'asc' }]
+            : { lastSeenAt: 'asc' },
       });
-
-      return facts.map(({ category, fact }) => ({ category, fact }));
     } catch (error) {
       this.logger.error(`Failed to get facts for user ${userId}`, error);
       return [];
     }
   }
 
+  /**
+   * Прежние значения факта, от новых к старым
+   */
+  async getFactHistory(factId: string): Promise<UserFactHistory[]> {
+    return await this.db.userFactHistory.findMany({
+      where: { userFactId: factId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
   /**
    * Форматирует факты для добавления в контекст OpenAI
    */
-  formatFactsForContext(facts: ExtractedFact[]): string {
+  formatFactsForContext(facts: UserFact[]): string {
     if (facts.length === 0) {
       return '';
     }
 
     const lines = facts.map(
-      ({ category, fact }) => `  - [${category}] ${fact}`,
+      ({ category, key, fact, confidence }) =>
+        `  - [${category}${key === DEFAULT_FACT_KEY ? '' : `/${key}`}] ${fact}${confidence < 0.7 ? ' (не точно)' : ''}`,
     );
 
     return `Факты о пользователе:\n${lines.join('\n')}`;
   }
 
   /**
-   * Удаляет факт по категории
+   * Удаляет факты категории (или один факт, если указан ключ)
    */
   async deleteFactByCategory(
     userId: string,
     category: string,
+    key?: string,
   ): Promise<boolean> {
     try {
-      await this.db.userFact.deleteMany({
-        where: { userId, category },
+      const { count } = await this.db.userFact.deleteMany({
+        where: { userId, category, ...(key ? { key } : {}) },
       });
 
       this.logger.log(
-        `Deleted fact for user ${userId}, category: ${category}`,
+        `Deleted ${count} facts for user ${userId}, category: ${category}${key ? `/${key}` : ''}`,
       );
-      return true;
+      return count > 0;
     } catch (error) {
       this.logger.error(
         `Failed to delete fact for user ${userId}, category: ${category}`,
@@ -126,6 +208,20 @@ export class FactsService {
     }
   }
 
+  /**
+   * Удаляет факт по id
+   */
+  async deleteFact(factId: string): Promise<boolean> {
+    try {
+      await this.db.userFact.delete({ where: { id: factId } });
+      this.logger.log(`Deleted fact ${factId}`);
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to delete fact ${factId}`, error);
+      return false;
+    }
+  }
+
   /**
    * Удаляет все факты о пользователе
    */
@@ -142,4 +238,144 @@ export class FactsService {
       return false;
     }
   }
+
+  /**
+   * Применяет изменение от модели. Возвращает false, если изменение отброшено
+   */
+  private async applyChange(
+    userId: string,
+    change: ExtractedFactChange,
+    target: UserFact | undefined,
+    sourceMessageIds: string[],
+  ): Promise<boolean> {
+    const confidence = Math.min(1, Math.max(0, change.confidence));
+    const fact = change.fact.trim();
+
+    if (change.action === 'confirm') {
+      if (!target) {
+        return false;
+      }
+      await this.db.userFact.update({
+        where: { id: target.id },
+        data: {
+          confidence: Math.max(target.confidence, confidence),
+          sourceMessageIds: this.mergeSources(
+            target.sourceMessageIds,
+            sourceMessageIds,
+          ),
+          lastSeenAt: new Date(),
+        },
+      });
+      return true;
+    }
+
+    if (!fact || confidence < this.minConfidence) {
+      return false;
+    }
+
+    // "add" для уже занятого ключа - тоже уточнение, а не второй факт
+    const category = change.category;
+    const key = change.key.trim().toLowerCase() || DEFAULT_FACT_KEY;
+    const existing =
+      change.action === 'update' && target
+        ? target
+        : await this.db.userFact.findUnique({
+            where: { userId_category_key: { userId, category, key } },
+          });
+
+    if (!existing) {
+      const created = await this.db.userFact.create({
+        data: { userId, category, key, fact, confidence, sourceMessageIds },
+      });
+      this.emitChanged(created);
+      this.logger.debug(`Created fact for user ${userId}: ${category}/${key}`);
+      return true;
+    }
+
+    // Заданное вручную модель не перебивает догадкой
+    if (
+      existing.source !== 'conversation' &&
+      confidence < existing.confidence
+    ) {
+      return false;
+    }
+
+    await this.updateFact(existing, {
+      fact,
+      confidence,
+      source: 'conversation',
+      sourceMessageIds,
+    });
+    return true;
+  }
+
+  /**
+   * Обновляет значение факта, сохраняя прежнее в историю
+   */
+  private async updateFact(
+    existing: UserFact,
+    update: {
+      fact: string;
+      confidence: number;
+      source: FactSource;
+      sourceMessageIds: string[];
+    },
+  ): Promise<UserFact> {
+    const sourceMessageIds = this.mergeSources(
+      existing.sourceMessageIds,
+      update.sourceMessageIds,
+    );
+
+    if (update.fact === existing.fact) {
+      return await this.db.userFact.update({
+        where: { id: existing.id },
+        data: {
+          confidence: Math.max(existing.confidence, update.confidence),
+          sourceMessageIds,
+          lastSeenAt: new Date(),
+        },
+      });
+    }
+
+    const [, updated] = await this.db.$transaction([
+      this.db.userFactHistory.create({
+        data: {
+          userFactId: existing.id,
+          previousFact: existing.fact,
+          previousConfidence: existing.confidence,
+          source: update.source,
+          sourceMessageIds: update.sourceMessageIds,
+        },
+      }),
+      this.db.userFact.update({
+        where: { id: existing.id },
+        data: {
+          fact: update.fact,
+          confidence: update.confidence,
+          source: update.source,
+          sourceMessageIds,
+          lastSeenAt: new Date(),
+        },
+      }),
+    ]);
+
+    this.emitChanged(updated);
+    this.logger.debug(
+      `Updated fact for user ${existing.userId}: ${existing.category}/${existing.key} (${update.source})`,
+    );
+    return updated;
+  }
+
+  private emitChanged(fact: UserFact): void {
+    this.conversationEvents.emit({
+      type: 'fact',
+      userId: fact.userId,
+      factId: fact.id,
+      category: fact.category,
+    });
+  }
+
+  private mergeSources(current: string[], added: string[]): string[] {
+    return [...new Set([...current, ...added])].slice(-SOURCE_MESSAGES_LIMIT);
+  }
 }
@@ -0,0 +1,100 @@
+/**
+ * Текстовое представление сообщений и резюме для модели
+ */
+import type { ConversationSummary } from '@prisma/client';
+
+import type { MessageMediaType } from './conversation.service';
+
+const QUOTE_MAX_LENGTH = 200;
+
+const MEDIA_LABELS: Partial<Record<MessageMediaType, string>> = {
+  voice: 'голосовое сообщение',
+  audio: 'аудио',
+  video_note: 'видеосообщение (кружок)',
+};
+
+// Визуальные медиа без расшифровки: в transcript хранится эмодзи (стикер, реакция)
+const VISUAL_MEDIA_LABELS: Partial<Record<MessageMediaType, string>> = {
+  sticker: 'стикер',
+  gif: 'GIF',
+  reaction: 'реакция',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Формирует текст сообщения для AI: подпись + расшифровка голосового/видео,
+ * пометка стикера/GIF/реакции
+ */
+export function formatMessageText(msg: {
+  content: string;
+  mediaType: string | null;
+  transcript: string | null;
+  senderName: string | null;
+  deletedAt?: Date | null;
+  replyToMessageId?: number | null;
+  quoteText?: string | null;
+}): string {
+  if (msg.deletedAt) {
+    return msg.senderName
+      ? `${msg.senderName}: [сообщение удалено]`
+      : '[сообщение удалено]';
+  }
+
+  const label = msg.mediaType
+    ? MEDIA_LABELS[msg.mediaType as MessageMediaType]
+    : undefined;
+  const visualLabel = msg.mediaType
+    ? VISUAL_MEDIA_LABELS[msg.mediaType as MessageMediaType]
+    : undefined;
+
+  let text = msg.content;
+
+  if (visualLabel) {
+    const tag = msg.transcript
+      ? `[${visualLabel} ${msg.transcript}]`
+      : `[${visualLabel}]`;
+    text = msg.content ? `${tag}\n${msg.content}` : tag;
+  }
+
+  if (label) {
+    const transcriptText = msg.transcript
+      ? `[${label}]: ${msg.transcript}`
+      : `[${label}, не удалось распознать]`;
+    text = msg.content ? `${transcriptText}\n${msg.content}` : transcriptText;
+  }
+
+  // Ответ на конкретное сообщение: показываем, на что именно отвечают
+  if (msg.replyToMessageId) {
+    let quote = `сообщение #${msg.replyToMessageId}`;
+    if (msg.quoteText) {
+      const quoteText =
+        msg.quoteText.length > QUOTE_MAX_LENGTH
+          ? `${msg.quoteText.substring(0, QUOTE_MAX_LENGTH)}...`
+          : msg.quoteText;
+      quote = `"${quoteText}"`;
+    }
+    text = `[в ответ на ${quote}]\n${text}`;
+  }
+
+  // В групповых чатах подписываем сообщения именем отправителя
+  return msg.senderName ? `${msg.senderName}: ${text}` : text;
+}
+
+/**
+ * Подпись периода резюме: "20.10" или "неделя 13.10-19.10"
+ */
+export function formatSummaryPeriod(summary: ConversationSummary): string {
+  const format = (date: Date) =>
+    new Intl.DateTimeFormat('ru-RU', {
+      timeZone: 'UTC',
+      day: '2-digit',
+      month: '2-digit',
+    }).format(date);
+
+  if (summary.level === 'week') {
+    const end = new Date(summary.periodStart.getTime() + 6 * DAY_MS);
+    return `неделя ${format(summary.periodStart)}-${format(end)}`;
+  }
+  return format(summary.periodStart);
+}
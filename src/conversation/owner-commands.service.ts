@@ -2,9 +2,31 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 
 import { PrismaService } from '../database/prisma.service';
-
+import { PauseService } from '../pause/pause.service';
+import { PolicyService, ReplyListType } from '../policy/policy.service';
+import { ScheduleService } from '../schedule/schedule.service';
+import { parseBusyUntil } from '../utils/owner-schedule';
+import {
+  isPauseActive,
+  parsePauseUntil,
+  splitPauseUntil,
+} from '../utils/pause-duration';
+
+import { CommandRegistry } from './commands/command-registry';
+import { CommandTargetService } from './commands/command-target.service';
+import type {
+  CommandContext,
+  CommandDefinition,
+  GroupChatContext,
+} from './commands/command.types';
 import { ConversationService } from './conversation.service';
 import { FactsService } from './facts.service';
+import {
+  PersonaFormality,
+  PersonaInput,
+  PersonaService,
+} from './persona.service';
+import { ReplyDraftService } from './reply-draft.service';
 
 export interface CommandResult {
   isCommand: boolean; // true если это выполненная команда (не нужно обрабатывать через AI)
@@ -23,11 +45,20 @@ export class OwnerCommandsService {
     private readonly configService: ConfigService,
     private readonly conversationService: ConversationService,
     private readonly factsService: FactsService,
+    private readonly personaService: PersonaService,
+    private readonly scheduleService: ScheduleService,
+    private readonly replyDraftService: ReplyDraftService,
+    private readonly commandRegistry: CommandRegistry,
+    private readonly commandTargetService: CommandTargetService,
+    private readonly pauseService: PauseService,
+    private readonly policyService: PolicyService,
   ) {
     this.botName = this.configService.get<string>('bot.name', 'канатик');
     this.ownerTelegramId = this.configService.get<string>(
       'bot.ownerTelegramId',
     );
+
+    this.commandRegistry.register(...this.getCommandDefinitions());
   }
 
   /**
@@ -35,153 +66,449 @@ export class OwnerCommandsService {
    * @param ownerTelegramId - ID владельца (для проверки прав)
    * @param targetTelegramId - ID целевого пользователя (для команд стоп/продолжай)
    * @param messageText - текст сообщения
+   * @param groupChat - групповой чат, в котором написана команда (если есть)
    */
   async handleOwnerCommand(
     ownerTelegramId: bigint,
     targetTelegramId: bigint,
     messageText: string,
+    groupChat?: GroupChatContext,
   ): Promise<CommandResult> {
     // Если OWNER_TELEGRAM_ID не настроен, команды недоступны
     if (!this.ownerTelegramId) {
       return { isCommand: false, isOwnerMessage: false };
     }
 
-    // Проверяем, что это владелец
-    if (ownerTelegramId.toString() !== this.ownerTelegramId) {
+    const isOwner = ownerTelegramId.toString() === this.ownerTelegramId;
+    const mentionsBot = messageText
+      .toLowerCase()
+      .includes(this.botName.toLowerCase());
+
+    // Обращение к боту - только в начале ("канатик, ...") или в конце ("..., канатик")
+    const commandText = this.commandRegistry.extractCommandText(
+      messageText,
+      this.botName,
+    );
+    const resolved = commandText
+      ? this.commandRegistry.resolve(commandText)
+      : null;
+
+    if (!resolved) {
+      if (isOwner && mentionsBot) {
+        // Неизвестная команда - отправить на обработку AI
+        this.logger.debug(
+          `Unknown owner command "${commandText ?? messageText}", will be processed by AI`,
+        );
+      }
+      return { isCommand: false, isOwnerMessage: isOwner && mentionsBot };
+    }
+
+    const { definition } = resolved;
+    if (!isOwner) {
       return { isCommand: false, isOwnerMessage: false };
     }
 
-    // Проверяем, что сообщение содержит имя бота
-    const lowerText = messageText.toLowerCase().trim();
-    const lowerBotName = this.botName.toLowerCase();
+    this.logger.debug(`Processing owner command "${definition.name}"`);
 
-    if (!lowerText.includes(lowerBotName)) {
-      return { isCommand: false, isOwnerMessage: false };
+    if ('error' in resolved) {
+      return {
+        isCommand: true,
+        isOwnerMessage: isOwner,
+        response: `Не понял команду: ${resolved.error}.\n\nПример: ${this.commandRegistry.formatUsage(definition, this.botName)}`,
+      };
     }
 
-    // Это сообщение владельца с именем бота
-    this.logger.debug(`Processing owner message: ${messageText}`);
-
-    // Убираем имя бота и запятую, получаем чистую команду
-    const commandText = lowerText
-      .replace(lowerBotName, '')
-      .replace(/^[,\s]+/, '')
-      .replace(/[,\s]+$/, '')
-      .trim();
-
-    // Обрабатываем команды
-    let response: string | undefined;
-
-    if (
-      this.matchesCommand(commandText, [
-        'айди',
-        'мой айди',
-        'айди чата',
-        'айди пользователя',
-        'id',
-        'my id',
-      ])
-    ) {
-      response = this.handleGetId(ownerTelegramId);
-    } else if (
-      this.matchesCommand(commandText, [
-        'информация',
-        'моя информация',
-        'информация о чате',
-        'инфо',
-        'info',
-      ])
-    ) {
-      response = await this.handleGetInfo(targetTelegramId);
-    } else if (
-      this.matchesCommand(commandText, [
-        'команды',
-        'список команд',
-        'помощь',
-        'help',
-        'commands',
-      ])
-    ) {
-      response = this.handleGetCommands();
-    } else if (
-      this.matchesCommand(commandText, ['статистика', 'стата', 'stats'])
-    ) {
-      response = await this.handleGetStats(ownerTelegramId);
-    } else if (
-      commandText.startsWith('установить контекст ') ||
-      commandText.startsWith('set context ')
-    ) {
-      const context = commandText
-        .replace(/^установить контекст /, '')
-        .replace(/^set context /, '')
-        .trim();
-      response = await this.handleSetContext(targetTelegramId, context);
-    } else if (
-      this.matchesCommand(commandText, [
-        'очистить контекст',
-        'удалить контекст',
-        'clear context',
-      ])
-    ) {
-      response = await this.handleClearContext(targetTelegramId);
-    } else if (
-      this.matchesCommand(commandText, [
-        'игнор-лист',
-        'список игнорируемых',
-        'ignored list',
-      ])
-    ) {
-      response = await this.handleGetIgnoredList();
-    } else if (
-      this.matchesCommand(commandText, ['стоп', 'стоп канатик', 'stop'])
-    ) {
-      response = await this.handleStopChat(targetTelegramId);
-    } else if (
-      this.matchesCommand(commandText, [
-        'продолжай',
-        'продолжай канатик',
-        'continue',
-      ])
-    ) {
-      response = await this.handleContinueChat(targetTelegramId);
-    } else if (
-      this.matchesCommand(commandText, ['факты', 'факты пользователя', 'facts'])
-    ) {
-      response = await this.handleGetFacts(targetTelegramId);
-    } else if (
-      commandText.startsWith('удалить факт ') ||
-      commandText.startsWith('delete fact ')
-    ) {
-      const category = commandText
-        .replace(/^удалить факт /, '')
-        .replace(/^delete fact /, '')
-        .trim();
-      response = await this.handleDeleteFact(targetTelegramId, category);
-    } else if (
-      this.matchesCommand(commandText, [
-        'очистить факты',
-        'удалить все факты',
-        'clear facts',
-      ])
-    ) {
-      response = await this.handleClearFacts(targetTelegramId);
-    } else {
-      // Неизвестная команда - отправить на обработку AI
-      this.logger.debug(
-        `Unknown owner command "${commandText}", will be processed by AI`,
-      );
-      return { isCommand: false, isOwnerMessage: true };
+    let context: CommandContext = {
+      ownerTelegramId,
+      targetTelegramId,
+      groupChat,
+    };
+
+    // Команда для другого чата: "стоп @vasya", "факты 12345", "стоп Вася"
+    let targetNote = '';
+    if (resolved.target) {
+      const target = await this.commandTargetService.resolve(resolved.target);
+      if ('error' in target && target.unknownName) {
+        // "стоп это безобразие" - не команда для другого чата, а запрос к AI
+        this.logger.debug(
+          `Target "${resolved.target}" not found, will be processed by AI`,
+        );
+        return { isCommand: false, isOwnerMessage: isOwner && mentionsBot };
+      }
+      if ('error' in target) {
+        return {
+          isCommand: true,
+          isOwnerMessage: isOwner,
+          response: target.error,
+        };
+      }
+
+      context = { ownerTelegramId, targetTelegramId: target.user.telegramId };
+      targetNote = `🎯 ${this.commandTargetService.describe(target.user)}\n\n`;
     }
 
+    const scopeError = this.checkScope(definition, context);
+    const response = scopeError
+      ? scopeError
+      : `${targetNote}${await definition.handler(context, resolved.args)}`;
+
     // Известная команда - выполнена успешно
-    return { isCommand: true, isOwnerMessage: true, response };
+    return { isCommand: true, isOwnerMessage: isOwner, response };
+  }
+
+  /**
+   * Проверяет, что команда написана в подходящем чате
+   * @returns текст ошибки или null
+   */
+  private checkScope(
+    definition: CommandDefinition,
+    context: CommandContext,
+  ): string | null {
+    if (definition.scope === 'group' && !context.groupChat) {
+      return 'Эту команду нужно писать в самой группе.';
+    }
+    if (definition.scope === 'private' && context.groupChat) {
+      return 'Эту команду нужно писать в личном чате с собеседником.';
+    }
+    return null;
   }
 
   /**
-   * Проверяет, соответствует ли командный текст одному из вариантов
+   * Встроенные команды владельца
    */
-  private matchesCommand(commandText: string, variants: string[]): boolean {
-    return variants.some((variant) => commandText === variant);
+  private getCommandDefinitions(): CommandDefinition[] {
+    return [
+      {
+        name: 'айди',
+        aliases: ['мой айди', 'айди чата', 'айди пользователя', 'id', 'my id'],
+        category: 'info',
+        readOnly: true,
+        description: 'получить свой Telegram ID',
+        handler: (ctx) => this.handleGetId(ctx.ownerTelegramId),
+      },
+      {
+        name: 'информация',
+        aliases: ['моя информация', 'информация о чате', 'инфо', 'info'],
+        targetable: true,
+        category: 'info',
+        readOnly: true,
+        description: 'информация о контексте',
+        handler: (ctx) => this.handleGetInfo(ctx.targetTelegramId),
+      },
+      {
+        name: 'статистика',
+        aliases: ['стата', 'stats'],
+        category: 'stats',
+        readOnly: true,
+        description: 'статистика по сообщениям',
+        handler: (ctx) => this.handleGetStats(ctx.ownerTelegramId),
+      },
+      {
+        name: 'установить контекст',
+        aliases: ['set context'],
+        args: [{ name: 'context', label: 'текст', type: 'text' }],
+        scope: 'private',
+        targetable: true,
+        category: 'context',
+        description: 'установить персональный контекст',
+        handler: (ctx, args) =>
+          this.handleSetContext(ctx.targetTelegramId, args.context as string),
+      },
+      {
+        name: 'очистить контекст',
+        aliases: ['удалить контекст', 'clear context'],
+        scope: 'private',
+        targetable: true,
+        category: 'context',
+        description: 'удалить персональный контекст',
+        handler: (ctx) => this.handleClearContext(ctx.targetTelegramId),
+      },
+      {
+        name: 'персоны',
+        aliases: ['список персон', 'personas'],
+        category: 'personas',
+        readOnly: true,
+        description: 'список персон',
+        handler: () => this.handleListPersonas(),
+      },
+      {
+        name: 'персона',
+        aliases: ['persona'],
+        args: [{ name: 'name', label: 'имя', type: 'text' }],
+        scope: 'private',
+        targetable: true,
+        category: 'personas',
+        description: 'назначить персону текущему чату',
+        handler: (ctx, args) =>
+          this.handleSetPersona(ctx.targetTelegramId, args.name as string),
+      },
+      {
+        name: 'сбросить персону',
+        aliases: ['убрать персону', 'clear persona'],
+        scope: 'private',
+        targetable: true,
+        category: 'personas',
+        description: 'вернуть стиль по умолчанию',
+        handler: (ctx) => this.handleClearPersona(ctx.targetTelegramId),
+      },
+      {
+        name: 'создать персону',
+        aliases: ['create persona'],
+        args: [{ name: 'definition', label: 'имя', type: 'text' }],
+        category: 'personas',
+        description: 'создать или обновить персону',
+        usage:
+          '[имя]: тон=...; словарь=...; формальность=формально; мат=нет; эмодзи=0.1; описание=...',
+        handler: (_ctx, args) =>
+          this.handleCreatePersona(args.definition as string),
+      },
+      {
+        name: 'удалить персону',
+        aliases: ['delete persona'],
+        args: [{ name: 'name', label: 'имя', type: 'text' }],
+        category: 'personas',
+        description: 'удалить персону',
+        handler: (_ctx, args) => this.handleDeletePersona(args.name as string),
+      },
+      {
+        name: 'факты',
+        aliases: ['факты пользователя', 'facts'],
+        scope: 'private',
+        targetable: true,
+        category: 'facts',
+        readOnly: true,
+        description: 'показать все факты о текущем пользователе',
+        handler: (ctx) => this.handleGetFacts(ctx.targetTelegramId),
+      },
+      {
+        name: 'удалить факт',
+        aliases: ['delete fact'],
+        args: [{ name: 'target', label: 'номер|категория', type: 'text' }],
+        scope: 'private',
+        targetable: true,
+        category: 'facts',
+        description:
+          'удалить факт по номеру из списка или все факты категории (категория/ключ - один факт)',
+        handler: (ctx, args) =>
+          this.handleDeleteFact(
+            ctx.targetTelegramId,
+            (args.target as string).toLowerCase(),
+          ),
+      },
+      {
+        name: 'история факта',
+        aliases: ['fact history'],
+        args: [{ name: 'number', label: 'номер', type: 'number' }],
+        scope: 'private',
+        targetable: true,
+        category: 'facts',
+        readOnly: true,
+        description: 'прежние значения факта из списка',
+        handler: (ctx, args) =>
+          this.handleFactHistory(ctx.targetTelegramId, args.number as number),
+      },
+      {
+        name: 'очистить факты',
+        aliases: ['удалить все факты', 'clear facts'],
+        scope: 'private',
+        targetable: true,
+        category: 'facts',
+        description: 'удалить все факты',
+        handler: (ctx) => this.handleClearFacts(ctx.targetTelegramId),
+      },
+      {
+        name: 'группа вкл',
+        aliases: ['включить группу', 'group on'],
+        scope: 'group',
+        category: 'groups',
+        description:
+          'отвечать в этой группе на упоминания и ответы (писать в группе)',
+        handler: (ctx) => this.handleSetGroupEnabled(ctx.groupChat, true),
+      },
+      {
+        name: 'группа выкл',
+        aliases: ['выключить группу', 'group off'],
+        scope: 'group',
+        category: 'groups',
+        description: 'перестать отвечать в этой группе',
+        handler: (ctx) => this.handleSetGroupEnabled(ctx.groupChat, false),
+      },
+      {
+        name: 'группы',
+        aliases: ['groups'],
+        category: 'groups',
+        readOnly: true,
+        description: 'список групп, где включены ответы',
+        handler: () => this.handleGetGroups(),
+      },
+      {
+        name: 'игнор-лист',
+        aliases: ['список игнорируемых', 'ignored list'],
+        category: 'ignore',
+        readOnly: true,
+        description: 'список игнорируемых чатов',
+        handler: () => this.handleGetIgnoredList(),
+      },
+      {
+        name: 'стоп',
+        aliases: ['stop'],
+        targetable: true,
+        category: 'ignore',
+        description: 'добавить текущий чат в игнор-лист (бессрочно)',
+        handler: (ctx) =>
+          ctx.groupChat
+            ? this.handleSetGroupIgnored(ctx.groupChat, true)
+            : this.handleStopChat(ctx.targetTelegramId),
+      },
+      {
+        name: 'стоп на',
+        aliases: ['стоп до', 'пауза', 'pause'],
+        args: [{ name: 'until', label: 'срок', type: 'text' }],
+        targetable: true,
+        category: 'ignore',
+        description:
+          'пауза в текущем чате на время или до времени (`стоп до завтра`, `стоп до 18:00`), потом ответы включатся сами',
+        usage: '3 часа',
+        handler: (ctx, args) =>
+          this.handleStopChatUntil(ctx, args.until as string),
+      },
+      {
+        name: 'продолжай',
+        aliases: ['continue'],
+        targetable: true,
+        category: 'ignore',
+        description: 'убрать текущий чат из игнор-листа',
+        handler: (ctx) =>
+          ctx.groupChat
+            ? this.handleSetGroupIgnored(ctx.groupChat, false)
+            : this.handleContinueChat(ctx.targetTelegramId),
+      },
+      {
+        name: 'стоп все',
+        aliases: ['стоп всем', 'пауза все', 'pause all'],
+        args: [{ name: 'until', label: 'срок', type: 'text', optional: true }],
+        category: 'ignore',
+        description: 'общая пауза: не отвечать ни в одном чате',
+        usage: 'до завтра',
+        handler: (_ctx, args) =>
+          this.handlePauseAll(args.until as string | undefined, false),
+      },
+      {
+        name: 'отпуск',
+        aliases: ['away', 'vacation'],
+        args: [
+          {
+            name: 'details',
+            label: 'срок? автоответ?',
+            type: 'text',
+            optional: true,
+          },
+        ],
+        category: 'ignore',
+        description:
+          'общая пауза с автоответом: каждый написавший один раз получит этот текст',
+        usage: 'до 25.10 Я в отпуске, отвечу как вернусь',
+        handler: (_ctx, args) =>
+          this.handlePauseAll(args.details as string | undefined, true),
+      },
+      {
+        name: 'продолжай все',
+        aliases: ['продолжай всем', 'вернулся', 'отпуск выкл', 'resume all'],
+        category: 'ignore',
+        description: 'снять общую паузу и режим отпуска',
+        handler: async () => {
+          await this.pauseService.resumeAll();
+          return 'Общая пауза снята. Снова отвечаю во всех чатах (кроме игнор-листа).';
+        },
+      },
+      {
+        name: 'одобрение',
+        aliases: ['черновики', 'approval'],
+        args: [{ name: 'enabled', label: 'вкл/выкл', type: 'boolean' }],
+        scope: 'private',
+        targetable: true,
+        category: 'approval',
+        description:
+          'ответы этому собеседнику сначала приходят черновиком в Избранное; ответь на черновик `ок`, `нет` или своим текстом',
+        handler: (ctx, args) =>
+          this.handleSetApprovalMode(
+            ctx.targetTelegramId,
+            args.enabled as boolean,
+          ),
+      },
+      {
+        name: 'политика',
+        aliases: ['policy'],
+        category: 'policy',
+        readOnly: true,
+        description: 'кому отвечаю: режим, правила, allowlist и denylist',
+        handler: () => this.policyService.describe(),
+      },
+      {
+        name: 'разрешить',
+        aliases: ['allow'],
+        scope: 'private',
+        targetable: true,
+        category: 'policy',
+        description: 'всегда отвечать этому собеседнику (allowlist)',
+        handler: (ctx) =>
+          this.handleSetReplyList(ctx.targetTelegramId, 'allow'),
+      },
+      {
+        name: 'запретить',
+        aliases: ['deny'],
+        scope: 'private',
+        targetable: true,
+        category: 'policy',
+        description: 'никогда не отвечать этому собеседнику (denylist)',
+        handler: (ctx) => this.handleSetReplyList(ctx.targetTelegramId, 'deny'),
+      },
+      {
+        name: 'сбросить политику',
+        aliases: ['reset policy'],
+        scope: 'private',
+        targetable: true,
+        category: 'policy',
+        description: 'убрать собеседника из allowlist/denylist',
+        handler: (ctx) => this.handleSetReplyList(ctx.targetTelegramId, null),
+      },
+      {
+        name: 'расписание',
+        aliases: ['статус', 'schedule'],
+        category: 'schedule',
+        readOnly: true,
+        description: 'текущее состояние (сон, работа, занят)',
+        handler: () => this.scheduleService.describeState(),
+      },
+      {
+        name: 'занят',
+        aliases: ['busy'],
+        args: [{ name: 'until', label: 'время', type: 'text' }],
+        category: 'schedule',
+        description:
+          'не отвечать и не читать до времени или на время (`30м`, `1.5ч`)',
+        usage: 'до 18:00 [причина?]',
+        handler: (_ctx, args) => this.handleSetBusy(args.until as string),
+      },
+      {
+        name: 'свободен',
+        aliases: ['free'],
+        category: 'schedule',
+        description: 'снять занятость',
+        handler: async () => {
+          await this.scheduleService.clearBusy();
+          return `Занятость снята. ${await this.scheduleService.describeState()}`;
+        },
+      },
+      {
+        name: 'команды',
+        aliases: ['список команд', 'помощь', 'help', 'commands'],
+        category: 'help',
+        readOnly: true,
+        description: 'показать этот список',
+        handler: () => this.commandRegistry.formatHelp(this.botName),
+      },
+    ];
   }
 
   /**
@@ -197,6 +524,7 @@ export class OwnerCommandsService {
   private async handleGetInfo(telegramId: bigint): Promise<string> {
     const user = await this.prisma.user.findUnique({
       where: { telegramId },
+      include: { persona: true },
     });
 
     if (!user) {
@@ -207,7 +535,8 @@ export class OwnerCommandsService {
     info += `Telegram ID: \`${telegramId}\`\n`;
     info += `Username: ${user.username || 'не указан'}\n`;
     info += `Имя: ${user.firstName || 'не указано'} ${user.lastName || ''}\n`;
-    info += `Создан: ${user.createdAt.toLocaleString('ru-RU')}\n\n`;
+    info += `Создан: ${user.createdAt.toLocaleString('ru-RU')}\n`;
+    info += `Персона: ${user.persona?.name || 'по умолчанию'}\n\n`;
 
     if (user.customContext) {
       info += `Персональный контекст:\n${user.customContext}`;
@@ -218,39 +547,6 @@ export class OwnerCommandsService {
     return info;
   }
 
-  /**
-   * Команда: список всех команд
-   */
-  private handleGetCommands(): string {
-    return `Доступные команды для владельца:
-
-📋 Информация
-• \`канатик, айди\` - получить свой Telegram ID
-• \`канатик, информация\` - информация о контексте
-
-📊 Статистика
-• \`канатик, статистика\` - статистика по сообщениям
-
-⚙️ Управление контекстом
-• \`канатик, установить контекст [текст]\` - установить персональный контекст
-• \`канатик, очистить контекст\` - удалить персональный контекст
-
-📝 Факты о пользователе
-• \`канатик, факты\` - показать все факты о текущем пользователе
-• \`канатик, удалить факт [категория]\` - удалить факт по категории
-• \`канатик, очистить факты\` - удалить все факты
-
-🚫 Игнор-лист
-• \`канатик, игнор-лист\` - список игнорируемых чатов
-• \`канатик, стоп\` - добавить текущий чат в игнор-лист
-• \`канатик, продолжай\` - убрать текущий чат из игнор-листа
-
-❓ Помощь
-• \`канатик, команды\` - показать этот список
-
-**Другие запросы:** Если написать "канатик, [что угодно]" и команда неизвестна - запрос будет обработан через AI как личный ассистент.`;
-  }
-
   /**
    * Команда: статистика по сообщениям
    */
@@ -336,24 +632,49 @@ export class OwnerCommandsService {
    * Команда: список игнорируемых чатов
    */
   private async handleGetIgnoredList(): Promise<string> {
-    const ignoredConversations = await this.prisma.conversation.findMany({
-      where: { isIgnored: true },
-      include: {
-        user: true,
-      },
-    });
+    const now = new Date();
+    const [globalPause, ignoredConversations] = await Promise.all([
+      this.pauseService.getGlobalPause(now),
+      this.prisma.conversation.findMany({
+        where: {
+          isIgnored: true,
+          OR: [{ ignoredUntil: null }, { ignoredUntil: { gt: now } }],
+        },
+        include: {
+          user: true,
+        },
+      }),
+    ]);
+
+    let list = '';
+    if (globalPause) {
+      list += `⏸ Общая пауза${globalPause.until ? ` до ${this.scheduleService.formatTime(globalPause.until)}` : ''}`;
+      list += globalPause.awayMessage
+        ? `, автоответ: "${globalPause.awayMessage}"\n\n`
+        : '\n\n';
+    }
 
     if (ignoredConversations.length === 0) {
-      return 'Игнор-лист пуст.';
+      return `${list}Игнор-лист пуст.`;
     }
 
-    let list = `Игнорируемые чаты (${ignoredConversations.length}):\n\n`;
+    list += `Игнорируемые чаты (${ignoredConversations.length}):\n\n`;
     for (const conv of ignoredConversations) {
+      const until = conv.ignoredUntil
+        ? ` (до ${this.scheduleService.formatTime(conv.ignoredUntil)})`
+        : '';
+
+      if (!conv.user) {
+        list += `• Группа ${conv.title || 'без названия'}${until}\n`;
+        list += `  ID: \`${conv.chatId}\`\n\n`;
+        continue;
+      }
+
       const username = conv.user.username ? `@${conv.user.username}` : '';
       const name = [conv.user.firstName, conv.user.lastName]
         .filter(Boolean)
         .join(' ');
-      list += `• ${name || 'Без имени'} ${username}\n`;
+      list += `• ${name || 'Без имени'} ${username}${until}\n`;
       list += `  ID: \`${conv.user.telegramId}\`\n\n`;
     }
 
@@ -362,8 +683,12 @@ export class OwnerCommandsService {
 
   /**
    * Команда: остановить ответы в текущем чате
+   * @param until - когда ответы включатся сами (null - бессрочно)
    */
-  private async handleStopChat(telegramId: bigint): Promise<string> {
+  private async handleStopChat(
+    telegramId: bigint,
+    until: Date | null = null,
+  ): Promise<string> {
     const user = await this.prisma.user.findUnique({
       where: { telegramId },
     });
@@ -372,11 +697,36 @@ export class OwnerCommandsService {
       return 'Пользователь не найден.';
     }
 
-    await this.conversationService.setConversationIgnored(user.id, true);
+    const conversation =
+      await this.conversationService.findOrCreateConversation(user.id);
+    await this.pauseService.pauseChat(conversation.id, until);
 
     this.logger.log(`Chat with ${telegramId} added to ignore list`);
 
-    return 'Чат добавлен в игнор-лист. Я не буду отвечать на сообщения из этого чата.';
+    return until
+      ? `Чат на паузе до ${this.scheduleService.formatTime(until)}. Потом снова буду отвечать.`
+      : 'Чат добавлен в игнор-лист. Я не буду отвечать на сообщения из этого чата.';
+  }
+
+  /**
+   * Команда: пауза в текущем чате (личном или группе) на время или до времени
+   */
+  private async handleStopChatUntil(
+    context: CommandContext,
+    value: string,
+  ): Promise<string> {
+    const until = parsePauseUntil(
+      value,
+      new Date(),
+      this.scheduleService.getTimezone(),
+    );
+    if (!until) {
+      return `Не понял срок. Пример: \`${this.botName}, стоп на 3 часа\`, \`${this.botName}, стоп до завтра\` или \`${this.botName}, стоп до 18:00\``;
+    }
+
+    return context.groupChat
+      ? this.handleSetGroupIgnored(context.groupChat, true, until)
+      : this.handleStopChat(context.targetTelegramId, until);
   }
 
   /**
@@ -391,13 +741,45 @@ export class OwnerCommandsService {
       return 'Пользователь не найден.';
     }
 
-    await this.conversationService.setConversationIgnored(user.id, false);
+    const conversation =
+      await this.conversationService.findOrCreateConversation(user.id);
+    await this.pauseService.resumeChat(conversation.id);
 
     this.logger.log(`Chat with ${telegramId} removed from ignore list`);
 
     return 'Чат удален из игнор-листа. Я снова буду отвечать на сообщения.';
   }
 
+  /**
+   * Команда: общая пауза всех чатов ("стоп все до завтра", "отпуск на неделю Я в отпуске")
+   * @param withAwayMessage - остаток текста после срока - автоответ
+   */
+  private async handlePauseAll(
+    value: string | undefined,
+    withAwayMessage: boolean,
+  ): Promise<string> {
+    const { until, rest } = splitPauseUntil(
+      value ?? '',
+      new Date(),
+      this.scheduleService.getTimezone(),
+    );
+    if (rest && !withAwayMessage) {
+      return `Не понял срок. Пример: \`${this.botName}, стоп все на 2 часа\` или \`${this.botName}, стоп все до завтра\``;
+    }
+
+    const awayMessage = withAwayMessage ? rest : undefined;
+    await this.pauseService.pauseAll(until, awayMessage);
+
+    const untilText = until
+      ? ` до ${this.scheduleService.formatTime(until)}`
+      : ' (бессрочно)';
+    const awayText = awayMessage
+      ? `\nКаждый написавший один раз получит: "${awayMessage}"`
+      : '';
+
+    return `⏸ Общая пауза${untilText}: не отвечаю ни в одном чате.${awayText}\n\nСнять: \`${this.botName}, продолжай все\``;
+  }
+
   /**
    * Команда: получить все факты о пользователе
    */
@@ -410,7 +792,7 @@ export class OwnerCommandsService {
       return 'Пользователь не найден.';
     }
 
-    const facts = await this.factsService.getFactsForUser(user.id);
+    const facts = await this.factsService.getFactsForUser(user.id, 'created');
 
     if (facts.length === 0) {
       return 'Нет сохраненных фактов о этом пользователе.';
@@ -418,7 +800,8 @@ export class OwnerCommandsService {
 
     const factsList = facts
       .map(
-        ({ category, fact }) => `• **${category}**: ${fact}`,
+        (fact, index) =>
+          `${index + 1}. **${fact.category}**/${fact.key}: ${fact.fact}\n   ${Math.round(fact.confidence * 100)}%, с ${fact.firstSeenAt.toLocaleDateString('ru-RU')}, упоминался ${fact.lastSeenAt.toLocaleDateString('ru-RU')}${fact.source === 'conversation' ? '' : ` (${fact.source})`}`,
       )
       .join('\n');
 
@@ -426,11 +809,11 @@ export class OwnerCommandsService {
   }
 
   /**
-   * Команда: удалить факт по категории
+   * Команда: удалить факт по номеру, категории или категории/ключу
    */
   private async handleDeleteFact(
     telegramId: bigint,
-    category: string,
+    target: string,
   ): Promise<string> {
     const user = await this.prisma.user.findUnique({
       where: { telegramId },
@@ -440,18 +823,67 @@ export class OwnerCommandsService {
       return 'Пользователь не найден.';
     }
 
+    if (/^\d+$/.test(target)) {
+      const facts = await this.factsService.getFactsForUser(user.id, 'created');
+      const fact = facts[parseInt(target, 10) - 1];
+      if (!fact) {
+        return `Нет факта с номером ${target}. Список: \`${this.botName}, факты\``;
+      }
+
+      const success = await this.factsService.deleteFact(fact.id);
+      return success ? `Факт удален: ${fact.fact}` : 'Не удалось удалить факт.';
+    }
+
+    const [category, key] = target.split('/').map((part) => part.trim());
     const success = await this.factsService.deleteFactByCategory(
       user.id,
       category,
+      key,
     );
 
     if (success) {
-      return `Факт с категорией "${category}" удален.`;
+      return key
+        ? `Факт "${category}/${key}" удален.`
+        : `Факты категории "${category}" удалены.`;
     } else {
-      return `Не удалось удалить факт с категорией "${category}".`;
+      return `Не удалось удалить факт "${target}".`;
     }
   }
 
+  /**
+   * Команда: прежние значения факта
+   */
+  private async handleFactHistory(
+    telegramId: bigint,
+    number: number,
+  ): Promise<string> {
+    const user = await this.prisma.user.findUnique({
+      where: { telegramId },
+    });
+
+    if (!user) {
+      return 'Пользователь не найден.';
+    }
+
+    const facts = await this.factsService.getFactsForUser(user.id, 'created');
+    const fact = facts[number - 1];
+    if (!fact) {
+      return `Нет факта с номером ${number}. Список: \`${this.botName}, факты\``;
+    }
+
+    const history = await this.factsService.getFactHistory(fact.id);
+    if (history.length === 0) {
+      return `**${fact.category}**/${fact.key}: ${fact.fact}\n\nФакт не менялся.`;
+    }
+
+    const lines = history.map(
+      (entry) =>
+        `• ${entry.createdAt.toLocaleString('ru-RU')}: было "${entry.previousFact}" (${Math.round(entry.previousConfidence * 100)}%), изменил: ${entry.source}`,
+    );
+
+    return `**${fact.category}**/${fact.key}: ${fact.fact}\n\nИстория:\n${lines.join('\n')}`;
+  }
+
   /**
    * Команда: удалить все факты о пользователе
    */
@@ -472,4 +904,307 @@ export class OwnerCommandsService {
       return 'Не удалось удалить факты.';
     }
   }
+
+  /**
+   * Команда: список персон
+   */
+  private async handleListPersonas(): Promise<string> {
+    const personas = await this.personaService.listPersonas();
+
+    if (personas.length === 0) {
+      return 'Персон пока нет.\n\nПример: `канатик, создать персону работа: тон=спокойный; мат=нет`';
+    }
+
+    let list = `Персоны (${personas.length}):\n\n`;
+    for (const persona of personas) {
+      list += `• **${persona.name}** (${persona.formality}, мат: ${persona.allowSwearing ? 'да' : 'нет'}, эмодзи: ${persona.emojiRate})\n`;
+      if (persona.description) {
+        list += `  ${persona.description}\n`;
+      }
+    }
+
+    return list;
+  }
+
+  /**
+   * Команда: создать или обновить персону
+   * Формат: "имя: тон=...; словарь=...; формальность=...; мат=да/нет; эмодзи=0.1; описание=..."
+   */
+  private async handleCreatePersona(definition: string): Promise<string> {
+    const [rawName, rawParams = ''] = definition.split(/:(.*)/s);
+    const name = rawName.trim();
+
+    if (!name) {
+      return 'Укажи имя персоны.\n\nПример: `канатик, создать персону работа: тон=спокойный; мат=нет`';
+    }
+
+    const input: PersonaInput = { name };
+
+    for (const param of rawParams.split(';')) {
+      const [rawKey, ...rest] = param.split('=');
+      const key = rawKey.trim().toLowerCase();
+      const value = rest.join('=').trim();
+      if (!key || !value) continue;
+
+      switch (key) {
+        case 'тон':
+        case 'tone':
+          input.tone = value;
+          break;
+        case 'словарь':
+        case 'vocabulary':
+          input.vocabulary = value;
+          break;
+        case 'описание':
+        case 'description':
+          input.description = value;
+          break;
+        case 'формальность':
+        case 'formality': {
+          const formality = this.parseFormality(value.toLowerCase());
+          if (!formality) {
+            return `Неизвестная формальность "${value}". Варианты: неформально, нейтрально, формально.`;
+          }
+          input.formality = formality;
+          break;
+        }
+        case 'мат':
+        case 'swearing':
+          input.allowSwearing = ['да', 'yes', 'можно', 'true'].includes(
+            value.toLowerCase(),
+          );
+          break;
+        case 'эмодзи':
+        case 'emoji': {
+          const emojiRate = parseFloat(value.replace(',', '.'));
+          if (isNaN(emojiRate) || emojiRate < 0 || emojiRate > 1) {
+            return 'Частота эмодзи должна быть числом от 0 до 1.';
+          }
+          input.emojiRate = emojiRate;
+          break;
+        }
+        default:
+          return `Неизвестный параметр персоны "${key}".`;
+      }
+    }
+
+    const persona = await this.personaService.upsertPersona(input);
+
+    return `Персона сохранена:\n\n${this.personaService.formatPersonaForPrompt(persona)}`;
+  }
+
+  /**
+   * Преобразует формальность из команды в значение для БД
+   */
+  private parseFormality(value: string): PersonaFormality | null {
+    if (['неформально', 'неформальная', 'informal'].includes(value)) {
+      return 'informal';
+    }
+    if (['нейтрально', 'нейтральная', 'neutral'].includes(value)) {
+      return 'neutral';
+    }
+    if (['формально', 'формальная', 'formal'].includes(value)) {
+      return 'formal';
+    }
+    return null;
+  }
+
+  /**
+   * Команда: удалить персону
+   */
+  private async handleDeletePersona(name: string): Promise<string> {
+    const deleted = await this.personaService.deletePersona(name);
+
+    return deleted
+      ? `Персона "${name}" удалена.`
+      : `Персона "${name}" не найдена.`;
+  }
+
+  /**
+   * Команда: назначить персону текущему чату
+   */
+  private async handleSetPersona(
+    telegramId: bigint,
+    name: string,
+  ): Promise<string> {
+    const user = await this.prisma.user.findUnique({
+      where: { telegramId },
+    });
+
+    if (!user) {
+      return 'Пользователь не найден.';
+    }
+
+    const persona = await this.personaService.findPersonaByName(name);
+
+    if (!persona) {
+      return `Персона "${name}" не найдена. Список: \`канатик, персоны\``;
+    }
+
+    await this.personaService.assignPersona(user.id, persona.id);
+
+    return `Для этого чата установлена персона "${persona.name}".`;
+  }
+
+  /**
+   * Команда: сбросить персону текущего чата
+   */
+  private async handleClearPersona(telegramId: bigint): Promise<string> {
+    const user = await this.prisma.user.findUnique({
+      where: { telegramId },
+    });
+
+    if (!user) {
+      return 'Пользователь не найден.';
+    }
+
+    await this.personaService.assignPersona(user.id, null);
+
+    return 'Персона сброшена, используется стиль по умолчанию.';
+  }
+
+  /**
+   * Команда: включить/выключить режим одобрения ответов для собеседника
+   */
+  private async handleSetApprovalMode(
+    telegramId: bigint,
+    enabled: boolean,
+  ): Promise<string> {
+    const user = await this.prisma.user.findUnique({
+      where: { telegramId },
+    });
+
+    if (!user) {
+      return 'Пользователь не найден.';
+    }
+
+    await this.replyDraftService.setApprovalMode(user.id, enabled);
+
+    return enabled
+      ? 'Режим одобрения включен. Ответы этому собеседнику сначала будут приходить тебе черновиком.'
+      : 'Режим одобрения выключен. Отвечаю сам.';
+  }
+
+  /**
+   * Команда: добавить собеседника в allowlist / denylist политики автоответов
+   */
+  private async handleSetReplyList(
+    telegramId: bigint,
+    list: ReplyListType | null,
+  ): Promise<string> {
+    const user = await this.prisma.user.findUnique({
+      where: { telegramId },
+    });
+
+    if (!user) {
+      return 'Пользователь не найден.';
+    }
+
+    await this.policyService.setReplyList(telegramId, list);
+
+    if (list === 'allow') {
+      return 'Собеседник в allowlist. Отвечаю ему при любом режиме политики.';
+    }
+    return list === 'deny'
+      ? 'Собеседник в denylist. Больше не отвечаю ему.'
+      : 'Собеседник убран из allowlist/denylist. Действуют общие правила.';
+  }
+
+  /**
+   * Команда: занят до времени ("до 18:00 встреча") или на время ("2ч встреча")
+   */
+  private async handleSetBusy(args: string): Promise<string> {
+    const [first = '', second = '', ...rest] = args
+      .replace(/^до /i, '')
+      .split(/\s+/);
+    const timezone = this.scheduleService.getTimezone();
+    const now = new Date();
+
+    // Длительность может быть записана через пробел: "2 часа"
+    let until = parseBusyUntil(first, now, timezone);
+    let reason = [second, ...rest].join(' ');
+    if (!until && second) {
+      until = parseBusyUntil(`${first}${second}`, now, timezone);
+      reason = rest.join(' ');
+    }
+
+    if (!until) {
+      return 'Не понял время. Пример: `канатик, занят до 18:00` или `канатик, занят 2ч встреча`';
+    }
+
+    await this.scheduleService.setBusyUntil(until, reason.trim() || undefined);
+
+    return `Занят до ${this.scheduleService.formatTime(until)}. Сообщения прочитаю и отвечу после.`;
+  }
+
+  /**
+   * Команда: включить/выключить ответы в групповом чате
+   */
+  private async handleSetGroupEnabled(
+    groupChat: GroupChatContext | undefined,
+    enabled: boolean,
+  ): Promise<string> {
+    if (!groupChat) {
+      return 'Эту команду нужно писать в самой группе.';
+    }
+
+    await this.conversationService.setGroupRepliesEnabled(
+      groupChat.chatId,
+      enabled,
+      groupChat.title,
+    );
+
+    return enabled
+      ? 'Группа добавлена в allowlist. Буду отвечать, когда меня упомянут или ответят на мое сообщение.'
+      : 'Группа убрана из allowlist. Больше не отвечаю в этом чате.';
+  }
+
+  /**
+   * Команда: поставить на паузу / возобновить ответы в групповом чате
+   */
+  private async handleSetGroupIgnored(
+    groupChat: GroupChatContext,
+    ignored: boolean,
+    until: Date | null = null,
+  ): Promise<string> {
+    const conversation =
+      await this.conversationService.findOrCreateGroupConversation(
+        groupChat.chatId,
+        groupChat.title,
+      );
+
+    if (ignored) {
+      await this.pauseService.pauseChat(conversation.id, until);
+    } else {
+      await this.pauseService.resumeChat(conversation.id);
+    }
+
+    this.logger.log(`Group ${groupChat.chatId} isIgnored set to ${ignored}`);
+
+    if (until) {
+      return `Группа на паузе до ${this.scheduleService.formatTime(until)}.`;
+    }
+    return ignored
+      ? 'Группа добавлена в игнор-лист.'
+      : 'Группа удалена из игнор-листа.';
+  }
+
+  /**
+   * Команда: список групп с включенными ответами
+   */
+  private async handleGetGroups(): Promise<string> {
+    const groups = await this.conversationService.getEnabledGroups();
+
+    if (groups.length === 0) {
+      return 'Ни в одной группе ответы не включены.\n\nНапиши в группе: `канатик, группа вкл`';
+    }
+
+    let list = `Группы с ответами (${groups.length}):\n\n`;
+    for (const group of groups) {
+      list += `• ${group.title || 'Без названия'}${isPauseActive(group) ? ' (на паузе)' : ''}\n`;
+      list += `  ID: \`${group.chatId}\`\n\n`;
+    }
+
+    return list;
+  }
 }
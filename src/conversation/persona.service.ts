@@ -0,0 +1,150 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { Persona } from '@prisma/client';
+
+import { PrismaService } from '../database/prisma.service';
+
+export type PersonaFormality = 'informal' | 'neutral' | 'formal';
+
+export interface PersonaInput {
+  name: string;
+  description?: string;
+  tone?: string;
+  vocabulary?: string;
+  formality?: PersonaFormality;
+  allowSwearing?: boolean;
+  emojiRate?: number;
+}
+
+const FORMALITY_DESCRIPTIONS: Record<PersonaFormality, string> = {
+  informal: 'неформально, как с близким знакомым',
+  neutral: 'нейтрально, без фамильярности, но и без официоза',
+  formal: 'формально и уважительно, на "вы" если собеседник так пишет',
+};
+
+@Injectable()
+export class PersonaService {
+  private readonly logger = new Logger(PersonaService.name);
+
+  constructor(private readonly db: PrismaService) {}
+
+  /**
+   * Возвращает все персоны
+   */
+  async listPersonas(): Promise<Persona[]> {
+    return await this.db.persona.findMany({
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Находит персону по имени (без учета регистра)
+   */
+  async findPersonaByName(name: string): Promise<Persona | null> {
+    return await this.db.persona.findFirst({
+      where: { name: { equals: name.trim(), mode: 'insensitive' } },
+    });
+  }
+
+  /**
+   * Создает персону или обновляет существующую с таким же именем
+   */
+  async upsertPersona(input: PersonaInput): Promise<Persona> {
+    const existing = await this.findPersonaByName(input.name);
+    const data = {
+      description: input.description,
+      tone: input.tone,
+      vocabulary: input.vocabulary,
+      formality: input.formality,
+      allowSwearing: input.allowSwearing,
+      emojiRate: input.emojiRate,
+    };
+
+    if (existing) {
+      const persona = await this.db.persona.update({
+        where: { id: existing.id },
+        data,
+      });
+      this.logger.log(`Updated persona "${persona.name}"`);
+      return persona;
+    }
+
+    const persona = await this.db.persona.create({
+      data: { name: input.name.trim(), ...data },
+    });
+    this.logger.log(`Created persona "${persona.name}"`);
+    return persona;
+  }
+
+  /**
+   * Удаляет персону (у пользователей она сбрасывается автоматически)
+   */
+  async deletePersona(name: string): Promise<boolean> {
+    const persona = await this.findPersonaByName(name);
+    if (!persona) {
+      return false;
+    }
+
+    await this.db.persona.delete({ where: { id: persona.id } });
+    this.logger.log(`Deleted persona "${persona.name}"`);
+    return true;
+  }
+
+  /**
+   * Назначает персону пользователю (null - сбросить персону)
+   */
+  async assignPersona(userId: string, personaId: string | null) {
+    await this.db.user.update({
+      where: { id: userId },
+      data: { personaId },
+    });
+    this.logger.log(
+      `Persona for user ${userId} set to ${personaId ?? 'default'}`,
+    );
+  }
+
+  /**
+   * Получает персону, назначенную пользователю
+   */
+  async getPersonaForUser(userId: string): Promise<Persona | null> {
+    const user = await this.db.user.findUnique({
+      where: { id: userId },
+      include: { persona: true },
+    });
+
+    return user?.persona ?? null;
+  }
+
+  /**
+   * Форматирует персону для системного промпта
+   */
+  formatPersonaForPrompt(persona: Persona): string {
+    const formality =
+      FORMALITY_DESCRIPTIONS[persona.formality as PersonaFormality] ??
+      persona.formality;
+    const emojiPercent = Math.round(persona.emojiRate * 100);
+
+    const lines = [`ПЕРСОНА "${persona.name}" (важнее общего стиля выше):`];
+    if (persona.description) {
+      lines.push(`• кто собеседник: ${persona.description}`);
+    }
+    if (persona.tone) {
+      lines.push(`• тон: ${persona.tone}`);
+    }
+    if (persona.vocabulary) {
+      lines.push(`• словарь: ${persona.vocabulary}`);
+    }
+    lines.push(`• формальность: ${formality}`);
+    lines.push(
+      persona.allowSwearing
+        ? '• мат: можно, если в тему'
+        : '• мат: ЗАПРЕЩЕН, никаких грубых слов',
+    );
+    lines.push(
+      emojiPercent > 0
+        ? `• эмодзи: примерно в ${emojiPercent}% сообщений`
+        : '• эмодзи: не используй',
+    );
+
+    return lines.join('\n');
+  }
+}
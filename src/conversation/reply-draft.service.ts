@@ -0,0 +1,192 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { ReplyDraft } from '@prisma/client';
+
+import { PrismaService } from '../database/prisma.service';
+
+export type ReplyDraftStatus =
+  | 'pending'
+  | 'approved'
+  | 'edited'
+  | 'rejected'
+  | 'expired'
+  | 'sent';
+
+/**
+ * Решение владельца по черновику
+ */
+export type DraftDecision =
+  | { type: 'approve' }
+  | { type: 'reject' }
+  | { type: 'edit'; text: string };
+
+const APPROVE_WORDS = ['ок', 'ok', 'да', 'yes', '+', 'отправь'];
+const REJECT_WORDS = ['нет', 'no', '-', 'отмена', 'не надо'];
+
+@Injectable()
+export class ReplyDraftService {
+  private readonly logger = new Logger(ReplyDraftService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Включен ли для пользователя режим одобрения ответов
+   */
+  async isApprovalEnabled(userId: string): Promise<boolean> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { approvalMode: true },
+    });
+    return user?.approvalMode ?? false;
+  }
+
+  /**
+   * Включает/выключает режим одобрения для пользователя
+   */
+  async setApprovalMode(userId: string, enabled: boolean): Promise<void> {
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { approvalMode: enabled },
+    });
+    this.logger.log(`Approval mode for user ${userId} set to ${enabled}`);
+  }
+
+  /**
+   * Создает черновик ответа. Предыдущие неотвеченные черновики диалога устаревают
+   */
+  async createDraft(
+    conversationId: string,
+    telegramId: bigint,
+    messages: string[],
+    replyToMessageId?: number,
+  ): Promise<ReplyDraft> {
+    const expired = await this.prisma.replyDraft.updateMany({
+      where: { conversationId, status: 'pending' },
+      data: { status: 'expired', resolvedAt: new Date() },
+    });
+    if (expired.count > 0) {
+      this.logger.debug(
+        `Expired ${expired.count} previous draft(s) in conversation ${conversationId}`,
+      );
+    }
+
+    return await this.prisma.replyDraft.create({
+      data: { conversationId, telegramId, messages, replyToMessageId },
+    });
+  }
+
+  /**
+   * Запоминает, где лежит сообщение с черновиком (чтобы найти его по ответу владельца)
+   */
+  async setControlMessage(
+    draftId: string,
+    controlChatId: bigint,
+    controlMessageId: number,
+  ): Promise<void> {
+    await this.prisma.replyDraft.update({
+      where: { id: draftId },
+      data: { controlChatId, controlMessageId },
+    });
+  }
+
+  /**
+   * Находит черновик по сообщению в управляющем чате
+   */
+  async findByControlMessage(
+    controlChatId: bigint,
+    controlMessageId: number,
+  ): Promise<ReplyDraft | null> {
+    return await this.prisma.replyDraft.findFirst({
+      where: { controlChatId, controlMessageId },
+    });
+  }
+
+  async getDraft(draftId: string): Promise<ReplyDraft | null> {
+    return await this.prisma.replyDraft.findUnique({ where: { id: draftId } });
+  }
+
+  /**
+   * Применяет решение владельца. Возвращает null, если черновик уже не ждет решения
+   */
+  async resolveDraft(
+    draftId: string,
+    decision: DraftDecision,
+  ): Promise<ReplyDraft | null> {
+    const status: ReplyDraftStatus =
+      decision.type === 'approve'
+        ? 'approved'
+        : decision.type === 'edit'
+          ? 'edited'
+          : 'rejected';
+
+    // Условие на статус защищает от двойного ответа на один черновик
+    const updated = await this.prisma.replyDraft.updateMany({
+      where: { id: draftId, status: 'pending' },
+      data: {
+        status,
+        resolvedAt: new Date(),
+        ...(decision.type === 'edit' ? { messages: [decision.text] } : {}),
+      },
+    });
+
+    if (updated.count === 0) {
+      return null;
+    }
+
+    this.logger.log(`Draft ${draftId} ${status}`);
+    return await this.getDraft(draftId);
+  }
+
+  /**
+   * Отмечает черновик отправленным
+   */
+  async markSent(draftId: string): Promise<void> {
+    await this.prisma.replyDraft.update({
+      where: { id: draftId },
+      data: { status: 'sent' },
+    });
+  }
+
+  /**
+   * Разбирает ответ владельца на черновик: "ок", "нет" или свой текст
+   */
+  parseDecision(text: string): DraftDecision {
+    const normalized = text
+      .trim()
+      .toLowerCase()
+      .replace(/[.!]+$/, '');
+
+    if (APPROVE_WORDS.includes(normalized)) {
+      return { type: 'approve' };
+    }
+    if (REJECT_WORDS.includes(normalized)) {
+      return { type: 'reject' };
+    }
+    return { type: 'edit', text: text.trim() };
+  }
+
+  /**
+   * Текст черновика для управляющего чата
+   * @param contactName - кому ответ
+   * @param incoming - новые сообщения собеседника, на которые отвечаем
+   * @param title - заголовок вместо "Черновик ответа" (например, для поздравления)
+   */
+  formatDraft(
+    contactName: string,
+    incoming: string[],
+    messages: string[],
+    title?: string,
+  ): string {
+    const lines = [title ?? `📝 Черновик ответа для ${contactName}`, ''];
+
+    if (incoming.length > 0) {
+      lines.push(...incoming.map((text) => `💬 ${text}`), '');
+    }
+
+    lines.push(...messages.map((text) => `➡️ ${text}`), '');
+    lines.push(
+      'Ответь на это сообщение: "ок" - отправить, "нет" - не отвечать, свой текст - отправить его вместо черновика',
+    );
+
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,99 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Header,
+  MessageEvent,
+  Param,
+  Post,
+  Put,
+  Sse,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { map, Observable } from 'rxjs';
+
+import { AdminTokenGuard, AllowQueryToken } from '../admin/admin-token.guard';
+import {
+  BigIntSerializationInterceptor,
+  serializeBigInt,
+} from '../admin/bigint-serialization.interceptor';
+import { ConversationEventsService } from '../conversation/conversation-events.service';
+
+import { DASHBOARD_HTML } from './dashboard.html';
+import { DashboardService } from './dashboard.service';
+import { SendMessageDto } from './dto/send-message.dto';
+import { SetPausedDto } from './dto/set-paused.dto';
+
+@Controller('dashboard')
+export class DashboardController {
+  constructor(
+    private readonly dashboardService: DashboardService,
+    private readonly conversationEvents: ConversationEventsService,
+  ) {}
+
+  /**
+   * Страница дашборда (данных не содержит, токен вводится на странице)
+   */
+  @Get()
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  getPage(): string {
+    return DASHBOARD_HTML;
+  }
+
+  /**
+   * Живой поток событий: входящие сообщения, ответы, обработка очереди
+   */
+  @Sse('api/events')
+  @UseGuards(AdminTokenGuard)
+  @AllowQueryToken()
+  events(): Observable<MessageEvent> {
+    return this.conversationEvents.events$.pipe(
+      map((event) => ({ data: serializeBigInt(event) as object })),
+    );
+  }
+
+  @Get('api/chats')
+  @UseGuards(AdminTokenGuard)
+  @UseInterceptors(BigIntSerializationInterceptor)
+  listChats() {
+    return this.dashboardService.listChats();
+  }
+
+  @Get('api/chats/:id/messages')
+  @UseGuards(AdminTokenGuard)
+  @UseInterceptors(BigIntSerializationInterceptor)
+  getChatMessages(@Param('id') conversationId: string) {
+    return this.dashboardService.getChatMessages(conversationId);
+  }
+
+  @Post('api/chats/:id/messages')
+  @UseGuards(AdminTokenGuard)
+  @UseInterceptors(BigIntSerializationInterceptor)
+  sendMessage(
+    @Param('id') conversationId: string,
+    @Body() body: SendMessageDto,
+  ) {
+    return this.dashboardService.sendManualMessage(conversationId, body.text);
+  }
+
+  @Post('api/chats/:id/cancel')
+  @UseGuards(AdminTokenGuard)
+  cancelAutoResponse(@Param('id') conversationId: string) {
+    return this.dashboardService.cancelAutoResponse(conversationId);
+  }
+
+  @Put('api/chats/:id/paused')
+  @UseGuards(AdminTokenGuard)
+  @UseInterceptors(BigIntSerializationInterceptor)
+  setPaused(@Param('id') conversationId: string, @Body() body: SetPausedDto) {
+    return this.dashboardService.setPaused(conversationId, body.paused);
+  }
+
+  @Get('api/pending')
+  @UseGuards(AdminTokenGuard)
+  @UseInterceptors(BigIntSerializationInterceptor)
+  listPending() {
+    return this.dashboardService.listPending();
+  }
+}
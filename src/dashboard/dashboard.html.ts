@@ -0,0 +1,181 @@
+/**
+ * Страница дашборда: одна HTML-страница без сборки, данные берет из /dashboard/api
+ * Токен (ADMIN_API_TOKEN) хранится в localStorage браузера
+ */
+export const DASHBOARD_HTML = `<!DOCTYPE html>
+<html lang="ru">
+<head>
+<meta charset="utf-8">
+<title>Dashboard</title>
+<style>
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 14px/1.4 system-ui, sans-serif; background: #f4f5f7; color: #222; }
+  header { display: flex; gap: 8px; align-items: center; padding: 8px 12px; background: #24292f; color: #fff; }
+  header input { flex: 0 0 280px; }
+  #status { margin-left: auto; font-size: 12px; opacity: .8; }
+  main { display: grid; grid-template-columns: 300px 1fr 320px; height: calc(100vh - 44px); }
+  section { overflow-y: auto; border-right: 1px solid #ddd; background: #fff; }
+  h2 { margin: 0; padding: 8px 12px; font-size: 13px; text-transform: uppercase; color: #666; border-bottom: 1px solid #eee; }
+  .chat { padding: 8px 12px; border-bottom: 1px solid #eee; cursor: pointer; }
+  .chat:hover, .chat.active { background: #eef4ff; }
+  .chat small, .job small { color: #888; display: block; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  .badge { float: right; background: #e5534b; color: #fff; border-radius: 8px; padding: 0 6px; font-size: 12px; }
+  .paused { color: #e5534b; font-size: 12px; }
+  #chat { display: flex; flex-direction: column; }
+  #messages { flex: 1; overflow-y: auto; padding: 12px; }
+  .msg { max-width: 70%; margin: 4px 0; padding: 6px 10px; border-radius: 8px; background: #eee; white-space: pre-wrap; }
+  .msg.assistant { margin-left: auto; background: #d7f0d7; }
+  .msg small { display: block; color: #888; font-size: 11px; }
+  #actions, #send { display: flex; gap: 8px; padding: 8px 12px; border-top: 1px solid #eee; }
+  #send textarea { flex: 1; height: 48px; }
+  .job { padding: 8px 12px; border-bottom: 1px solid #eee; }
+</style>
+</head>
+<body>
+<header>
+  <strong>Dashboard</strong>
+  <input id="token" type="password" placeholder="ADMIN_API_TOKEN">
+  <button id="connect">Подключиться</button>
+  <span id="status">не подключено</span>
+</header>
+<main>
+  <section><h2>Чаты</h2><div id="chats"></div></section>
+  <section id="chat">
+    <h2 id="chatTitle">Выберите чат</h2>
+    <div id="messages"></div>
+    <div id="actions">
+      <button id="cancel" disabled>Отменить автоответ</button>
+      <button id="pause" disabled>Пауза</button>
+    </div>
+    <form id="send">
+      <textarea id="text" placeholder="Сообщение от своего имени" disabled></textarea>
+      <button id="sendButton" disabled>Отправить</button>
+    </form>
+  </section>
+  <section><h2>Очередь</h2><div id="pending"></div></section>
+</main>
+<script>
+  var state = { token: localStorage.getItem('dashboardToken') || '', chats: [], selected: null, source: null };
+  var $ = function (id) { return document.getElementById(id); };
+
+  function escapeHtml(text) {
+    return String(text == null ? '' : text).replace(/[&<>"]/g, function (c) {
+      return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c];
+    });
+  }
+
+  function formatTime(value) {
+    return new Date(value).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+  }
+
+  function api(path, options) {
+    options = options || {};
+    options.headers = { 'Authorization': 'Bearer ' + state.token, 'Content-Type': 'application/json' };
+    return fetch('/dashboard/api' + path, options).then(function (res) {
+      if (!res.ok) throw new Error(res.status + ' ' + res.statusText);
+      return res.json();
+    });
+  }
+
+  function chatName(chat) {
+    if (chat.isGroup) return chat.title || 'Группа ' + chat.chatId;
+    var user = chat.user || {};
+    return [user.firstName, user.lastName].filter(Boolean).join(' ') || (user.username ? '@' + user.username : user.telegramId);
+  }
+
+  function loadChats() {
+    return api('/chats').then(function (chats) {
+      state.chats = chats;
+      $('chats').innerHTML = chats.map(function (chat) {
+        return '<div class="chat' + (chat.id === state.selected ? ' active' : '') + '" data-id="' + chat.id + '">' +
+          (chat.pendingCount ? '<span class="badge">' + chat.pendingCount + '</span>' : '') +
+          escapeHtml(chatName(chat)) + (chat.isIgnored ? ' <span class="paused">пауза</span>' : '') +
+          '<small>' + formatTime(chat.lastMessageAt) + ' · ' + escapeHtml(chat.lastMessage ? chat.lastMessage.content : '') + '</small></div>';
+      }).join('');
+      renderChatHeader();
+    });
+  }
+
+  function renderChatHeader() {
+    var chat = state.chats.find(function (c) { return c.id === state.selected; });
+    var enabled = Boolean(chat);
+    ['cancel', 'pause', 'text', 'sendButton'].forEach(function (id) { $(id).disabled = !enabled; });
+    $('chatTitle').textContent = chat ? chatName(chat) : 'Выберите чат';
+    $('pause').textContent = chat && chat.isIgnored ? 'Снять паузу' : 'Пауза';
+  }
+
+  function appendMessage(msg) {
+    var el = document.createElement('div');
+    el.className = 'msg ' + msg.role;
+    el.innerHTML = '<small>' + formatTime(msg.createdAt) + (msg.senderName ? ' · ' + escapeHtml(msg.senderName) : '') +
+      (msg.mediaType ? ' · ' + escapeHtml(msg.mediaType) : '') + '</small>' + escapeHtml(msg.content);
+    $('messages').appendChild(el);
+    $('messages').scrollTop = $('messages').scrollHeight;
+  }
+
+  function selectChat(id) {
+    state.selected = id;
+    renderChatHeader();
+    $('messages').innerHTML = '';
+    api('/chats/' + id + '/messages').then(function (messages) { messages.forEach(appendMessage); });
+    loadChats();
+  }
+
+  function loadPending() {
+    return api('/pending').then(function (result) {
+      $('pending').innerHTML = result.jobs.map(function (job) {
+        var seconds = Math.max(0, Math.round((new Date(job.runAt) - Date.now()) / 1000));
+        return '<div class="job"><strong>' + escapeHtml(job.state) + '</strong> через ' + seconds + ' c' +
+          '<small>' + escapeHtml(job.data.chatId ? 'группа ' + job.data.chatId : 'пользователь ' + job.data.telegramId) + '</small></div>';
+      }).join('') + result.pendingMessages.map(function (msg) {
+        return '<div class="job">⏳ ' + formatTime(msg.scheduledFor) + '<small>' + escapeHtml(msg.senderName || msg.telegramId) + ': ' + escapeHtml(msg.content) + '</small></div>';
+      }).join('');
+    });
+  }
+
+  function connect() {
+    state.token = $('token').value.trim();
+    localStorage.setItem('dashboardToken', state.token);
+    if (state.source) state.source.close();
+
+    Promise.all([loadChats(), loadPending()]).then(function () {
+      state.source = new EventSource('/dashboard/api/events?token=' + encodeURIComponent(state.token));
+      state.source.onopen = function () { $('status').textContent = 'онлайн'; };
+      state.source.onerror = function () { $('status').textContent = 'переподключение...'; };
+      state.source.onmessage = function (e) {
+        var event = JSON.parse(e.data);
+        if (event.type === 'message' && event.conversationId === state.selected) appendMessage(event);
+        loadChats();
+        loadPending();
+      };
+    }).catch(function (error) { $('status').textContent = 'ошибка: ' + error.message; });
+  }
+
+  $('chats').addEventListener('click', function (e) {
+    var el = e.target.closest('.chat');
+    if (el) selectChat(el.dataset.id);
+  });
+  $('connect').addEventListener('click', connect);
+  $('cancel').addEventListener('click', function () {
+    api('/chats/' + state.selected + '/cancel', { method: 'POST' }).then(function () { loadChats(); loadPending(); });
+  });
+  $('pause').addEventListener('click', function () {
+    var chat = state.chats.find(function (c) { return c.id === state.selected; });
+    api('/chats/' + state.selected + '/paused', { method: 'PUT', body: JSON.stringify({ paused: !chat.isIgnored }) }).then(loadChats);
+  });
+  $('send').addEventListener('submit', function (e) {
+    e.preventDefault();
+    var text = $('text').value.trim();
+    if (!text) return;
+    api('/chats/' + state.selected + '/messages', { method: 'POST', body: JSON.stringify({ text: text }) })
+      .then(function () { $('text').value = ''; })
+      .catch(function (error) { alert('Не отправлено: ' + error.message); });
+  });
+  setInterval(function () { if (state.source) loadPending(); }, 5000);
+
+  $('token').value = state.token;
+  if (state.token) connect();
+</script>
+</body>
+</html>
+`;
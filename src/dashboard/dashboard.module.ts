@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+
+import { AdminTokenGuard } from '../admin/admin-token.guard';
+import { ConversationModule } from '../conversation/conversation.module';
+import { PauseModule } from '../pause/pause.module';
+import { SharedQueueModule } from '../queue/shared-queue.module';
+import { TelegramModule } from '../telegram/telegram.module';
+
+import { DashboardController } from './dashboard.controller';
+import { DashboardService } from './dashboard.service';
+
+@Module({
+  imports: [
+    ConfigModule,
+    ConversationModule,
+    PauseModule,
+    SharedQueueModule,
+    TelegramModule,
+  ],
+  controllers: [DashboardController],
+  providers: [DashboardService, AdminTokenGuard],
+})
+export class DashboardModule {}
@@ -0,0 +1,199 @@
+import { InjectQueue } from '@nestjs/bull';
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import type { Queue } from 'bull';
+
+import { ConversationService } from '../conversation/conversation.service';
+import { PrismaService } from '../database/prisma.service';
+import { PauseService } from '../pause/pause.service';
+import type { MessageJob } from '../queue/message.processor';
+import { MESSAGE_QUEUE } from '../queue/shared-queue.module';
+import { TelegramService } from '../telegram/telegram.service';
+
+const ACTIVE_CHATS_LIMIT = 50;
+const CHAT_MESSAGES_LIMIT = 50;
+
+@Injectable()
+export class DashboardService {
+  private readonly logger = new Logger(DashboardService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly conversationService: ConversationService,
+    private readonly telegramService: TelegramService,
+    private readonly pauseService: PauseService,
+    @InjectQueue(MESSAGE_QUEUE) private readonly messageQueue: Queue,
+  ) {}
+
+  /**
+   * Активные чаты (последнее сообщение сверху) с числом ожидающих ответа сообщений
+   */
+  async listChats() {
+    const [conversations, pendingGroups] = await Promise.all([
+      this.prisma.conversation.findMany({
+        orderBy: { lastMessageAt: 'desc' },
+        take: ACTIVE_CHATS_LIMIT,
+        include: {
+          user: true,
+          messages: { orderBy: { createdAt: 'desc' }, take: 1 },
+        },
+      }),
+      this.prisma.pendingMessage.groupBy({
+        by: ['userId', 'chatId'],
+        where: { processed: false },
+        _count: { _all: true },
+      }),
+    ]);
+
+    return conversations.map(({ messages, ...conversation }) => ({
+      ...conversation,
+      lastMessage: messages[0] ?? null,
+      pendingCount:
+        pendingGroups.find((group) =>
+          conversation.isGroup
+            ? group.chatId === conversation.chatId
+            : group.chatId === null && group.userId === conversation.userId,
+        )?._count._all ?? 0,
+    }));
+  }
+
+  /**
+   * Последние сообщения чата (в хронологическом порядке)
+   */
+  async getChatMessages(conversationId: string) {
+    await this.getConversationOrFail(conversationId);
+
+    const messages = await this.prisma.message.findMany({
+      where: { conversationId },
+      orderBy: { createdAt: 'desc' },
+      take: CHAT_MESSAGES_LIMIT,
+    });
+
+    return messages.reverse();
+  }
+
+  /**
+   * Задачи очереди с временем запуска и ожидающие ответа сообщения
+   */
+  async listPending() {
+    const [jobs, pendingMessages] = await Promise.all([
+      this.messageQueue.getJobs(['delayed', 'waiting', 'active']),
+      this.prisma.pendingMessage.findMany({
+        where: { processed: false },
+        orderBy: { scheduledFor: 'asc' },
+      }),
+    ]);
+
+    const jobsWithState = await Promise.all(
+      jobs
+        .filter((job) => job.name === 'process-message')
+        .map(async (job) => ({
+          id: job.id,
+          state: await job.getState(),
+          data: job.data as MessageJob,
+          delayMs: job.opts.delay ?? 0,
+          runAt: new Date(job.timestamp + (job.opts.delay ?? 0)),
+        })),
+    );
+
+    return {
+      jobs: jobsWithState.sort((a, b) => a.runAt.getTime() - b.runAt.getTime()),
+      pendingMessages,
+    };
+  }
+
+  /**
+   * Отменяет автоответ: помечает pending сообщения обработанными и удаляет отложенные задачи
+   */
+  async cancelAutoResponse(conversationId: string) {
+    const conversation = await this.getConversationOrFail(conversationId);
+
+    const pendingMessages = conversation.isGroup
+      ? await this.conversationService.getPendingMessagesForChat(
+          conversation.chatId!,
+        )
+      : await this.conversationService.getPendingMessages(conversation.userId!);
+
+    if (pendingMessages.length > 0) {
+      await this.conversationService.markPendingMessagesAsProcessed(
+        pendingMessages.map((msg) => msg.id),
+      );
+    }
+
+    // Задача без pending сообщений и так ничего не сделает, но убираем ее из списка
+    const delayedJobs = await this.messageQueue.getDelayed();
+    const jobsToRemove = delayedJobs.filter((job) => {
+      const data = job.data as MessageJob;
+      return conversation.isGroup
+        ? data.chatId === conversation.chatId?.toString()
+        : !data.chatId && data.userId === conversation.userId;
+    });
+    await Promise.all(jobsToRemove.map((job) => job.remove()));
+
+    this.logger.log(
+      `Auto-response for conversation ${conversationId} cancelled from dashboard (${pendingMessages.length} pending, ${jobsToRemove.length} jobs)`,
+    );
+
+    return {
+      cancelledMessages: pendingMessages.length,
+      removedJobs: jobsToRemove.length,
+    };
+  }
+
+  /**
+   * Отправляет сообщение вручную (автоответ при этом отменяется, как при ответе владельца)
+   */
+  async sendManualMessage(conversationId: string, text: string) {
+    const conversation = await this.getConversationOrFail(conversationId);
+    const telegramId = conversation.isGroup
+      ? conversation.chatId
+      : conversation.user?.telegramId;
+
+    if (!telegramId) {
+      throw new NotFoundException(
+        `Conversation ${conversationId} has no Telegram chat`,
+      );
+    }
+
+    await this.cancelAutoResponse(conversationId);
+
+    const telegramMessageId = await this.telegramService.sendMessage(
+      Number(telegramId),
+      text,
+    );
+
+    return await this.conversationService.saveMessage(
+      conversationId,
+      'assistant',
+      text,
+      telegramMessageId,
+    );
+  }
+
+  /**
+   * Ставит чат на паузу (игнор-лист) или снимает с паузы
+   */
+  async setPaused(conversationId: string, paused: boolean) {
+    await this.getConversationOrFail(conversationId);
+
+    const conversation = paused
+      ? await this.pauseService.pauseChat(conversationId, null)
+      : await this.pauseService.resumeChat(conversationId);
+    this.logger.log(
+      `Conversation ${conversationId} ${paused ? 'paused' : 'resumed'} from dashboard`,
+    );
+    return conversation;
+  }
+
+  private async getConversationOrFail(conversationId: string) {
+    const conversation = await this.prisma.conversation.findUnique({
+      where: { id: conversationId },
+      include: { user: true },
+    });
+
+    if (!conversation) {
+      throw new NotFoundException(`Conversation ${conversationId} not found`);
+    }
+
+    return conversation;
+  }
+}
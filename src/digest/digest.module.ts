@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+
+import { CommitmentsModule } from '../commitments/commitments.module';
+import { ConversationModule } from '../conversation/conversation.module';
+import { OpenAIModule } from '../openai/openai.module';
+import { SharedQueueModule } from '../queue/shared-queue.module';
+import { ScheduleModule } from '../schedule/schedule.module';
+import { TelegramModule } from '../telegram/telegram.module';
+
+import { DigestProcessor } from './digest.processor';
+import { DigestService } from './digest.service';
+
+@Module({
+  imports: [
+    ConfigModule,
+    SharedQueueModule,
+    CommitmentsModule,
+    ConversationModule,
+    OpenAIModule,
+    ScheduleModule,
+    TelegramModule,
+  ],
+  providers: [DigestService, DigestProcessor],
+})
+export class DigestModule {}
@@ -0,0 +1,64 @@
+import { InjectQueue, Process, Processor } from '@nestjs/bull';
+import { Logger, OnModuleInit } from '@nestjs/common';
+import type { Queue } from 'bull';
+
+import { MESSAGE_QUEUE } from '../queue/shared-queue.module';
+import { ScheduleService } from '../schedule/schedule.service';
+import { parseTime } from '../utils/owner-schedule';
+
+import { DIGEST_JOB, DigestService } from './digest.service';
+
+@Processor(MESSAGE_QUEUE)
+export class DigestProcessor implements OnModuleInit {
+  private readonly logger = new Logger(DigestProcessor.name);
+
+  constructor(
+    @InjectQueue(MESSAGE_QUEUE) private readonly messageQueue: Queue,
+    private readonly digestService: DigestService,
+    private readonly scheduleService: ScheduleService,
+  ) {}
+
+  /**
+   * Регистрирует ежедневный дайджест; старое расписание снимается,
+   * чтобы смена DIGEST_TIME не оставляла вторую задачу
+   */
+  async onModuleInit() {
+    const repeatable = await this.messageQueue.getRepeatableJobs();
+    for (const job of repeatable.filter((job) => job.name === DIGEST_JOB)) {
+      await this.messageQueue.removeRepeatableByKey(job.key);
+    }
+
+    const time = this.digestService.getDigestTime();
+    const minutes = time ? parseTime(time) : null;
+    if (minutes === null) {
+      this.logger.log('Daily digest disabled, not scheduled');
+      return;
+    }
+
+    const timezone = this.scheduleService.getTimezone();
+    await this.messageQueue.add(
+      DIGEST_JOB,
+      {},
+      {
+        jobId: DIGEST_JOB,
+        repeat: {
+          cron: `${minutes % 60} ${Math.floor(minutes / 60)} * * *`,
+          tz: timezone,
+        },
+        removeOnComplete: true,
+      },
+    );
+    this.logger.log(`Daily digest scheduled at ${time} (${timezone})`);
+  }
+
+  @Process(DIGEST_JOB)
+  async handleDigest() {
+    try {
+      const conversations = await this.digestService.sendDigest();
+      return { success: true, conversations };
+    } catch (error) {
+      this.logger.error('Error sending daily digest', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,226 @@
+import { InjectQueue } from '@nestjs/bull';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Message, User } from '@prisma/client';
+import type { Queue } from 'bull';
+
+import { CommitmentsService } from '../commitments/commitments.service';
+import { CommandRegistry } from '../conversation/commands/command-registry';
+import { PrismaService } from '../database/prisma.service';
+import { OpenAIService } from '../openai/openai.service';
+import { MESSAGE_QUEUE } from '../queue/shared-queue.module';
+import { ScheduleService } from '../schedule/schedule.service';
+import { TelegramService } from '../telegram/telegram.service';
+
+export const DIGEST_JOB = 'daily-digest';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Сколько последних сообщений диалога за период отдаем модели
+const MAX_MESSAGES_PER_CONVERSATION = 100;
+
+// Лимит Telegram - 4096 символов, оставляем запас на разметку
+const MAX_CHUNK_LENGTH = 3800;
+
+/**
+ * Ежедневный дайджест: что было в переписке, которую вел бот
+ */
+@Injectable()
+export class DigestService {
+  private readonly logger = new Logger(DigestService.name);
+  private readonly ownerTelegramId?: string;
+
+  constructor(
+    @InjectQueue(MESSAGE_QUEUE) private readonly messageQueue: Queue,
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly openaiService: OpenAIService,
+    private readonly commitmentsService: CommitmentsService,
+    private readonly scheduleService: ScheduleService,
+    private readonly telegramService: TelegramService,
+    commandRegistry: CommandRegistry,
+  ) {
+    this.ownerTelegramId = this.configService.get<string>(
+      'bot.ownerTelegramId',
+    );
+
+    commandRegistry.register({
+      name: 'дайджест',
+      aliases: ['digest', 'сводка'],
+      category: 'digest',
+      readOnly: true,
+      description: 'дайджест переписки за последние сутки',
+      handler: async () => {
+        await this.messageQueue.add(DIGEST_JOB, {}, { removeOnComplete: true });
+        return '📰 Собираю дайджест за сутки, пришлю отдельным сообщением';
+      },
+    });
+  }
+
+  /**
+   * Время ежедневного дайджеста "HH:MM" (null - дайджест выключен)
+   */
+  getDigestTime(): string | null {
+    if (!this.configService.get<boolean>('digest.enabled', true)) {
+      return null;
+    }
+    return this.configService.get<string>('digest.time', '21:00');
+  }
+
+  /**
+   * Собирает дайджест за последние сутки и отправляет владельцу
+   * @returns число диалогов в дайджесте
+   */
+  async sendDigest(now: Date = new Date()): Promise<number> {
+    const since = new Date(now.getTime() - DAY_MS);
+    const sections = await this.buildSections(since);
+
+    const header = `📰 **Дайджест за сутки** (до ${this.scheduleService.formatTime(now)})`;
+    if (sections.length === 0) {
+      await this.telegramService.sendNotification(
+        `${header}\n\nЗа сутки переписки не было.`,
+      );
+      return 0;
+    }
+
+    for (const chunk of this.splitIntoChunks([header, ...sections])) {
+      await this.telegramService.sendNotification(chunk);
+    }
+
+    this.logger.log(`Daily digest sent: ${sections.length} conversation(s)`);
+    return sections.length;
+  }
+
+  /**
+   * Разделы дайджеста: по одному на каждый диалог с активностью за период
+   */
+  private async buildSections(since: Date): Promise<string[]> {
+    const conversations = await this.prisma.conversation.findMany({
+      where: {
+        lastMessageAt: { gte: since },
+        messages: { some: { createdAt: { gte: since } } },
+      },
+      include: {
+        user: {
+          include: { facts: { where: { createdAt: { gte: since } } } },
+        },
+      },
+      orderBy: { lastMessageAt: 'desc' },
+    });
+
+    const sections: string[] = [];
+    for (const conversation of conversations) {
+      // Переписка владельца с ботом в Избранном - не для дайджеста
+      if (conversation.user?.telegramId.toString() === this.ownerTelegramId) {
+        continue;
+      }
+
+      const messages = await this.prisma.message.findMany({
+        where: {
+          conversationId: conversation.id,
+          createdAt: { gte: since },
+          deletedAt: null,
+        },
+        orderBy: { createdAt: 'desc' },
+        take: MAX_MESSAGES_PER_CONVERSATION,
+      });
+      messages.reverse();
+
+      const title = conversation.user
+        ? this.formatUserName(conversation.user)
+        : `👥 ${conversation.title || 'Группа без названия'}`;
+
+      try {
+        const digest = await this.openaiService.digestConversation(
+          this.formatTranscript(messages, conversation.user),
+        );
+
+        const lines = [`**${title}** - ${messages.length} сообщ.`];
+        if (digest.summary) {
+          lines.push(digest.summary);
+        }
+        // Обещания - из отслеживаемых: с тем же текстом и сроком, что в команде "обещания"
+        const commitments = conversation.user
+          ? await this.commitmentsService.getOpen(conversation.user.id)
+          : [];
+        if (commitments.length > 0) {
+          lines.push(
+            `🤝 Открытые обещания: ${commitments.map((item) => `\n  • ${item.text}${item.dueAt ? ` - до ${this.scheduleService.formatTime(item.dueAt)}` : ''}`).join('')}`,
+          );
+        }
+        if (digest.unanswered.length > 0) {
+          lines.push(
+            `❓ Без ответа: ${digest.unanswered.map((item) => `\n  • ${item}`).join('')}`,
+          );
+        }
+        const facts = conversation.user?.facts ?? [];
+        if (facts.length > 0) {
+          lines.push(
+            `📝 Новые факты: ${facts.map((fact) => `\n  • ${fact.fact}`).join('')}`,
+          );
+        }
+        sections.push(lines.join('\n'));
+      } catch (error) {
+        this.logger.error(
+          `Failed to build digest for conversation ${conversation.id}`,
+          error,
+        );
+        sections.push(
+          `**${title}** - ${messages.length} сообщ. (не удалось пересказать)`,
+        );
+      }
+    }
+
+    return sections;
+  }
+
+  /**
+   * Переписка строками для модели: "Имя: текст", ответы бота - "Я: текст"
+   */
+  private formatTranscript(messages: Message[], user: User | null): string {
+    const contactName = user?.firstName || 'Собеседник';
+
+    return messages
+      .map((msg) => {
+        const author =
+          msg.role === 'assistant' ? 'Я' : msg.senderName || contactName;
+        const text =
+          msg.content ||
+          msg.transcript ||
+          (msg.mediaType ? `[${msg.mediaType}]` : '');
+        return `${author}: ${text}`;
+      })
+      .join('\n');
+  }
+
+  private formatUserName(user: User): string {
+    const name =
+      [user.firstName, user.lastName].filter(Boolean).join(' ') || 'Без имени';
+    return user.username ? `${name} (@${user.username})` : name;
+  }
+
+  /**
+   * Делит дайджест на сообщения, не разрывая разделы
+   */
+  private splitIntoChunks(parts: string[]): string[] {
+    const chunks: string[] = [];
+    let current = '';
+
+    for (const part of parts) {
+      const text =
+        part.length > MAX_CHUNK_LENGTH
+          ? `${part.substring(0, MAX_CHUNK_LENGTH)}...`
+          : part;
+      if (current && current.length + text.length + 2 > MAX_CHUNK_LENGTH) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n\n${text}` : text;
+    }
+
+    if (current) {
+      chunks.push(current);
+    }
+    return chunks;
+  }
+}
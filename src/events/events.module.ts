@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+
+import { ConversationModule } from '../conversation/conversation.module';
+import { OpenAIModule } from '../openai/openai.module';
+import { PauseModule } from '../pause/pause.module';
+import { SharedQueueModule } from '../queue/shared-queue.module';
+import { ScheduleModule } from '../schedule/schedule.module';
+import { TelegramModule } from '../telegram/telegram.module';
+
+import { EventsProcessor } from './events.processor';
+import { EventsService } from './events.service';
+
+@Module({
+  imports: [
+    ConfigModule,
+    SharedQueueModule,
+    ConversationModule,
+    OpenAIModule,
+    PauseModule,
+    ScheduleModule,
+    TelegramModule,
+  ],
+  providers: [EventsService, EventsProcessor],
+})
+export class EventsModule {}
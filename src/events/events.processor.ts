@@ -0,0 +1,66 @@
+import { InjectQueue, Process, Processor } from '@nestjs/bull';
+import { Logger, OnModuleInit } from '@nestjs/common';
+import type { Queue } from 'bull';
+
+import { MESSAGE_QUEUE } from '../queue/shared-queue.module';
+import { ScheduleService } from '../schedule/schedule.service';
+import { parseTime } from '../utils/owner-schedule';
+
+import { EVENTS_GREETING_JOB, EventsService } from './events.service';
+
+@Processor(MESSAGE_QUEUE)
+export class EventsProcessor implements OnModuleInit {
+  private readonly logger = new Logger(EventsProcessor.name);
+
+  constructor(
+    @InjectQueue(MESSAGE_QUEUE) private readonly messageQueue: Queue,
+    private readonly eventsService: EventsService,
+    private readonly scheduleService: ScheduleService,
+  ) {}
+
+  /**
+   * Регистрирует ежедневную проверку событий; старое расписание снимается,
+   * чтобы смена EVENTS_GREETING_TIME не оставляла вторую задачу
+   */
+  async onModuleInit() {
+    const repeatable = await this.messageQueue.getRepeatableJobs();
+    for (const job of repeatable.filter(
+      (job) => job.name === EVENTS_GREETING_JOB,
+    )) {
+      await this.messageQueue.removeRepeatableByKey(job.key);
+    }
+
+    const time = this.eventsService.getGreetingTime();
+    const minutes = time ? parseTime(time) : null;
+    if (minutes === null) {
+      this.logger.log('Event greetings disabled, not scheduled');
+      return;
+    }
+
+    const timezone = this.scheduleService.getTimezone();
+    await this.messageQueue.add(
+      EVENTS_GREETING_JOB,
+      {},
+      {
+        jobId: EVENTS_GREETING_JOB,
+        repeat: {
+          cron: `${minutes % 60} ${Math.floor(minutes / 60)} * * *`,
+          tz: timezone,
+        },
+        removeOnComplete: true,
+      },
+    );
+    this.logger.log(`Event greetings scheduled at ${time} (${timezone})`);
+  }
+
+  @Process(EVENTS_GREETING_JOB)
+  async handleGreetings() {
+    try {
+      const greeted = await this.eventsService.sendTodayGreetings();
+      return { success: true, greeted };
+    } catch (error) {
+      this.logger.error('Error sending event greetings', error);
+      throw error;
+    }
+  }
+}
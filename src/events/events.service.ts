@@ -0,0 +1,548 @@
+import { InjectQueue } from '@nestjs/bull';
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { ContactEvent, User, UserFact } from '@prisma/client';
+import type { Queue } from 'bull';
+import { filter, Subscription } from 'rxjs';
+
+import { CommandRegistry } from '../conversation/commands/command-registry';
+import type { CommandContext } from '../conversation/commands/command.types';
+import { ContextBuilderService } from '../conversation/context-builder.service';
+import {
+  ConversationEvent,
+  ConversationEventsService,
+} from '../conversation/conversation-events.service';
+import { ConversationService } from '../conversation/conversation.service';
+import { PersonaService } from '../conversation/persona.service';
+import { ReplyDraftService } from '../conversation/reply-draft.service';
+import { PrismaService } from '../database/prisma.service';
+import { OpenAIService } from '../openai/openai.service';
+import { PauseService } from '../pause/pause.service';
+import { MESSAGE_QUEUE } from '../queue/shared-queue.module';
+import { ScheduleService } from '../schedule/schedule.service';
+import { TelegramService } from '../telegram/telegram.service';
+import { getLocalDate } from '../utils/owner-schedule';
+import { isPauseActive } from '../utils/pause-duration';
+
+export const EVENTS_GREETING_JOB = 'event-greetings';
+
+export type GreetingMode = 'approve' | 'send';
+
+type ContactEventWithUser = ContactEvent & { user: User };
+
+// Категории фактов, в которых бывают даты
+const EVENT_FACT_CATEGORIES = ['birthday', 'plans', 'relationships', 'other'];
+
+// Есть ли в факте хоть что-то похожее на дату (остальные не отправляем в модель)
+const DATE_HINT_REGEX =
+  /\d|январ|феврал|март|апрел|ма[йя]|июн|июл|август|сентябр|октябр|ноябр|декабр|завтра|понедельник|вторник|сред[уа]|четверг|пятниц|суббот|воскресень/i;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EVENT_TYPE_ICONS: Record<string, string> = {
+  birthday: '🎂',
+  anniversary: '💍',
+  exam: '📚',
+  trip: '✈️',
+  other: '📅',
+};
+
+/**
+ * События собеседников: даты из фактов (дни рождения, годовщины, экзамены, поездки)
+ * Факты переводятся в события, когда меняются; раз в день бот пишет тем, у кого
+ * сегодня событие, - сам или черновиком владельцу на одобрение
+ */
+@Injectable()
+export class EventsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(EventsService.name);
+  private readonly enabled: boolean;
+  private readonly greetingTime: string;
+  private readonly greetingMode: GreetingMode;
+  private subscription?: Subscription;
+
+  constructor(
+    @InjectQueue(MESSAGE_QUEUE) private readonly messageQueue: Queue,
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly openaiService: OpenAIService,
+    private readonly scheduleService: ScheduleService,
+    private readonly conversationEvents: ConversationEventsService,
+    private readonly conversationService: ConversationService,
+    private readonly contextBuilderService: ContextBuilderService,
+    private readonly personaService: PersonaService,
+    private readonly replyDraftService: ReplyDraftService,
+    private readonly pauseService: PauseService,
+    private readonly telegramService: TelegramService,
+    commandRegistry: CommandRegistry,
+  ) {
+    this.enabled = this.configService.get<boolean>('events.enabled', true);
+    this.greetingTime = this.configService.get<string>(
+      'events.greetingTime',
+      '10:00',
+    );
+    this.greetingMode = this.configService.get<GreetingMode>(
+      'events.greetingMode',
+      'approve',
+    );
+
+    commandRegistry.register(
+      {
+        name: 'события',
+        aliases: ['events', 'даты'],
+        targetable: true,
+        category: 'events',
+        readOnly: true,
+        description:
+          'ближайшие дни рождения и другие даты (в Избранном - у всех)',
+        handler: (ctx) => this.handleList(ctx),
+      },
+      {
+        name: 'удалить событие',
+        aliases: ['delete event'],
+        args: [{ name: 'number', label: 'номер', type: 'number' }],
+        targetable: true,
+        category: 'events',
+        description: 'не поздравлять с событием из списка (удаляет и факт)',
+        handler: (ctx, args) => this.handleDelete(ctx, args.number as number),
+      },
+      {
+        name: 'найти события',
+        aliases: ['find events'],
+        targetable: true,
+        category: 'events',
+        description: 'перечитать сохраненные факты и найти в них даты',
+        handler: (ctx) => this.handleSync(ctx),
+      },
+    );
+  }
+
+  /**
+   * Подписка на изменения фактов: новая или уточненная дата сразу становится событием
+   */
+  onModuleInit() {
+    if (!this.enabled) {
+      this.logger.log('Events disabled');
+      return;
+    }
+
+    this.subscription = this.conversationEvents.events$
+      .pipe(
+        filter(
+          (event): event is Extract<ConversationEvent, { type: 'fact' }> =>
+            event.type === 'fact',
+        ),
+      )
+      .subscribe((event) => {
+        this.syncFact(event.factId).catch((error) => {
+          this.logger.error(
+            `Failed to sync event for fact ${event.factId}`,
+            error,
+          );
+        });
+      });
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * Время ежедневной проверки событий (null - события выключены)
+   */
+  getGreetingTime(): string | null {
+    return this.enabled ? this.greetingTime : null;
+  }
+
+  /**
+   * Переводит факт в событие: создает, обновляет или удаляет событие факта
+   * @returns true, если в факте нашлась дата
+   */
+  async syncFact(factId: string): Promise<boolean> {
+    const fact = await this.prisma.userFact.findUnique({
+      where: { id: factId },
+    });
+    if (!fact) {
+      return false;
+    }
+
+    const normalized = this.mayContainDate(fact)
+      ? await this.openaiService.normalizeEventDate(
+          fact.category,
+          fact.fact,
+          getLocalDate(fact.lastSeenAt, this.scheduleService.getTimezone())
+            .toISOString()
+            .substring(0, 10),
+        )
+      : null;
+
+    const recurring =
+      normalized?.type === 'birthday' || normalized?.type === 'anniversary';
+
+    // Разовое событие без года (экзамен, поездка) стало бы ежегодным - не сохраняем
+    if (!normalized || (!recurring && !normalized.year)) {
+      if (normalized) {
+        this.logger.debug(
+          `Skipping one-off event without year for fact ${factId}: ${normalized.title}`,
+        );
+      }
+      await this.prisma.contactEvent.deleteMany({ where: { factId } });
+      return false;
+    }
+
+    const data = {
+      type: normalized.type,
+      title: normalized.title,
+      month: normalized.month,
+      day: normalized.day,
+      year: recurring ? null : normalized.year,
+    };
+
+    await this.prisma.contactEvent.upsert({
+      where: { factId },
+      create: { userId: fact.userId, factId, ...data },
+      update: data,
+    });
+    this.logger.log(
+      `Event for user ${fact.userId}: ${data.title} ${data.day}.${data.month}${data.year ? `.${data.year}` : ''}`,
+    );
+    return true;
+  }
+
+  /**
+   * Поздравляет всех, у кого сегодня событие (дата - в часовом поясе владельца)
+   * @returns сколько поздравлений отправлено или отдано на одобрение
+   */
+  async sendTodayGreetings(now: Date = new Date()): Promise<number> {
+    const today = getLocalDate(now, this.scheduleService.getTimezone());
+    const events = await this.findEventsOn(today);
+    if (events.length === 0) {
+      this.logger.debug('No events today');
+      return 0;
+    }
+
+    const globalPause = await this.pauseService.getGlobalPause(now);
+    if (globalPause) {
+      this.logger.log(
+        `Global pause is active, skipping ${events.length} greeting(s)`,
+      );
+      return 0;
+    }
+
+    let greeted = 0;
+    for (const event of events) {
+      try {
+        if (await this.greet(event, today)) {
+          greeted++;
+        }
+      } catch (error) {
+        this.logger.error(`Failed to greet for event ${event.id}`, error);
+      }
+    }
+
+    this.logger.log(`Greetings for ${greeted}/${events.length} event(s) today`);
+    return greeted;
+  }
+
+  /**
+   * События на дату, с которыми еще не поздравляли
+   * 29 февраля в невисокосный год отмечаем 28-го
+   */
+  private async findEventsOn(date: Date): Promise<ContactEventWithUser[]> {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+    const days =
+      month === 2 &&
+      day === 28 &&
+      new Date(Date.UTC(year, 1, 29)).getUTCMonth() !== 1
+        ? [28, 29]
+        : [day];
+
+    return this.prisma.contactEvent.findMany({
+      where: {
+        month,
+        day: { in: days },
+        OR: [{ year: null }, { year }],
+        AND: [
+          {
+            OR: [{ lastGreetedOn: null }, { lastGreetedOn: { lt: date } }],
+          },
+        ],
+      },
+      include: { user: true },
+    });
+  }
+
+  /**
+   * Пишет собеседнику по случаю события: черновик владельцу или сразу отправка
+   */
+  private async greet(
+    event: ContactEventWithUser,
+    today: Date,
+  ): Promise<boolean> {
+    const { user } = event;
+    if (user.replyList === 'deny') {
+      this.logger.debug(`User ${user.id} is in deny list, not greeting`);
+      return false;
+    }
+
+    const conversation =
+      await this.conversationService.findOrCreateConversation(user.id);
+    if (isPauseActive(conversation)) {
+      this.logger.debug(`Chat with user ${user.id} is paused, not greeting`);
+      return false;
+    }
+
+    // Отмечаем заранее: повтор задачи не должен поздравить дважды
+    await this.prisma.contactEvent.update({
+      where: { id: event.id },
+      data: { lastGreetedOn: today },
+    });
+
+    const messages = await this.generateGreeting(event, conversation.id);
+    if (messages.length === 0) {
+      this.logger.warn(`Empty greeting for event ${event.id}`);
+      return false;
+    }
+
+    const draft = await this.replyDraftService.createDraft(
+      conversation.id,
+      user.telegramId,
+      messages,
+    );
+    const contactName = this.formatUserName(user);
+    const approval =
+      this.greetingMode === 'approve' ||
+      (await this.replyDraftService.isApprovalEnabled(user.id));
+
+    if (approval) {
+      const control = await this.telegramService.sendToControlChat(
+        this.replyDraftService.formatDraft(
+          contactName,
+          [],
+          draft.messages,
+          `${EVENT_TYPE_ICONS[event.type] ?? '📅'} Сегодня у ${contactName}: ${event.title}. Черновик поздравления`,
+        ),
+      );
+      await this.replyDraftService.setControlMessage(
+        draft.id,
+        control.chatId,
+        control.messageId,
+      );
+      this.logger.log(
+        `Greeting draft ${draft.id} for event ${event.id} sent for approval`,
+      );
+      return true;
+    }
+
+    await this.replyDraftService.resolveDraft(draft.id, { type: 'approve' });
+    await this.messageQueue.add(
+      'deliver-draft',
+      { draftId: draft.id },
+      { jobId: `draft-${draft.id}` },
+    );
+    await this.telegramService.sendNotification(
+      `${EVENT_TYPE_ICONS[event.type] ?? '📅'} Сегодня у ${contactName}: ${event.title}. Написал:\n${messages.map((text) => `➡️ ${text}`).join('\n')}`,
+    );
+    this.logger.log(`Greeting for event ${event.id} queued for delivery`);
+    return true;
+  }
+
+  /**
+   * Поздравление в стиле переписки с собеседником: та же персона и контекст, что у ответов
+   */
+  private async generateGreeting(
+    event: ContactEventWithUser,
+    conversationId: string,
+  ): Promise<string[]> {
+    const { user } = event;
+    const persona = await this.personaService.getPersonaForUser(user.id);
+    const promptContext = {
+      personaPrompt: persona
+        ? this.personaService.formatPersonaForPrompt(persona)
+        : undefined,
+      customContext: user.customContext ?? undefined,
+    };
+    const userName = user.firstName || undefined;
+
+    const { messages } = await this.contextBuilderService.build({
+      conversationId,
+      userId: user.id,
+      systemPrompt: this.openaiService.buildSystemPrompt(
+        userName,
+        promptContext,
+      ),
+      notes: [
+        {
+          role: 'system',
+          content: `Сегодня у собеседника событие: ${event.title}. Напиши ему первым: ${
+            event.type === 'birthday' || event.type === 'anniversary'
+              ? 'поздравь'
+              : event.type === 'trip'
+                ? 'пожелай хорошей поездки'
+                : 'пожелай удачи'
+          } - коротко, тепло и в своем обычном стиле, без шаблонных открыток. Если событие не у самого собеседника, а у его близкого, попроси передать. Только сообщения: без реакций, стикеров и молчания.`,
+        },
+      ],
+      memoryQuery: event.title,
+    });
+
+    const response = await this.openaiService.generateResponse(
+      messages,
+      userName,
+      promptContext,
+    );
+
+    return response.actions.flatMap((action) =>
+      action.type === 'message' && action.text.trim() ? [action.text] : [],
+    );
+  }
+
+  /**
+   * Команда "найти события": перечитать факты собеседника (или всех) и найти даты
+   */
+  private async handleSync(ctx: CommandContext): Promise<string> {
+    const user = await this.getTargetUser(ctx);
+    const facts = await this.prisma.userFact.findMany({
+      where: {
+        category: { in: EVENT_FACT_CATEGORIES },
+        ...(user ? { userId: user.id } : {}),
+      },
+    });
+
+    let found = 0;
+    for (const fact of facts) {
+      try {
+        if (await this.syncFact(fact.id)) {
+          found++;
+        }
+      } catch (error) {
+        this.logger.error(`Failed to sync event for fact ${fact.id}`, error);
+      }
+    }
+
+    return `🎉 Проверено фактов: ${facts.length}, с датами: ${found}. Список - "события".`;
+  }
+
+  /**
+   * Команда: ближайшие события (от сегодняшнего дня по кругу года)
+   */
+  private async handleList(ctx: CommandContext): Promise<string> {
+    const user = await this.getTargetUser(ctx);
+    const events = await this.getUpcoming(user?.id);
+
+    if (events.length === 0) {
+      return user
+        ? `Дат у ${this.formatUserName(user)} пока нет. Поискать в фактах - "найти события".`
+        : 'Дат пока нет. Поискать в фактах - "найти события".';
+    }
+
+    const lines = events.map(({ event, daysLeft }, index) => {
+      const date = `${String(event.day).padStart(2, '0')}.${String(event.month).padStart(2, '0')}${event.year ? `.${event.year}` : ''}`;
+      const when =
+        daysLeft === 0
+          ? 'сегодня'
+          : daysLeft === 1
+            ? 'завтра'
+            : `через ${daysLeft} дн.`;
+      const whom = user ? '' : `${this.formatUserName(event.user)}: `;
+      return `${index + 1}. ${EVENT_TYPE_ICONS[event.type] ?? '📅'} ${whom}${event.title} - ${date} (${when})`;
+    });
+
+    const mode =
+      this.greetingMode === 'approve'
+        ? 'пришлю черновик на одобрение'
+        : 'поздравлю сам';
+
+    return `🎉 **События${user ? ` ${this.formatUserName(user)}` : ''}:**
+
+${lines.join('\n')}
+
+В день события в ${this.greetingTime} ${mode}. Убрать: "удалить событие 1"`;
+  }
+
+  /**
+   * Команда: удалить событие (вместе с фактом - иначе оно появится снова)
+   */
+  private async handleDelete(
+    ctx: CommandContext,
+    number: number,
+  ): Promise<string> {
+    const user = await this.getTargetUser(ctx);
+    const events = await this.getUpcoming(user?.id);
+    const item = events[number - 1];
+
+    if (!item) {
+      return `События с номером ${number} нет. Список - "события".`;
+    }
+
+    await this.prisma.userFact.delete({ where: { id: item.event.factId } });
+    return `🗑 Больше не напомню: ${item.event.title}`;
+  }
+
+  /**
+   * События, отсортированные по ближайшей дате; прошедшие разовые не показываются
+   */
+  private async getUpcoming(
+    userId?: string,
+  ): Promise<Array<{ event: ContactEventWithUser; daysLeft: number }>> {
+    const today = getLocalDate(new Date(), this.scheduleService.getTimezone());
+    const events = await this.prisma.contactEvent.findMany({
+      where: userId ? { userId } : {},
+      include: { user: true },
+    });
+
+    return events
+      .map((event) => {
+        let next = Date.UTC(
+          event.year ?? today.getUTCFullYear(),
+          event.month - 1,
+          event.day,
+        );
+        if (!event.year && next < today.getTime()) {
+          next = Date.UTC(
+            today.getUTCFullYear() + 1,
+            event.month - 1,
+            event.day,
+          );
+        }
+        return {
+          event,
+          daysLeft: Math.round((next - today.getTime()) / DAY_MS),
+        };
+      })
+      .filter(({ daysLeft }) => daysLeft >= 0)
+      .sort((a, b) => a.daysLeft - b.daysLeft);
+  }
+
+  private mayContainDate(fact: UserFact): boolean {
+    return (
+      EVENT_FACT_CATEGORIES.includes(fact.category) &&
+      (fact.category === 'birthday' || DATE_HINT_REGEX.test(fact.fact))
+    );
+  }
+
+  /**
+   * Собеседник, которому адресована команда (null - команда в Избранном, про всех)
+   */
+  private async getTargetUser(ctx: CommandContext): Promise<User | null> {
+    if (ctx.targetTelegramId === ctx.ownerTelegramId) {
+      return null;
+    }
+    return this.prisma.user.findUnique({
+      where: { telegramId: ctx.targetTelegramId },
+    });
+  }
+
+  private formatUserName(user: User): string {
+    return (
+      [user.firstName, user.lastName].filter(Boolean).join(' ') ||
+      (user.username ? `@${user.username}` : 'Без имени')
+    );
+  }
+}
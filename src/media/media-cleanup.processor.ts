@@ -0,0 +1,50 @@
+import { InjectQueue, Process, Processor } from '@nestjs/bull';
+import { Logger, OnModuleInit } from '@nestjs/common';
+import type { Queue } from 'bull';
+
+import { MESSAGE_QUEUE } from '../queue/shared-queue.module';
+
+import { MediaStorageService } from './media-storage.service';
+
+const CLEANUP_JOB = 'cleanup-media';
+
+@Processor(MESSAGE_QUEUE)
+export class MediaCleanupProcessor implements OnModuleInit {
+  private readonly logger = new Logger(MediaCleanupProcessor.name);
+
+  constructor(
+    @InjectQueue(MESSAGE_QUEUE) private readonly messageQueue: Queue,
+    private readonly mediaStorageService: MediaStorageService,
+  ) {}
+
+  /**
+   * Регистрирует ежедневную очистку старых фото (jobId не дает задвоить задачу)
+   */
+  async onModuleInit() {
+    if (this.mediaStorageService.getRetentionDays() <= 0) {
+      this.logger.log('Media retention disabled, cleanup not scheduled');
+      return;
+    }
+
+    await this.messageQueue.add(
+      CLEANUP_JOB,
+      {},
+      {
+        jobId: CLEANUP_JOB,
+        repeat: { cron: '0 4 * * *' },
+        removeOnComplete: true,
+      },
+    );
+  }
+
+  @Process(CLEANUP_JOB)
+  async handleCleanup() {
+    try {
+      const deleted = await this.mediaStorageService.cleanupExpired();
+      return { success: true, deleted };
+    } catch (error) {
+      this.logger.error('Error cleaning up expired media', error);
+      throw error;
+    }
+  }
+}
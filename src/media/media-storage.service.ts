@@ -0,0 +1,153 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+
+import { PrismaService } from '../database/prisma.service';
+
+import {
+  MEDIA_STORAGE_PROVIDER,
+  type MediaStorageProvider,
+} from './providers/media-storage.provider';
+
+/**
+ * Сохраненный в хранилище файл (то, что пишем во вложение сообщения)
+ */
+export interface StoredMedia {
+  storageKey: string;
+  mimeType: string;
+  sizeBytes: number;
+}
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+const CLEANUP_BATCH_SIZE = 100;
+
+@Injectable()
+export class MediaStorageService {
+  private readonly logger = new Logger(MediaStorageService.name);
+  private readonly retentionDays: number;
+
+  constructor(
+    @Inject(MEDIA_STORAGE_PROVIDER)
+    private readonly provider: MediaStorageProvider,
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+  ) {
+    this.retentionDays = this.configService.get<number>(
+      'media.retentionDays',
+      30,
+    );
+
+    this.logger.log(
+      `Media storage initialized: provider=${this.provider.name}, retention=${this.retentionDays || '∞'} days`,
+    );
+  }
+
+  /**
+   * Срок хранения фото в днях (0 - хранить всегда)
+   */
+  getRetentionDays(): number {
+    return this.retentionDays;
+  }
+
+  /**
+   * Сохраняет изображение в хранилище
+   */
+  async saveImage(data: Buffer, mimeType: string): Promise<StoredMedia> {
+    const now = new Date();
+    const month = String(now.getUTCMonth() + 1).padStart(2, '0');
+    const extension = FILE_EXTENSIONS[mimeType] ?? 'bin';
+    const storageKey = `images/${now.getUTCFullYear()}/${month}/${randomUUID()}.${extension}`;
+
+    await this.provider.put(storageKey, data, mimeType);
+    this.logger.debug(`Saved image ${storageKey} (${data.length} bytes)`);
+
+    return { storageKey, mimeType, sizeBytes: data.length };
+  }
+
+  /**
+   * Загружает вложение в base64 (для GPT Vision).
+   * Старые вложения, еще не перенесенные в хранилище, берутся из БД
+   */
+  async loadBase64(attachment: {
+    storageKey: string | null;
+    data?: string | null;
+  }): Promise<string | null> {
+    if (!attachment.storageKey) {
+      return attachment.data ?? null;
+    }
+
+    try {
+      const buffer = await this.provider.get(attachment.storageKey);
+      if (!buffer) {
+        this.logger.warn(`Media ${attachment.storageKey} not found in storage`);
+        return null;
+      }
+      return buffer.toString('base64');
+    } catch (error) {
+      this.logger.error(`Failed to load media ${attachment.storageKey}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Удаляет файлы из хранилища (ошибки только логируются)
+   */
+  async deleteFiles(storageKeys: Array<string | null>): Promise<void> {
+    for (const storageKey of storageKeys) {
+      if (!storageKey) {
+        continue;
+      }
+      try {
+        await this.provider.delete(storageKey);
+      } catch (error) {
+        this.logger.error(`Failed to delete media ${storageKey}`, error);
+      }
+    }
+  }
+
+  /**
+   * Удаляет вложения старше срока хранения (файлы + записи в БД)
+   * @returns количество удаленных вложений
+   */
+  async cleanupExpired(): Promise<number> {
+    if (this.retentionDays <= 0) {
+      return 0;
+    }
+
+    const cutoff = new Date(
+      Date.now() - this.retentionDays * 24 * 60 * 60 * 1000,
+    );
+    let deleted = 0;
+
+    for (;;) {
+      const attachments = await this.prisma.messageAttachment.findMany({
+        where: { createdAt: { lt: cutoff } },
+        select: { id: true, storageKey: true },
+        take: CLEANUP_BATCH_SIZE,
+      });
+
+      if (attachments.length === 0) {
+        break;
+      }
+
+      await this.deleteFiles(attachments.map((a) => a.storageKey));
+      await this.prisma.messageAttachment.deleteMany({
+        where: { id: { in: attachments.map((a) => a.id) } },
+      });
+      deleted += attachments.length;
+    }
+
+    if (deleted > 0) {
+      this.logger.log(
+        `Deleted ${deleted} attachment(s) older than ${this.retentionDays} days`,
+      );
+    }
+
+    return deleted;
+  }
+}
@@ -0,0 +1,41 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+
+import { SharedQueueModule } from '../queue/shared-queue.module';
+
+import { MediaCleanupProcessor } from './media-cleanup.processor';
+import { MediaStorageService } from './media-storage.service';
+import { LocalMediaStorageProvider } from './providers/local.provider';
+import {
+  MEDIA_STORAGE_PROVIDER,
+  MediaStorageProvider,
+} from './providers/media-storage.provider';
+import { S3MediaStorageProvider } from './providers/s3.provider';
+
+/**
+ * Создает хранилище по конфигу (используется и скриптом media:migrate)
+ */
+export function createMediaStorageProvider(
+  configService: ConfigService,
+): MediaStorageProvider {
+  return configService.get<string>('media.storage') === 's3'
+    ? new S3MediaStorageProvider(configService)
+    : new LocalMediaStorageProvider(
+        configService.get<string>('media.localPath', './storage/media'),
+      );
+}
+
+@Module({
+  imports: [ConfigModule, SharedQueueModule],
+  providers: [
+    {
+      provide: MEDIA_STORAGE_PROVIDER,
+      useFactory: createMediaStorageProvider,
+      inject: [ConfigService],
+    },
+    MediaStorageService,
+    MediaCleanupProcessor,
+  ],
+  exports: [MediaStorageService],
+})
+export class MediaModule {}
@@ -0,0 +1,49 @@
+import * as path from 'path';
+
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+
+import { MediaStorageProvider } from './media-storage.provider';
+
+/**
+ * Хранилище в локальной папке (по умолчанию ./storage/media)
+ */
+export class LocalMediaStorageProvider implements MediaStorageProvider {
+  readonly name = 'local';
+  private readonly basePath: string;
+
+  constructor(basePath: string) {
+    this.basePath = path.resolve(basePath);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolvePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolvePath(key), { force: true });
+  }
+
+  /**
+   * Ключ -> путь внутри basePath (ключ не может выйти за пределы папки)
+   */
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.basePath, key);
+    if (!filePath.startsWith(this.basePath + path.sep)) {
+      throw new Error(`Invalid media key: ${key}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Общий интерфейс хранилищ медиафайлов (фото из сообщений)
+ */
+
+export const MEDIA_STORAGE_PROVIDER = 'MEDIA_STORAGE_PROVIDER';
+
+export interface MediaStorageProvider {
+  readonly name: string;
+
+  /**
+   * Сохраняет файл по ключу (перезаписывает существующий)
+   */
+  put(key: string, data: Buffer, mimeType: string): Promise<void>;
+
+  /**
+   * Читает файл. Возвращает null, если файла нет
+   */
+  get(key: string): Promise<Buffer | null>;
+
+  /**
+   * Удаляет файл (отсутствующий файл - не ошибка)
+   */
+  delete(key: string): Promise<void>;
+}
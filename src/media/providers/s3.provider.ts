@@ -0,0 +1,101 @@
+import {
+  CreateBucketCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadBucketCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { ConfigService } from '@nestjs/config';
+
+import { MediaStorageProvider } from './media-storage.provider';
+
+/**
+ * S3-совместимое хранилище (AWS S3, MinIO из docker-compose)
+ */
+export class S3MediaStorageProvider implements MediaStorageProvider {
+  readonly name = 's3';
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private bucketReady?: Promise<void>;
+
+  constructor(configService: ConfigService) {
+    const accessKeyId = configService.get<string>('media.s3.accessKeyId');
+    const secretAccessKey = configService.get<string>(
+      'media.s3.secretAccessKey',
+    );
+
+    this.bucket = configService.get<string>('media.s3.bucket', 'sydykov-media');
+    this.client = new S3Client({
+      endpoint: configService.get<string>('media.s3.endpoint') || undefined,
+      region: configService.get<string>('media.s3.region', 'us-east-1'),
+      forcePathStyle: configService.get<boolean>(
+        'media.s3.forcePathStyle',
+        true,
+      ),
+      credentials:
+        accessKeyId && secretAccessKey
+          ? { accessKeyId, secretAccessKey }
+          : undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer, mimeType: string): Promise<void> {
+    await this.ensureBucket();
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: data,
+        ContentType: mimeType,
+      }),
+    );
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+      if (!response.Body) {
+        return null;
+      }
+      return Buffer.from(await response.Body.transformToByteArray());
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key }),
+    );
+  }
+
+  /**
+   * Создает бакет при первом сохранении (удобно для локального MinIO)
+   */
+  private ensureBucket(): Promise<void> {
+    this.bucketReady ??= this.client
+      .send(new HeadBucketCommand({ Bucket: this.bucket }))
+      .then(
+        () => undefined,
+        async () => {
+          await this.client.send(
+            new CreateBucketCommand({ Bucket: this.bucket }),
+          );
+        },
+      )
+      .catch((error) => {
+        // Не кешируем ошибку - попробуем снова при следующем сохранении
+        this.bucketReady = undefined;
+        throw error;
+      });
+
+    return this.bucketReady;
+  }
+}
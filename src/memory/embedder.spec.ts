@@ -0,0 +1,56 @@
+import { cosineSimilarity, LocalEmbedder } from './embedder';
+
+describe('LocalEmbedder', () => {
+  const embedder = new LocalEmbedder();
+
+  it('returns normalized vectors of fixed length', async () => {
+    const [vector] = await embedder.embed(['Поеду в отпуск в июле']);
+
+    expect(vector).toHaveLength(512);
+    const length = Math.sqrt(
+      vector.reduce((sum, value) => sum + value ** 2, 0),
+    );
+    expect(length).toBeCloseTo(1);
+  });
+
+  it('is deterministic and case-insensitive', async () => {
+    const [a, b] = await embedder.embed(['Привет, Мир', 'привет мир']);
+
+    expect(a).toEqual(b);
+  });
+
+  it('ranks texts with shared word roots above unrelated ones', async () => {
+    const [query, related, unrelated] = await embedder.embed([
+      'как прошел отпуск',
+      'в отпуске было жарко',
+      'скинь номер сантехника',
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(
+      cosineSimilarity(query, unrelated),
+    );
+  });
+
+  it('returns a zero vector for text without words', async () => {
+    const [vector] = await embedder.embed(['!!! ...']);
+
+    expect(vector.every((value) => value === 0)).toBe(true);
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('is 1 for identical and -1 for opposite vectors', () => {
+    expect(cosineSimilarity([1, 2, 3], [1, 2, 3])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [-1, 0])).toBeCloseTo(-1);
+  });
+
+  it('is 0 for orthogonal vectors', () => {
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+  });
+
+  it('is 0 for vectors of different length, empty or zero vectors', () => {
+    expect(cosineSimilarity([1, 2], [1, 2, 3])).toBe(0);
+    expect(cosineSimilarity([], [])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
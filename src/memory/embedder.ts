@@ -0,0 +1,77 @@
+/**
+ * Эмбеддинги для долгой памяти: векторы текстов и их сравнение
+ */
+
+export interface Embedder {
+  name: string; // Сохраняется с вектором: векторы разных моделей несравнимы
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Размерность локальных векторов
+const LOCAL_DIMENSIONS = 512;
+
+/**
+ * Детерминированный локальный эмбеддер без сети: хэширует слова и триграммы букв
+ * в вектор фиксированной длины. Ловит совпадения слов и корней ("отпуск" / "отпуске"),
+ * но не синонимы - для разработки и запуска без OpenAI
+ */
+export class LocalEmbedder implements Embedder {
+  readonly name = `local-hash-${LOCAL_DIMENSIONS}`;
+
+  embed(texts: string[]): Promise<number[][]> {
+    return Promise.resolve(texts.map((text) => this.embedOne(text)));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+    for (const word of words) {
+      vector[hash(word) % LOCAL_DIMENSIONS] += 1;
+
+      const padded = ` ${word} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        vector[hash(padded.substring(i, i + 3)) % LOCAL_DIMENSIONS] += 0.5;
+      }
+    }
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * FNV-1a: быстрый стабильный хэш строки
+ */
+function hash(value: string): number {
+  let result = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193);
+  }
+  return result >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value ** 2, 0));
+  return length > 0 ? vector.map((value) => value / length) : vector;
+}
+
+/**
+ * Косинусное сходство векторов (-1..1, 0 для векторов разной длины или нулевых)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] ** 2;
+    normB += b[i] ** 2;
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+
+import { OpenAIModule } from '../openai/openai.module';
+
+import { MemoryService } from './memory.service';
+
+@Module({
+  imports: [ConfigModule, OpenAIModule],
+  providers: [MemoryService],
+  exports: [MemoryService],
+})
+export class MemoryModule {}
@@ -0,0 +1,205 @@
+import { Logger } from '@nestjs/common';
+import type { ConfigService } from '@nestjs/config';
+
+import type { PrismaService } from '../database/prisma.service';
+import type { OpenAIService } from '../openai/openai.service';
+
+import { LocalEmbedder } from './embedder';
+import { MemoryMessage, MemoryService } from './memory.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('MemoryService', () => {
+  let prisma: {
+    memoryEntry: { findMany: jest.Mock; createMany: jest.Mock };
+  };
+
+  const createService = (config: Record<string, unknown> = {}) => {
+    const configService = {
+      get: (key: string, defaultValue?: unknown) =>
+        key in config ? config[key] : defaultValue,
+    };
+    return new MemoryService(
+      configService as unknown as ConfigService,
+      prisma as unknown as PrismaService,
+      {} as OpenAIService,
+    );
+  };
+
+  const messages = (count: number, start: Date, stepMs = 60 * 1000) =>
+    Array.from(
+      { length: count },
+      (_, index): MemoryMessage => ({
+        text: `Собеседник: сообщение ${index + 1}`,
+        createdAt: new Date(start.getTime() + index * stepMs),
+      }),
+    );
+
+  const savedEntries = (): Array<{ content: string; occurredAt: Date }> =>
+    prisma.memoryEntry.createMany.mock.calls[0][0].data;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    prisma = {
+      memoryEntry: { findMany: jest.fn(), createMany: jest.fn() },
+    };
+  });
+
+  describe('rememberMessages', () => {
+    const start = new Date('2026-05-01T10:00:00Z');
+
+    it('saves neighbouring messages as one fragment', async () => {
+      await createService({ 'memory.embedder': 'local' }).rememberMessages(
+        'conv-1',
+        messages(3, start),
+      );
+
+      expect(savedEntries()).toEqual([
+        expect.objectContaining({
+          conversationId: 'conv-1',
+          kind: 'messages',
+          content:
+            'Собеседник: сообщение 1\nСобеседник: сообщение 2\nСобеседник: сообщение 3',
+          embedder: 'local-hash-512',
+          occurredAt: start,
+        }),
+      ]);
+    });
+
+    it('starts a new fragment after 8 messages', async () => {
+      await createService({ 'memory.embedder': 'local' }).rememberMessages(
+        'conv-1',
+        messages(10, start),
+      );
+
+      const entries = savedEntries();
+      expect(entries).toHaveLength(2);
+      expect(entries[0].content.split('\n')).toHaveLength(8);
+      expect(entries[1].occurredAt).toEqual(
+        new Date(start.getTime() + 8 * 60 * 1000),
+      );
+    });
+
+    it('starts a new fragment after a long gap', async () => {
+      await createService({ 'memory.embedder': 'local' }).rememberMessages(
+        'conv-1',
+        messages(2, start, 7 * HOUR_MS),
+      );
+
+      expect(savedEntries()).toHaveLength(2);
+    });
+
+    it('starts a new fragment when the text gets too long', async () => {
+      const long = (createdAt: Date): MemoryMessage => ({
+        text: 'а'.repeat(600),
+        createdAt,
+      });
+
+      await createService({ 'memory.embedder': 'local' }).rememberMessages(
+        'conv-1',
+        [long(start), long(new Date(start.getTime() + 1000))],
+      );
+
+      expect(savedEntries()).toHaveLength(2);
+    });
+
+    it('skips empty messages and does nothing without text', async () => {
+      await createService({ 'memory.embedder': 'local' }).rememberMessages(
+        'conv-1',
+        [{ text: '  ', createdAt: start }],
+      );
+
+      expect(prisma.memoryEntry.createMany).not.toHaveBeenCalled();
+    });
+
+    it('does nothing when memory is disabled', async () => {
+      await createService({
+        'memory.enabled': false,
+        'memory.embedder': 'local',
+      }).rememberMessages('conv-1', messages(3, start));
+
+      expect(prisma.memoryEntry.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recall', () => {
+    const embedder = new LocalEmbedder();
+
+    const entry = async (content: string, occurredAt: string) => {
+      const [embedding] = await embedder.embed([content]);
+      return {
+        kind: 'messages',
+        content,
+        embedding,
+        occurredAt: new Date(occurredAt),
+      };
+    };
+
+    it('returns similar fragments in chronological order', async () => {
+      prisma.memoryEntry.findMany.mockResolvedValue([
+        await entry('Я: в отпуске поеду на Иссык-Куль', '2026-03-10T00:00:00Z'),
+        await entry(
+          'Собеседник: скинь номер сантехника',
+          '2026-03-01T00:00:00Z',
+        ),
+        await entry('Собеседник: как прошел отпуск?', '2026-02-01T00:00:00Z'),
+      ]);
+
+      const memories = await createService({
+        'memory.embedder': 'local',
+        'memory.minSimilarity': 0.2,
+      }).recall('conv-1', 'куда поедешь в отпуск');
+
+      expect(prisma.memoryEntry.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { conversationId: 'conv-1', embedder: 'local-hash-512' },
+        }),
+      );
+      expect(memories.map((memory) => memory.content)).toEqual([
+        'Собеседник: как прошел отпуск?',
+        'Я: в отпуске поеду на Иссык-Куль',
+      ]);
+    });
+
+    it('keeps only the topK most similar fragments', async () => {
+      prisma.memoryEntry.findMany.mockResolvedValue([
+        await entry('отпуск отпуск отпуск', '2026-03-01T00:00:00Z'),
+        await entry('отпуск', '2026-02-01T00:00:00Z'),
+        await entry('был в отпуске на море', '2026-01-01T00:00:00Z'),
+      ]);
+
+      const memories = await createService({
+        'memory.embedder': 'local',
+        'memory.minSimilarity': 0,
+        'memory.topK': 2,
+      }).recall('conv-1', 'отпуск');
+
+      expect(memories.map((memory) => memory.content)).toEqual([
+        'отпуск',
+        'отпуск отпуск отпуск',
+      ]);
+    });
+
+    it('skips too short queries', async () => {
+      const memories = await createService({
+        'memory.embedder': 'local',
+      }).recall('conv-1', 'ок');
+
+      expect(memories).toEqual([]);
+      expect(prisma.memoryEntry.findMany).not.toHaveBeenCalled();
+    });
+
+    it('returns nothing instead of failing on database errors', async () => {
+      prisma.memoryEntry.findMany.mockRejectedValue(new Error('db is down'));
+
+      const memories = await createService({
+        'memory.embedder': 'local',
+      }).recall('conv-1', 'куда поедешь в отпуск');
+
+      expect(memories).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { PrismaService } from '../database/prisma.service';
+import { OpenAIService } from '../openai/openai.service';
+
+import { cosineSimilarity, Embedder, LocalEmbedder } from './embedder';
+
+export type MemoryKind = 'messages' | 'summary';
+
+/**
+ * Сообщение для долгой памяти: текст уже с автором ("Я: ...", "Собеседник: ...")
+ */
+export interface MemoryMessage {
+  text: string;
+  createdAt: Date;
+}
+
+export interface RecalledMemory {
+  kind: MemoryKind;
+  content: string;
+  occurredAt: Date;
+  similarity: number;
+}
+
+// Фрагмент переписки для одного вектора: несколько соседних сообщений
+const CHUNK_MAX_MESSAGES = 8;
+const CHUNK_MAX_LENGTH = 1000;
+// Перерыв, после которого начинается новый фрагмент (другой разговор)
+const CHUNK_MAX_GAP_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Долгая память: фрагменты старой переписки и резюме недель с эмбеддингами
+ * Сообщения попадают сюда при суммаризации (когда уходят из контекста в архив),
+ * а при ответе в контекст подмешиваются фрагменты, похожие на новые сообщения собеседника
+ */
+@Injectable()
+export class MemoryService {
+  private readonly logger = new Logger(MemoryService.name);
+  private readonly enabled: boolean;
+  private readonly topK: number;
+  private readonly minSimilarity: number;
+  private readonly timezone: string;
+  private readonly embedder: Embedder;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly openaiService: OpenAIService,
+  ) {
+    this.enabled = this.configService.get<boolean>('memory.enabled', true);
+    this.topK = this.configService.get<number>('memory.topK', 5);
+    this.minSimilarity = this.configService.get<number>(
+      'memory.minSimilarity',
+      0.35,
+    );
+    this.timezone = this.configService.get<string>(
+      'schedule.timezone',
+      'Asia/Bishkek',
+    );
+
+    const model = this.configService.get<string>(
+      'memory.embeddingModel',
+      'text-embedding-3-small',
+    );
+    this.embedder =
+      this.configService.get<string>('memory.embedder', 'openai') === 'local'
+        ? new LocalEmbedder()
+        : {
+            name: `openai:${model}`,
+            embed: (texts) => this.openaiService.createEmbeddings(texts, model),
+          };
+
+    this.logger.log(
+      `Long-term memory ${this.enabled ? `enabled (${this.embedder.name})` : 'disabled'}`,
+    );
+  }
+
+  /**
+   * Сохраняет сообщения фрагментами (вызывается перед их архивацией при суммаризации)
+   */
+  async rememberMessages(
+    conversationId: string,
+    messages: MemoryMessage[],
+  ): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    const chunks = this.splitIntoChunks(
+      messages.filter((message) => message.text.trim()),
+    );
+    if (chunks.length === 0) {
+      return;
+    }
+
+    await this.save(
+      conversationId,
+      'messages',
+      chunks.map((chunk) => ({
+        content: chunk.map((message) => message.text).join('\n'),
+        occurredAt: chunk[0].createdAt,
+      })),
+    );
+  }
+
+  /**
+   * Сохраняет резюме закончившейся недели
+   */
+  async rememberSummary(
+    conversationId: string,
+    summary: string,
+    occurredAt: Date,
+  ): Promise<void> {
+    if (!this.enabled || !summary.trim()) {
+      return;
+    }
+
+    await this.save(conversationId, 'summary', [
+      { content: summary, occurredAt },
+    ]);
+  }
+
+  /**
+   * Фрагменты прошлых разговоров, похожие на запрос (новые сообщения собеседника)
+   * Ошибки не пробрасываются: без памяти бот все равно может ответить
+   */
+  async recall(
+    conversationId: string,
+    query: string,
+  ): Promise<RecalledMemory[]> {
+    if (!this.enabled || query.trim().length < 3) {
+      return [];
+    }
+
+    try {
+      const candidates = await this.prisma.memoryEntry.findMany({
+        where: { conversationId, embedder: this.embedder.name },
+        select: {
+          kind: true,
+          content: true,
+          embedding: true,
+          occurredAt: true,
+        },
+      });
+      if (candidates.length === 0) {
+        return [];
+      }
+
+      const [queryEmbedding] = await this.embedder.embed([query]);
+
+      return candidates
+        .map((entry) => ({
+          kind: entry.kind as MemoryKind,
+          content: entry.content,
+          occurredAt: entry.occurredAt,
+          similarity: cosineSimilarity(queryEmbedding, entry.embedding),
+        }))
+        .filter((memory) => memory.similarity >= this.minSimilarity)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, this.topK)
+        .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+    } catch (error) {
+      this.logger.error(
+        `Failed to recall memories for conversation ${conversationId}`,
+        error,
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Форматирует найденные фрагменты для системного сообщения
+   */
+  formatForContext(memories: RecalledMemory[]): string {
+    const formatDate = new Intl.DateTimeFormat('ru-RU', {
+      timeZone: this.timezone,
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+    });
+
+    const fragments = memories.map(
+      (memory) =>
+        `[${formatDate.format(memory.occurredAt)}${memory.kind === 'summary' ? ', резюме' : ''}]\n${memory.content}`,
+    );
+
+    return `Из прошлых разговоров с этим собеседником (всплыло по теме новых сообщений; используй, только если к месту, и не пересказывай дословно):\n\n${fragments.join('\n\n')}`;
+  }
+
+  private async save(
+    conversationId: string,
+    kind: MemoryKind,
+    items: Array<{ content: string; occurredAt: Date }>,
+  ): Promise<void> {
+    const embeddings = await this.embedder.embed(
+      items.map((item) => item.content),
+    );
+
+    await this.prisma.memoryEntry.createMany({
+      data: items.map((item, index) => ({
+        conversationId,
+        kind,
+        content: item.content,
+        embedding: embeddings[index],
+        embedder: this.embedder.name,
+        occurredAt: item.occurredAt,
+      })),
+    });
+
+    this.logger.debug(
+      `Saved ${items.length} ${kind} memory entries for conversation ${conversationId}`,
+    );
+  }
+
+  /**
+   * Делит переписку на фрагменты: подряд идущие сообщения одного разговора
+   */
+  private splitIntoChunks(messages: MemoryMessage[]): MemoryMessage[][] {
+    const chunks: MemoryMessage[][] = [];
+    let current: MemoryMessage[] = [];
+    let length = 0;
+
+    for (const message of messages) {
+      const previous = current[current.length - 1];
+      if (
+        previous &&
+        (current.length >= CHUNK_MAX_MESSAGES ||
+          length + message.text.length > CHUNK_MAX_LENGTH ||
+          message.createdAt.getTime() - previous.createdAt.getTime() >
+            CHUNK_MAX_GAP_MS)
+      ) {
+        chunks.push(current);
+        current = [];
+        length = 0;
+      }
+
+      current.push(message);
+      length += message.text.length;
+    }
+
+    if (current.length > 0) {
+      chunks.push(current);
+    }
+    return chunks;
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+
+import { OpenAIModule } from '../openai/openai.module';
+import { TelegramModule } from '../telegram/telegram.module';
+
+import { NotificationsService } from './notifications.service';
+
+@Module({
+  imports: [ConfigModule, OpenAIModule, TelegramModule],
+  providers: [NotificationsService],
+  exports: [NotificationsService],
+})
+export class NotificationsModule {}
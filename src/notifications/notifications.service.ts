@@ -0,0 +1,121 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import {
+  IMPORTANCE_CATEGORIES,
+  ImportanceCategory,
+  OpenAIService,
+} from '../openai/openai.service';
+import { TelegramService } from '../telegram/telegram.service';
+
+const CATEGORY_TITLES: Record<ImportanceCategory, string> = {
+  urgent: '🔥 срочно',
+  distress: '🆘 человеку плохо',
+  money: '💸 деньги',
+  meeting: '📅 встреча',
+  uncertain: '❓ нужен ты',
+};
+
+// Сколько символов переписки цитируем в уведомлении
+const MAX_QUOTE_LENGTH = 500;
+
+export interface NotificationContext {
+  contactName: string;
+  telegramId: bigint;
+  incoming: string[]; // Новые сообщения собеседника
+  reply: string | null; // Что ответил бот (null - ничего)
+  isDraft?: boolean; // Ответ ушел черновиком в режиме одобрения
+}
+
+/**
+ * Уведомления владельцу о важных сообщениях: классификатор решает,
+ * стоит ли переписка внимания (срочно, беда, деньги, встреча, бот не справился)
+ */
+@Injectable()
+export class NotificationsService {
+  private readonly logger = new Logger(NotificationsService.name);
+  private readonly enabled: boolean;
+  private readonly categories: ImportanceCategory[];
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly openaiService: OpenAIService,
+    private readonly telegramService: TelegramService,
+  ) {
+    this.enabled = this.configService.get<boolean>(
+      'notifications.enabled',
+      true,
+    );
+    this.categories = this.configService
+      .get<string>('notifications.categories', IMPORTANCE_CATEGORIES.join(','))
+      .split(',')
+      .map((category) => category.trim())
+      .filter((category): category is ImportanceCategory =>
+        IMPORTANCE_CATEGORIES.includes(category as ImportanceCategory),
+      );
+
+    this.logger.log(
+      `Notifications initialized: enabled=${this.enabled}, categories=${this.categories.join(',')}`,
+    );
+  }
+
+  /**
+   * Проверяет переписку классификатором и уведомляет владельца, если она важна
+   * @returns было ли отправлено уведомление
+   */
+  async notifyIfImportant(context: NotificationContext): Promise<boolean> {
+    if (!this.enabled || this.categories.length === 0) {
+      return false;
+    }
+
+    const incoming = context.incoming.filter((text) => text.trim());
+    if (incoming.length === 0) {
+      return false;
+    }
+
+    const result = await this.openaiService.classifyImportance(
+      incoming,
+      context.reply,
+    );
+    const categories = result.categories.filter((category) =>
+      this.categories.includes(category),
+    );
+    if (!result.important || categories.length === 0) {
+      return false;
+    }
+
+    await this.telegramService.sendNotification(
+      this.formatNotification(context, categories, result.summary),
+    );
+    this.logger.log(
+      `Notified owner about conversation with ${context.telegramId}: ${categories.join(', ')}`,
+    );
+    return true;
+  }
+
+  private formatNotification(
+    context: NotificationContext,
+    categories: ImportanceCategory[],
+    summary: string,
+  ): string {
+    const quote = (text: string) =>
+      text.length > MAX_QUOTE_LENGTH
+        ? `${text.substring(0, MAX_QUOTE_LENGTH)}...`
+        : text;
+
+    const lines = [
+      `🔔 ${context.contactName} (\`${context.telegramId}\`): ${categories.map((category) => CATEGORY_TITLES[category]).join(', ')}`,
+    ];
+    if (summary) {
+      lines.push('', summary);
+    }
+    lines.push('', '💬 Написал:', quote(context.incoming.join('\n')));
+    lines.push(
+      '',
+      context.isDraft ? '📝 Черновик ответа:' : '🤖 Я ответил:',
+      context.reply ? quote(context.reply) : '(ничего)',
+    );
+
+    return lines.join('\n');
+  }
+}
@@ -9,7 +9,10 @@ export type MessageContent =
   | string
   | Array<
       | { type: 'text'; text: string }
-      | { type: 'image_url'; image_url: { url: string } }
+      | {
+          type: 'image_url';
+          image_url: { url: string; detail?: 'low' | 'high' | 'auto' };
+        }
     >;
 
 export interface ChatMessage {
@@ -17,8 +20,229 @@ export interface ChatMessage {
   content: MessageContent;
 }
 
+/**
+ * Действие, которое модель выбирает в ответ на сообщения
+ */
+export type ResponseAction =
+  | { type: 'message'; text: string; replyToMessageId?: number } // Написать сообщение (можно ответом на конкретное)
+  | { type: 'reaction'; messageId: number; emoji: string } // Поставить реакцию на сообщение
+  | { type: 'sticker'; emoji?: string; replyToMessageId?: number } // Отправить стикер
+  | { type: 'silent' }; // Ничего не отвечать (оставить прочитанным)
+
 export interface AIResponse {
-  content: string; // Text response only
+  content: string; // Текст всех сообщений (для логов)
+  actions: ResponseAction[];
+}
+
+// Контракт ответа: модель возвращает список действий в JSON
+const RESPONSE_ACTIONS_PROMPT = `ФОРМАТ ОТВЕТА:
+Отвечай ТОЛЬКО JSON вида {"actions": [...]}, действия выполняются по порядку.
+Каждое действие: {"type": ..., "text": ..., "messageId": ..., "emoji": ...} (ненужные поля - null)
+• "message" - написать сообщение: text - текст, messageId - ID сообщения собеседника, если отвечаешь именно на него (иначе null)
+• "reaction" - поставить реакцию: messageId - ID сообщения, emoji - одна из 👍 ❤ 🔥 😁 🤣 👏 🎉 😢 🤔 👌 😍 🙏
+• "sticker" - отправить стикер: emoji - настроение стикера
+• "silent" - ничего не отвечать, просто прочитать
+Живые люди часто просто ставят 👍 вместо ответа или вообще не отвечают на "ок" - делай так же, когда это уместно.
+ID сообщений бери только из списка новых сообщений.`;
+
+const RESPONSE_ACTIONS_SCHEMA = {
+  type: 'object',
+  properties: {
+    actions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: {
+            type: 'string',
+            enum: ['message', 'reaction', 'sticker', 'silent'],
+          },
+          text: { type: ['string', 'null'] },
+          messageId: { type: ['integer', 'null'] },
+          emoji: { type: ['string', 'null'] },
+        },
+        required: ['type', 'text', 'messageId', 'emoji'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['actions'],
+  additionalProperties: false,
+};
+
+// Действие в том виде, в каком его вернула модель: поля еще не проверены
+interface RawResponseAction {
+  type?: unknown;
+  text?: unknown;
+  messageId?: unknown;
+  emoji?: unknown;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Причины уведомить владельца о переписке
+export const IMPORTANCE_CATEGORIES = [
+  'urgent', // Срочно, нужен ответ прямо сейчас
+  'distress', // Человеку плохо, он в беде
+  'money', // Просит деньги, долг, оплата
+  'meeting', // Предлагает встречу, звонок, договаривается о времени
+  'uncertain', // Бот не смог уверенно ответить - нужен сам владелец
+] as const;
+
+export type ImportanceCategory = (typeof IMPORTANCE_CATEGORIES)[number];
+
+export interface ImportanceResult {
+  important: boolean;
+  categories: ImportanceCategory[];
+  summary: string; // Суть в 1-2 предложениях для уведомления
+}
+
+const IMPORTANCE_SCHEMA = {
+  type: 'object',
+  properties: {
+    important: { type: 'boolean' },
+    categories: {
+      type: 'array',
+      items: { type: 'string', enum: [...IMPORTANCE_CATEGORIES] },
+    },
+    summary: { type: 'string' },
+  },
+  required: ['important', 'categories', 'summary'],
+  additionalProperties: false,
+};
+
+export interface ConversationDigest {
+  summary: string; // О чем говорили, 1-3 предложения
+  unanswered: string[]; // Вопросы и просьбы, оставшиеся без ответа
+}
+
+const DIGEST_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    unanswered: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['summary', 'unanswered'],
+  additionalProperties: false,
+};
+
+export interface ExtractedCommitment {
+  text: string; // Что обещано, в инфинитиве: "скинуть фото"
+  quote: string; // Фраза из ответа бота
+  due: string; // Срок в ISO 8601 со смещением или пустая строка
+}
+
+const COMMITMENTS_SCHEMA = {
+  type: 'object',
+  properties: {
+    commitments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string' },
+          quote: { type: 'string' },
+          due: { type: 'string' },
+        },
+        required: ['text', 'quote', 'due'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['commitments'],
+  additionalProperties: false,
+};
+
+export const FACT_CATEGORIES = [
+  'birthday',
+  'interests',
+  'plans',
+  'work',
+  'relationships',
+  'other',
+] as const;
+
+export interface ExtractedFactChange {
+  action: 'add' | 'update' | 'confirm';
+  existing: number; // Номер известного факта (с 1) для update/confirm, 0 для add
+  category: (typeof FACT_CATEGORIES)[number];
+  key: string; // О ком/о чем факт внутри категории: "self", "mom", "climbing"
+  fact: string;
+  confidence: number; // 0..1
+  sources: number[]; // Номера сообщений (с 1), из которых это следует
+}
+
+const FACT_CHANGES_SCHEMA = {
+  type: 'object',
+  properties: {
+    changes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          action: { type: 'string', enum: ['add', 'update', 'confirm'] },
+          existing: { type: 'integer' },
+          category: { type: 'string', enum: FACT_CATEGORIES },
+          key: { type: 'string' },
+          fact: { type: 'string' },
+          confidence: { type: 'number' },
+          sources: { type: 'array', items: { type: 'integer' } },
+        },
+        required: [
+          'action',
+          'existing',
+          'category',
+          'key',
+          'fact',
+          'confidence',
+          'sources',
+        ],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['changes'],
+  additionalProperties: false,
+};
+
+export const EVENT_TYPES = [
+  'birthday',
+  'anniversary',
+  'exam',
+  'trip',
+  'other',
+] as const;
+
+/**
+ * Дата из факта о собеседнике
+ */
+export interface NormalizedEvent {
+  type: (typeof EVENT_TYPES)[number];
+  title: string; // "день рождения мамы", "экзамен по вождению"
+  month: number;
+  day: number;
+  year: number; // 0 - ежегодное событие или год неизвестен
+}
+
+const EVENT_SCHEMA = {
+  type: 'object',
+  properties: {
+    isEvent: { type: 'boolean' },
+    type: { type: 'string', enum: EVENT_TYPES },
+    title: { type: 'string' },
+    month: { type: 'integer' },
+    day: { type: 'integer' },
+    year: { type: 'integer' },
+  },
+  required: ['isEvent', 'type', 'title', 'month', 'day', 'year'],
+  additionalProperties: false,
+};
+
+export interface PromptContext {
+  personaPrompt?: string; // Описание персоны для этого собеседника
+  customContext?: string | null; // Персональный контекст (User.customContext)
 }
 
 @Injectable()
@@ -51,21 +275,45 @@ export class OpenAIService implements OnModuleInit {
     }
   }
 
+  /**
+   * Собирает системный промпт: базовый промпт + персона + персональный контекст + имя
+   */
+  buildSystemPrompt(userName?: string, promptContext?: PromptContext): string {
+    let systemPromptContent = this.baseSystemPrompt;
+
+    if (promptContext?.personaPrompt) {
+      systemPromptContent += `\n\n${promptContext.personaPrompt}`;
+    }
+
+    if (promptContext?.customContext) {
+      systemPromptContent += `\n\nКОНТЕКСТ О СОБЕСЕДНИКЕ:\n${promptContext.customContext}`;
+    }
+
+    if (userName) {
+      systemPromptContent += `\n\nТЫ ОБЩАЕШЬСЯ С: ${userName}`;
+    }
+
+    systemPromptContent += `\n\n${RESPONSE_ACTIONS_PROMPT}`;
+
+    return systemPromptContent;
+  }
+
   /**
    * Генерирует ответ на основе контекста разговора
    * @param messages - история сообщений
    * @param userName - имя пользователя (опционально)
+   * @param promptContext - персона и персональный контекст собеседника (опционально)
    */
   async generateResponse(
     messages: ChatMessage[],
     userName?: string,
+    promptContext?: PromptContext,
   ): Promise<AIResponse> {
     try {
-      // Формируем системный промпт с именем пользователя (если есть)
-      let systemPromptContent = this.baseSystemPrompt;
-      if (userName) {
-        systemPromptContent += `\n\nТЫ ОБЩАЕШЬСЯ С: ${userName}`;
-      }
+      const systemPromptContent = this.buildSystemPrompt(
+        userName,
+        promptContext,
+      );
 
       const systemMessage: ChatMessage = {
         role: 'system',
@@ -75,7 +323,10 @@ export class OpenAIService implements OnModuleInit {
       // Детальное логирование контекста
       this.logger.log('=== GPT REQUEST CONTEXT ===');
       this.logger.log(
-        `System Prompt Length: ${this.baseSystemPrompt.length} chars`,
+        `System Prompt Length: ${systemPromptContent.length} chars`,
+      );
+      this.logger.log(
+        `Persona: ${promptContext?.personaPrompt ? 'yes' : 'no'}, Custom Context: ${promptContext?.customContext ? 'yes' : 'no'}`,
       );
       this.logger.log(
         `Total Messages: ${messages.length + 1} (1 system + ${messages.length} conversation)`,
@@ -87,6 +338,14 @@ export class OpenAIService implements OnModuleInit {
         messages: [systemMessage, ...messages] as ChatCompletionMessageParam[],
         max_tokens: this.maxTokens,
         temperature: 0.8,
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: 'response_actions',
+            strict: true,
+            schema: RESPONSE_ACTIONS_SCHEMA,
+          },
+        },
       });
 
       const responseContent = completion.choices[0]?.message?.content;
@@ -95,21 +354,100 @@ export class OpenAIService implements OnModuleInit {
         throw new Error('No response from OpenAI');
       }
 
+      const actions = this.parseResponseActions(responseContent);
+      const content = actions
+        .map((action) => (action.type === 'message' ? action.text : ''))
+        .filter(Boolean)
+        .join('\n');
+
       this.logger.debug(
-        `Generated text: ${responseContent.substring(0, 100)}...`,
+        `Generated actions: ${actions.map((action) => action.type).join(', ')}; text: ${content.substring(0, 100)}...`,
       );
 
-      return { content: responseContent };
+      return { content, actions };
     } catch (error) {
       this.logger.error('Failed to generate response from OpenAI', error);
       throw error;
     }
   }
 
+  /**
+   * Разбирает JSON с действиями. Если модель ответила не JSON,
+   * весь ответ считается одним текстовым сообщением
+   */
+  private parseResponseActions(raw: string): ResponseAction[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw.trim());
+    } catch {
+      this.logger.warn('Response is not valid JSON, using it as plain text');
+      return [{ type: 'message', text: raw.trim() }];
+    }
+
+    const items: unknown[] =
+      isObject(parsed) && Array.isArray(parsed.actions) ? parsed.actions : [];
+    const actions: ResponseAction[] = [];
+
+    for (const value of items) {
+      const item: RawResponseAction = isObject(value) ? value : {};
+      const messageId =
+        typeof item.messageId === 'number' ? item.messageId : undefined;
+      const emoji =
+        typeof item.emoji === 'string' && item.emoji.trim()
+          ? item.emoji.trim()
+          : undefined;
+
+      switch (item.type) {
+        case 'message':
+          if (typeof item.text === 'string' && item.text.trim()) {
+            actions.push({
+              type: 'message',
+              text: item.text.trim(),
+              replyToMessageId: messageId,
+            });
+          }
+          break;
+        case 'reaction':
+          if (messageId !== undefined && emoji) {
+            actions.push({ type: 'reaction', messageId, emoji });
+          }
+          break;
+        case 'sticker':
+          actions.push({ type: 'sticker', emoji, replyToMessageId: messageId });
+          break;
+        case 'silent':
+          actions.push({ type: 'silent' });
+          break;
+        default:
+          this.logger.warn(`Unknown response action: ${JSON.stringify(value)}`);
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Эмбеддинги текстов для долгой памяти (в том же порядке, что и тексты)
+   */
+  async createEmbeddings(texts: string[], model: string): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model,
+      input: texts,
+    });
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+
   /**
    * Суммаризирует старые сообщения для сжатия контекста
+   * @param previousSummary - прежнее резюме: новое дополняет его, а не заменяет
    */
-  async summarizeMessages(messages: ChatMessage[]): Promise<string> {
+  async summarizeMessages(
+    messages: ChatMessage[],
+    previousSummary?: string | null,
+  ): Promise<string> {
     try {
       const summaryPrompt: ChatMessage = {
         role: 'system',
@@ -137,7 +475,9 @@ export class OpenAIService implements OnModuleInit {
           summaryPrompt,
           {
             role: 'user',
-            content: `Суммаризируй следующие сообщения:\n\n${messageTexts}`,
+            content: previousSummary
+              ? `Резюме предыдущей переписки:\n${previousSummary}\n\nДополни его следующими сообщениями. Важное из прежнего резюме сохрани, устаревшее обнови, все уложи в одно резюме:\n\n${messageTexts}`
+              : `Суммаризируй следующие сообщения:\n\n${messageTexts}`,
           },
         ] as ChatCompletionMessageParam[],
         max_tokens: 500,
@@ -159,92 +499,337 @@ export class OpenAIService implements OnModuleInit {
   }
 
   /**
-   * Извлекает факты о пользователе из разговора
-   * Возвращает массив фактов с категориями
+   * Сворачивает резюме по дням в одно резюме периода (недели)
+   * @param parts - резюме дней с подписью даты
    */
-  async extractFacts(
-    messages: ChatMessage[],
-  ): Promise<Array<{ category: string; fact: string }>> {
-    try {
-      const factsPrompt: ChatMessage = {
-        role: 'system',
-        content: `Ты — ассистент, который анализирует разговоры и извлекает важные факты о пользователе.
+  async combineSummaries(parts: string[]): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: 'system',
+          content: `Ты — ассистент, который сводит резюме переписки за несколько дней в одно резюме недели на русском языке.
+Сохрани ключевые факты, договоренности, события и даты, убери повторы. Не более 200 слов.`,
+        },
+        { role: 'user', content: parts.join('\n\n') },
+      ] as ChatCompletionMessageParam[],
+      max_tokens: 400,
+      temperature: 0.3,
+    });
 
-Категории фактов:
-- birthday: дни рождения (свои или близких)
-- interests: интересы, хобби
-- plans: планы на будущее
-- work: работа, учеба
-- relationships: отношения (семья, друзья)
-- other: другие важные факты
+    const summary = completion.choices[0]?.message?.content;
+    if (!summary) {
+      throw new Error('No combined summary from OpenAI');
+    }
+    return summary;
+  }
 
-Верни только НОВЫЕ факты (которые еще не были упомянуты ранее).
-Если новых фактов нет, верни пустой массив.
+  /**
+   * Оценивает, нужно ли сообщить владельцу о переписке
+   * @param incoming - новые сообщения собеседника
+   * @param reply - что ответил бот (null - ничего не ответил)
+   */
+  async classifyImportance(
+    incoming: string[],
+    reply: string | null,
+  ): Promise<ImportanceResult> {
+    const notImportant: ImportanceResult = {
+      important: false,
+      categories: [],
+      summary: '',
+    };
 
-Формат ответа: строгий JSON массив объектов с полями "category" и "fact".
-Пример: [{"category":"birthday","fact":"День рождения 15 мая"},{"category":"work","fact":"Работает фронтенд разработчиком в компании О!"}]
+    try {
+      const completion = await this.client.chat.completions.create({
+        model: this.model,
+        messages: [
+          {
+            role: 'system',
+            content: `Ты отвечаешь за переписку владельца в Telegram и решаешь, нужно ли ему срочно узнать о разговоре.
+
+Категории:
+- urgent: срочно нужен ответ или действие владельца (что-то случилось, горит дедлайн)
+- distress: человеку реально плохо (горе, паника, болезнь, опасность)
+- money: просят деньги, в долг, оплату, перевод
+- meeting: предлагают встретиться, созвониться, договариваются о времени
+- uncertain: бот не смог ответить по существу - вопрос, на который может ответить только сам владелец
+
+Обычная болтовня, приветствия, шутки и вопросы, на которые бот нормально ответил, - НЕ важны.
+summary - суть разговора в 1-2 предложениях на русском (пустая строка, если не важно).`,
+          },
+          {
+            role: 'user',
+            content: `Собеседник написал:\n${incoming.map((text) => `- ${text}`).join('\n')}\n\nБот ответил: ${reply ?? '(ничего)'}`,
+          },
+        ] as ChatCompletionMessageParam[],
+        max_tokens: 300,
+        temperature: 0.2,
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: 'importance',
+            strict: true,
+            schema: IMPORTANCE_SCHEMA,
+          },
+        },
+      });
+
+      const responseContent = completion.choices[0]?.message?.content;
+      if (!responseContent) {
+        this.logger.warn('No response from OpenAI for importance check');
+        return notImportant;
+      }
 
-Важно: отвечай ТОЛЬКО валидным JSON, без дополнительного текста.`,
+      const parsed = JSON.parse(responseContent.trim()) as ImportanceResult;
+      return {
+        important: Boolean(parsed.important),
+        categories: (parsed.categories ?? []).filter((category) =>
+          IMPORTANCE_CATEGORIES.includes(category),
+        ),
+        summary: parsed.summary ?? '',
       };
+    } catch (error) {
+      this.logger.error('Failed to classify message importance', error);
+      return notImportant;
+    }
+  }
 
-      // Конвертируем только последние 5-10 сообщений для анализа
-      const recentMessages = messages.slice(-10);
-      const messageTexts = recentMessages
-        .map((m) => {
-          const contentText =
-            typeof m.content === 'string'
-              ? m.content
-              : m.content
-                  .map((c) => (c.type === 'text' ? c.text : '[изображение]'))
-                  .join(' ');
-          return `${m.role}: ${contentText}`;
-        })
-        .join('\n');
+  /**
+   * Кратко пересказывает переписку за день для дайджеста владельцу
+   * @param transcript - переписка строками "Имя: текст" (ответы бота - "Я: текст")
+   */
+  async digestConversation(transcript: string): Promise<ConversationDigest> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: 'system',
+          content: `Ты готовишь владельцу Telegram вечерний дайджест переписки, которую за него вел бот ("Я" в переписке - это бот от имени владельца).
+
+- summary: о чем говорили, 1-3 предложения на русском
+- unanswered: вопросы и просьбы собеседника, на которые "Я" не ответил по существу или ответил уклончиво. Пустой массив, если таких нет
+
+Пиши коротко, без воды.`,
+        },
+        { role: 'user', content: transcript },
+      ] as ChatCompletionMessageParam[],
+      max_tokens: 500,
+      temperature: 0.3,
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'digest', strict: true, schema: DIGEST_SCHEMA },
+      },
+    });
+
+    const responseContent = completion.choices[0]?.message?.content;
+    if (!responseContent) {
+      throw new Error('No digest from OpenAI');
+    }
+
+    const parsed = JSON.parse(responseContent.trim()) as ConversationDigest;
+    return {
+      summary: parsed.summary ?? '',
+      unanswered: parsed.unanswered ?? [],
+    };
+  }
 
+  /**
+   * Находит обещания в ответе бота ("скину вечером", "давай в пятницу")
+   * @param incoming - сообщения собеседника, на которые бот ответил
+   * @param reply - ответ бота от имени владельца
+   * @param now - текущее время владельца в ISO 8601 со смещением
+   * @param existing - уже записанные открытые обещания этому собеседнику (чтобы не дублировать)
+   */
+  async extractCommitments(
+    incoming: string[],
+    reply: string,
+    now: string,
+    existing: string[],
+  ): Promise<ExtractedCommitment[]> {
+    try {
       const completion = await this.client.chat.completions.create({
         model: this.model,
         messages: [
-          factsPrompt,
+          {
+            role: 'system',
+            content: `Бот переписывается в Telegram от имени владельца. Найди в ответе бота обещания, которые теперь должен выполнить владелец: что-то скинуть, позвонить, встретиться, вернуть, сделать, ответить позже.
+
+- text: что обещано, коротко, в инфинитиве ("скинуть фото с дня рождения", "созвониться")
+- quote: фраза из ответа бота, где прозвучало обещание
+- due: срок в ISO 8601 со смещением владельца (например "2025-10-24T18:00+06:00"). Сейчас у владельца ${now}. "Вечером" - 19:00, "утром" - 10:00, "завтра" без времени - 12:00 завтрашнего дня, "щас"/"скоро" - через 15 минут. Пустая строка, если срока нет
+
+Вежливые фразы без конкретики ("как-нибудь увидимся", "буду рад") - не обещания. Если обещаний нет, верни пустой массив.${
+              existing.length > 0
+                ? `\n\nУже записанные обещания (не повторяй их):\n${existing.map((text) => `- ${text}`).join('\n')}`
+                : ''
+            }`,
+          },
           {
             role: 'user',
-            content: `Проанализируй разговор и извлеки факты:\n\n${messageTexts}`,
+            content: `Собеседник написал:\n${incoming.map((text) => `- ${text}`).join('\n')}\n\nБот ответил: ${reply}`,
           },
         ] as ChatCompletionMessageParam[],
-        max_tokens: 500,
-        temperature: 0.3,
+        max_tokens: 400,
+        temperature: 0.2,
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: 'commitments',
+            strict: true,
+            schema: COMMITMENTS_SCHEMA,
+          },
+        },
       });
 
       const responseContent = completion.choices[0]?.message?.content;
-
       if (!responseContent) {
-        this.logger.warn('No response from OpenAI for facts extraction');
+        this.logger.warn('No response from OpenAI for commitments extraction');
         return [];
       }
 
-      try {
-        // Парсим JSON ответ
-        const facts = JSON.parse(responseContent.trim());
+      const parsed = JSON.parse(responseContent.trim()) as {
+        commitments?: ExtractedCommitment[];
+      };
+      return (parsed.commitments ?? []).filter((item) => item.text?.trim());
+    } catch (error) {
+      this.logger.error('Failed to extract commitments', error);
+      return [];
+    }
+  }
 
-        if (!Array.isArray(facts)) {
-          this.logger.warn(
-            'Facts response is not an array, returning empty array',
-          );
-          return [];
-        }
+  /**
+   * Изменения фактов о собеседнике по последним сообщениям
+   * @param messages - сообщения с авторами ("Собеседник: ...", "Я: ..."), номера в ответе - с 1
+   * @param existing - уже известные факты ("[work/job] ..."), номера в ответе - с 1
+   */
+  async extractFacts(
+    messages: string[],
+    existing: string[],
+  ): Promise<ExtractedFactChange[]> {
+    try {
+      const completion = await this.client.chat.completions.create({
+        model: this.model,
+        messages: [
+          {
+            role: 'system',
+            content: `Ты ведешь записную книжку о собеседнике владельца: анализируешь переписку и обновляешь факты о нем и его близких.
+
+Категории:
+- birthday: дни рождения (свои или близких)
+- interests: интересы, хобби
+- plans: планы на будущее
+- work: работа, учеба
+- relationships: отношения (семья, друзья)
+- other: другие важные факты
+
+key - о ком или о чем факт внутри категории, коротко латиницей: "self", "mom", "brother_ivan", "climbing", "trip_japan". Разные люди и разные увлечения - разные ключи: день рождения мамы не заменяет день рождения собеседника, второе хобби не заменяет первое.
+
+Для каждого изменения:
+- action "add" - нового факта нет среди известных (existing = 0)
+- action "update" - известный факт изменился или уточнился (existing - его номер, fact - новая полная формулировка)
+- action "confirm" - известный факт снова упомянут без изменений (existing - его номер)
+- confidence: 0.9-1 - собеседник сказал прямо, 0.5-0.7 - следует из контекста, ниже - догадка
+- sources: номера сообщений, из которых это следует
+
+Не дублируй известные факты в "add" и не заменяй точный факт менее точным. Факты - только о собеседнике и его окружении, не о владельце ("Я"). Если менять нечего, верни пустой массив.${
+              existing.length > 0
+                ? `\n\nИзвестные факты:\n${existing.map((fact, index) => `${index + 1}. ${fact}`).join('\n')}`
+                : ''
+            }`,
+          },
+          {
+            role: 'user',
+            content: `Переписка:\n${messages.map((text, index) => `${index + 1}. ${text}`).join('\n')}`,
+          },
+        ] as ChatCompletionMessageParam[],
+        max_tokens: 800,
+        temperature: 0.2,
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: 'fact_changes',
+            strict: true,
+            schema: FACT_CHANGES_SCHEMA,
+          },
+        },
+      });
 
-        this.logger.log(`Extracted ${facts.length} facts from conversation`);
-        return facts;
-      } catch (parseError) {
-        this.logger.error(
-          'Failed to parse facts JSON, returning empty array',
-          parseError,
-        );
-        this.logger.debug(`Raw response: ${responseContent}`);
+      const responseContent = completion.choices[0]?.message?.content;
+      if (!responseContent) {
+        this.logger.warn('No response from OpenAI for facts extraction');
         return [];
       }
+
+      const parsed = JSON.parse(responseContent.trim()) as {
+        changes?: ExtractedFactChange[];
+      };
+      const changes = parsed.changes ?? [];
+      this.logger.log(`Extracted ${changes.length} fact changes`);
+      return changes;
     } catch (error) {
       this.logger.error('Failed to extract facts', error);
       return [];
     }
   }
+
+  /**
+   * Достает из факта конкретную дату события (день рождения, годовщина, экзамен, поездка)
+   * @param seenOn - дата, когда факт упоминался (для "завтра", "в субботу"), YYYY-MM-DD
+   * @returns null, если точной даты (день и месяц) в факте нет
+   */
+  async normalizeEventDate(
+    category: string,
+    fact: string,
+    seenOn: string,
+  ): Promise<NormalizedEvent | null> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: 'system',
+          content: `Из факта о собеседнике достань дату события, с которым его стоит поздравить или которому пожелать удачи.
+
+- isEvent: true, только если известны день и месяц. "Летом", "скоро", "в следующем году" - false
+- type: birthday - день рождения (его или близких), anniversary - годовщина (свадьбы, отношений), exam - экзамен, защита, собеседование, trip - поездка (дата начала), other - другое важное событие
+- title: что за событие, коротко, строчными: "день рождения", "день рождения мамы", "экзамен по вождению", "поездка в Японию"
+- year: год разового события (экзамен, поездка); для дней рождения и годовщин - 0. Если год не назван, выбери ближайший будущий относительно даты упоминания
+
+Факт упоминался ${seenOn}; относительные даты ("завтра", "в субботу") считай от нее. Если события нет, верни isEvent false и нули.`,
+        },
+        { role: 'user', content: `[${category}] ${fact}` },
+      ] as ChatCompletionMessageParam[],
+      max_tokens: 100,
+      temperature: 0,
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'event', strict: true, schema: EVENT_SCHEMA },
+      },
+    });
+
+    const responseContent = completion.choices[0]?.message?.content;
+    if (!responseContent) {
+      throw new Error('No event date from OpenAI');
+    }
+
+    const parsed = JSON.parse(responseContent.trim()) as NormalizedEvent & {
+      isEvent: boolean;
+    };
+    if (
+      !parsed.isEvent ||
+      parsed.month < 1 ||
+      parsed.month > 12 ||
+      parsed.day < 1 ||
+      parsed.day > 31
+    ) {
+      return null;
+    }
+
+    return {
+      type: parsed.type,
+      title: parsed.title,
+      month: parsed.month,
+      day: parsed.day,
+      year: parsed.year,
+    };
+  }
 }
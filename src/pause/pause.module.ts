@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+
+import { SharedQueueModule } from '../queue/shared-queue.module';
+
+import { PauseProcessor } from './pause.processor';
+import { PauseService } from './pause.service';
+
+@Module({
+  imports: [SharedQueueModule],
+  providers: [PauseService, PauseProcessor],
+  exports: [PauseService],
+})
+export class PauseModule {}
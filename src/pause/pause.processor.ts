@@ -0,0 +1,28 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import type { Job } from 'bull';
+
+import { MESSAGE_QUEUE } from '../queue/shared-queue.module';
+
+import { LIFT_PAUSE_JOB, LiftPauseJob, PauseService } from './pause.service';
+
+@Processor(MESSAGE_QUEUE)
+export class PauseProcessor {
+  private readonly logger = new Logger(PauseProcessor.name);
+
+  constructor(private readonly pauseService: PauseService) {}
+
+  @Process(LIFT_PAUSE_JOB)
+  async handleLiftPause(job: Job<LiftPauseJob>) {
+    try {
+      const lifted = await this.pauseService.liftExpired(job.data);
+      return { success: true, lifted };
+    } catch (error) {
+      this.logger.error(
+        `Error lifting pause ${job.data.conversationId ?? 'for all chats'}`,
+        error,
+      );
+      throw error;
+    }
+  }
+}
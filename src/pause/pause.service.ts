@@ -0,0 +1,208 @@
+import { InjectQueue } from '@nestjs/bull';
+import { Injectable, Logger } from '@nestjs/common';
+import type { Queue } from 'bull';
+
+import { PrismaService } from '../database/prisma.service';
+import { MESSAGE_QUEUE } from '../queue/shared-queue.module';
+import { OWNER_STATUS_ID } from '../schedule/schedule.service';
+
+export const LIFT_PAUSE_JOB = 'lift-pause';
+
+export interface LiftPauseJob {
+  conversationId?: string; // Пауза чата; без conversationId - общая пауза
+}
+
+export interface GlobalPause {
+  since: Date;
+  until: Date | null;
+  awayMessage: string | null;
+}
+
+/**
+ * Паузы ответов: для отдельного чата и общая ("отпуск")
+ * Паузы со сроком снимаются отложенной задачей в очереди; сама проверка
+ * паузы тоже учитывает срок, так что потерянная задача ничего не сломает
+ */
+@Injectable()
+export class PauseService {
+  private readonly logger = new Logger(PauseService.name);
+
+  constructor(
+    @InjectQueue(MESSAGE_QUEUE) private readonly messageQueue: Queue,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  /**
+   * Ставит чат на паузу
+   * @param until - когда снять паузу (null - бессрочно, до "продолжай")
+   */
+  async pauseChat(conversationId: string, until: Date | null) {
+    const conversation = await this.prisma.conversation.update({
+      where: { id: conversationId },
+      data: { isIgnored: true, ignoredUntil: until },
+    });
+    await this.scheduleLift({ conversationId }, until);
+
+    this.logger.log(
+      `Conversation ${conversationId} paused${until ? ` until ${until.toISOString()}` : ''}`,
+    );
+    return conversation;
+  }
+
+  /**
+   * Снимает паузу с чата
+   */
+  async resumeChat(conversationId: string) {
+    const conversation = await this.prisma.conversation.update({
+      where: { id: conversationId },
+      data: { isIgnored: false, ignoredUntil: null },
+    });
+    await this.scheduleLift({ conversationId }, null);
+
+    this.logger.log(`Conversation ${conversationId} resumed`);
+    return conversation;
+  }
+
+  /**
+   * Общая пауза всех чатов (режим "отпуск")
+   * @param awayMessage - автоответ, который получит каждый написавший (один раз за паузу)
+   */
+  async pauseAll(until: Date | null, awayMessage?: string): Promise<void> {
+    const data = {
+      pausedAt: new Date(),
+      pausedUntil: until,
+      awayMessage: awayMessage || null,
+    };
+    await this.prisma.ownerStatus.upsert({
+      where: { id: OWNER_STATUS_ID },
+      create: { id: OWNER_STATUS_ID, ...data },
+      update: data,
+    });
+    await this.scheduleLift({}, until);
+
+    this.logger.log(
+      `Global pause enabled${until ? ` until ${until.toISOString()}` : ''}${awayMessage ? ' with away message' : ''}`,
+    );
+  }
+
+  /**
+   * Снимает общую паузу
+   */
+  async resumeAll(): Promise<void> {
+    const data = { pausedAt: null, pausedUntil: null, awayMessage: null };
+    await this.prisma.ownerStatus.upsert({
+      where: { id: OWNER_STATUS_ID },
+      create: { id: OWNER_STATUS_ID, ...data },
+      update: data,
+    });
+    await this.scheduleLift({}, null);
+
+    this.logger.log('Global pause disabled');
+  }
+
+  /**
+   * Текущая общая пауза (null - не действует или уже истекла)
+   */
+  async getGlobalPause(now: Date = new Date()): Promise<GlobalPause | null> {
+    const status = await this.prisma.ownerStatus.findUnique({
+      where: { id: OWNER_STATUS_ID },
+    });
+
+    if (
+      !status?.pausedAt ||
+      (status.pausedUntil && status.pausedUntil <= now)
+    ) {
+      return null;
+    }
+
+    return {
+      since: status.pausedAt,
+      until: status.pausedUntil,
+      awayMessage: status.awayMessage,
+    };
+  }
+
+  /**
+   * Нужно ли отправить собеседнику автоответ общей паузы
+   * Отмечает отправку сразу, чтобы параллельные сообщения не получили его дважды
+   * @returns текст автоответа или null
+   */
+  async claimAwayMessage(conversationId: string): Promise<string | null> {
+    const pause = await this.getGlobalPause();
+    if (!pause?.awayMessage) {
+      return null;
+    }
+
+    const { count } = await this.prisma.conversation.updateMany({
+      where: {
+        id: conversationId,
+        OR: [{ awayNotifiedAt: null }, { awayNotifiedAt: { lt: pause.since } }],
+      },
+      data: { awayNotifiedAt: new Date() },
+    });
+
+    return count > 0 ? pause.awayMessage : null;
+  }
+
+  /**
+   * Снимает истекшую паузу (задача lift-pause)
+   * Срок сверяется с БД: пауза могла быть продлена или снята вручную
+   */
+  async liftExpired(job: LiftPauseJob): Promise<boolean> {
+    const now = new Date();
+
+    if (job.conversationId) {
+      const { count } = await this.prisma.conversation.updateMany({
+        where: {
+          id: job.conversationId,
+          isIgnored: true,
+          ignoredUntil: { lte: now },
+        },
+        data: { isIgnored: false, ignoredUntil: null },
+      });
+      if (count > 0) {
+        this.logger.log(`Pause expired for conversation ${job.conversationId}`);
+      }
+      return count > 0;
+    }
+
+    const { count } = await this.prisma.ownerStatus.updateMany({
+      where: {
+        id: OWNER_STATUS_ID,
+        pausedAt: { not: null },
+        pausedUntil: { lte: now },
+      },
+      data: { pausedAt: null, pausedUntil: null, awayMessage: null },
+    });
+    if (count > 0) {
+      this.logger.log('Global pause expired');
+    }
+    return count > 0;
+  }
+
+  /**
+   * Планирует снятие паузы (одна задача на чат: новая пауза заменяет старую)
+   */
+  private async scheduleLift(
+    job: LiftPauseJob,
+    until: Date | null,
+  ): Promise<void> {
+    const jobId = `${LIFT_PAUSE_JOB}:${job.conversationId ?? 'all'}`;
+
+    const existing = await this.messageQueue.getJob(jobId);
+    if (existing) {
+      await existing.remove();
+    }
+
+    if (!until) {
+      return;
+    }
+
+    await this.messageQueue.add(LIFT_PAUSE_JOB, job, {
+      jobId,
+      delay: Math.max(0, until.getTime() - Date.now()),
+      removeOnComplete: true,
+      removeOnFail: true,
+    });
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+
+import { PolicyService } from './policy.service';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [PolicyService],
+  exports: [PolicyService],
+})
+export class PolicyModule {}
@@ -0,0 +1,180 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { User } from '@prisma/client';
+import { Api } from 'telegram/tl';
+
+import { PrismaService } from '../database/prisma.service';
+
+import {
+  evaluateReplyPolicy,
+  PolicyAction,
+  PolicyDecision,
+  ReplyPolicyConfig,
+  ReplyPolicyMode,
+} from './reply-policy';
+
+// Уведомление о том же отправителе - не чаще раза в 6 часов
+const NOTIFY_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+export type ReplyListType = 'allow' | 'deny';
+
+const MODE_TITLES: Record<ReplyPolicyMode, string> = {
+  all: 'отвечать всем',
+  contacts: 'только контактам',
+  allowlist: 'только из allowlist',
+};
+
+const ACTION_TITLES: Record<PolicyAction, string> = {
+  reply: 'отвечать',
+  ignore: 'игнорировать',
+  read: 'только прочитать',
+  notify: 'сообщить мне',
+};
+
+export const RULE_TITLES: Record<string, string> = {
+  denylist: 'в denylist',
+  allowlist: 'в allowlist',
+  bot: 'бот',
+  spam: 'помечен Telegram как scam/fake',
+  'not-allowlisted': 'не в allowlist',
+  'mutual-contact': 'взаимный контакт',
+  contact: 'в контактах',
+  verified: 'верифицирован',
+  premium: 'Telegram Premium',
+  'not-contact': 'не в контактах',
+  unknown: 'незнакомец',
+};
+
+/**
+ * Политика автоответов: режим и правила из конфига, allowlist/denylist - в БД (User.replyList)
+ */
+@Injectable()
+export class PolicyService {
+  private readonly logger = new Logger(PolicyService.name);
+  private readonly config: ReplyPolicyConfig;
+  private readonly lastNotifiedAt = new Map<string, number>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+  ) {
+    const action = (key: string, defaultValue: PolicyAction) =>
+      this.configService.get<PolicyAction>(`policy.${key}`) ?? defaultValue;
+
+    this.config = {
+      mode: this.configService.get<ReplyPolicyMode>('policy.mode', 'all'),
+      deniedAction: action('deniedAction', 'notify'),
+      denylistAction: action('denylistAction', 'ignore'),
+      botAction: action('botAction', 'ignore'),
+      spamAction: action('spamAction', 'ignore'),
+      mutualContactAction: action('mutualContactAction', 'reply'),
+      contactAction: action('contactAction', 'reply'),
+      unknownAction: action('unknownAction', 'reply'),
+      verifiedAction: this.configService.get<PolicyAction>(
+        'policy.verifiedAction',
+      ),
+      premiumAction: this.configService.get<PolicyAction>(
+        'policy.premiumAction',
+      ),
+    };
+
+    this.logger.log(`Reply policy initialized: mode=${this.config.mode}`);
+  }
+
+  /**
+   * Решает, что делать с сообщением от собеседника
+   * Allowlist/denylist берется из существующей записи: новых пользователей не создает
+   */
+  async evaluate(sender: Api.User): Promise<PolicyDecision> {
+    const user = await this.prisma.user.findUnique({
+      where: { telegramId: BigInt(sender.id.toString()) },
+      select: { replyList: true },
+    });
+
+    return evaluateReplyPolicy(
+      {
+        isContact: Boolean(sender.contact),
+        isMutualContact: Boolean(sender.mutualContact),
+        isBot: Boolean(sender.bot),
+        isVerified: Boolean(sender.verified),
+        isPremium: Boolean(sender.premium),
+        isSpam: Boolean(sender.scam || sender.fake),
+        listed: (user?.replyList as ReplyListType | null) ?? undefined,
+      },
+      this.config,
+    );
+  }
+
+  /**
+   * Можно ли снова уведомить владельца об этом отправителе (не чаще NOTIFY_INTERVAL_MS)
+   */
+  shouldNotify(telegramId: bigint): boolean {
+    const key = telegramId.toString();
+    const now = Date.now();
+    const last = this.lastNotifiedAt.get(key);
+    if (last && now - last < NOTIFY_INTERVAL_MS) {
+      return false;
+    }
+
+    this.lastNotifiedAt.set(key, now);
+    return true;
+  }
+
+  /**
+   * Добавляет собеседника в allowlist / denylist (null - убрать из списков)
+   */
+  async setReplyList(
+    telegramId: bigint,
+    list: ReplyListType | null,
+  ): Promise<void> {
+    await this.prisma.user.update({
+      where: { telegramId },
+      data: { replyList: list },
+    });
+    this.logger.log(`User ${telegramId} reply list set to ${list ?? 'none'}`);
+  }
+
+  /**
+   * Описание политики для owner команды "политика"
+   */
+  async describe(): Promise<string> {
+    const listed = await this.prisma.user.findMany({
+      where: { replyList: { not: null } },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    const rules = [
+      ['бот', this.config.botAction],
+      ['scam/fake', this.config.spamAction],
+      ['взаимный контакт', this.config.mutualContactAction],
+      ['в контактах', this.config.contactAction],
+      ['незнакомец с галочкой', this.config.verifiedAction],
+      ['незнакомец с Premium', this.config.premiumAction],
+      ['незнакомец', this.config.unknownAction],
+      ['не прошел режим', this.config.deniedAction],
+      ['в denylist', this.config.denylistAction],
+    ] as const;
+
+    const formatUser = (user: User) =>
+      `${[user.firstName, user.lastName].filter(Boolean).join(' ') || 'Без имени'}${user.username ? ` @${user.username}` : ''} (\`${user.telegramId}\`)`;
+    const list = (type: ReplyListType) =>
+      listed
+        .filter((user) => user.replyList === type)
+        .map((user) => `• ${formatUser(user)}`)
+        .join('\n') || '• пусто';
+
+    return `**Режим:** ${MODE_TITLES[this.config.mode]}
+
+**Правила:**
+${rules
+  .filter(([, action]) => action)
+  .map(([title, action]) => `• ${title} - ${ACTION_TITLES[action!]}`)
+  .join('\n')}
+
+**Allowlist:**
+${list('allow')}
+
+**Denylist:**
+${list('deny')}`;
+  }
+}
@@ -0,0 +1,115 @@
+import {
+  evaluateReplyPolicy,
+  ReplyPolicyConfig,
+  SenderTraits,
+} from './reply-policy';
+
+const config: ReplyPolicyConfig = {
+  mode: 'all',
+  deniedAction: 'ignore',
+  denylistAction: 'read',
+  botAction: 'ignore',
+  spamAction: 'notify',
+  mutualContactAction: 'reply',
+  contactAction: 'reply',
+  unknownAction: 'notify',
+};
+
+const stranger: SenderTraits = {
+  isContact: false,
+  isMutualContact: false,
+  isBot: false,
+  isVerified: false,
+  isPremium: false,
+  isSpam: false,
+};
+
+describe('evaluateReplyPolicy', () => {
+  it('puts manual lists before everything else', () => {
+    expect(
+      evaluateReplyPolicy(
+        { ...stranger, isMutualContact: true, listed: 'deny' },
+        config,
+      ),
+    ).toEqual({ action: 'read', rule: 'denylist' });
+    expect(
+      evaluateReplyPolicy(
+        { ...stranger, isBot: true, listed: 'allow' },
+        { ...config, mode: 'allowlist' },
+      ),
+    ).toEqual({ action: 'reply', rule: 'allowlist' });
+  });
+
+  it('checks bots and spam before contacts', () => {
+    expect(
+      evaluateReplyPolicy(
+        { ...stranger, isBot: true, isContact: true },
+        config,
+      ),
+    ).toEqual({ action: 'ignore', rule: 'bot' });
+    expect(
+      evaluateReplyPolicy(
+        { ...stranger, isSpam: true, isContact: true },
+        config,
+      ),
+    ).toEqual({ action: 'notify', rule: 'spam' });
+  });
+
+  it('denies everyone not in the allowlist in allowlist mode', () => {
+    expect(
+      evaluateReplyPolicy(
+        { ...stranger, isContact: true, isMutualContact: true },
+        { ...config, mode: 'allowlist' },
+      ),
+    ).toEqual({ action: 'ignore', rule: 'not-allowlisted' });
+  });
+
+  it('distinguishes mutual and one-way contacts', () => {
+    const contactConfig: ReplyPolicyConfig = {
+      ...config,
+      contactAction: 'read',
+    };
+
+    expect(
+      evaluateReplyPolicy(
+        { ...stranger, isContact: true, isMutualContact: true },
+        contactConfig,
+      ),
+    ).toEqual({ action: 'reply', rule: 'mutual-contact' });
+    expect(
+      evaluateReplyPolicy({ ...stranger, isContact: true }, contactConfig),
+    ).toEqual({ action: 'read', rule: 'contact' });
+  });
+
+  it('applies verified and premium rules to strangers only when configured', () => {
+    const verified = { ...stranger, isVerified: true, isPremium: true };
+
+    expect(evaluateReplyPolicy(verified, config)).toEqual({
+      action: 'notify',
+      rule: 'unknown',
+    });
+    expect(
+      evaluateReplyPolicy(verified, {
+        ...config,
+        verifiedAction: 'reply',
+        premiumAction: 'read',
+      }),
+    ).toEqual({ action: 'reply', rule: 'verified' });
+    expect(
+      evaluateReplyPolicy(
+        { ...stranger, isPremium: true },
+        { ...config, mode: 'contacts', premiumAction: 'read' },
+      ),
+    ).toEqual({ action: 'read', rule: 'premium' });
+  });
+
+  it('handles strangers by mode', () => {
+    expect(
+      evaluateReplyPolicy(stranger, { ...config, mode: 'contacts' }),
+    ).toEqual({ action: 'ignore', rule: 'not-contact' });
+    expect(evaluateReplyPolicy(stranger, config)).toEqual({
+      action: 'notify',
+      rule: 'unknown',
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Политика автоответов: кому из написавших в личку отвечает AI
+ * Правила проверяются по порядку, первое подходящее определяет действие
+ */
+
+// all - всем, contacts - только контактам, allowlist - только из allowlist ("разрешить")
+export type ReplyPolicyMode = 'all' | 'contacts' | 'allowlist';
+
+// reply - отвечать, ignore - не читать и не отвечать,
+// read - только прочитать, notify - не отвечать и сообщить владельцу
+export type PolicyAction = 'reply' | 'ignore' | 'read' | 'notify';
+
+export const POLICY_ACTIONS: PolicyAction[] = [
+  'reply',
+  'ignore',
+  'read',
+  'notify',
+];
+
+export interface ReplyPolicyConfig {
+  mode: ReplyPolicyMode;
+  deniedAction: PolicyAction; // Не прошел режим (не контакт / не в allowlist)
+  denylistAction: PolicyAction; // В denylist ("запретить")
+  botAction: PolicyAction;
+  spamAction: PolicyAction; // Telegram пометил аккаунт как scam/fake
+  mutualContactAction: PolicyAction;
+  contactAction: PolicyAction; // В контактах, но не взаимно
+  unknownAction: PolicyAction; // Не в контактах (режим all)
+  verifiedAction?: PolicyAction; // Незнакомец с галочкой (без значения - нет правила)
+  premiumAction?: PolicyAction; // Незнакомец с Telegram Premium (без значения - нет правила)
+}
+
+/**
+ * Признаки отправителя: из Telegram (Api.User) и ручные списки владельца
+ */
+export interface SenderTraits {
+  isContact: boolean;
+  isMutualContact: boolean;
+  isBot: boolean;
+  isVerified: boolean;
+  isPremium: boolean;
+  isSpam: boolean;
+  listed?: 'allow' | 'deny'; // Ручной allowlist / denylist
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  rule: string; // Сработавшее правило (для логов и уведомлений)
+}
+
+/**
+ * Определяет действие для отправителя
+ */
+export function evaluateReplyPolicy(
+  traits: SenderTraits,
+  config: ReplyPolicyConfig,
+): PolicyDecision {
+  if (traits.listed === 'deny') {
+    return { action: config.denylistAction, rule: 'denylist' };
+  }
+  if (traits.listed === 'allow') {
+    return { action: 'reply', rule: 'allowlist' };
+  }
+  if (traits.isBot) {
+    return { action: config.botAction, rule: 'bot' };
+  }
+  if (traits.isSpam) {
+    return { action: config.spamAction, rule: 'spam' };
+  }
+  if (config.mode === 'allowlist') {
+    return { action: config.deniedAction, rule: 'not-allowlisted' };
+  }
+  if (traits.isMutualContact) {
+    return { action: config.mutualContactAction, rule: 'mutual-contact' };
+  }
+  if (traits.isContact) {
+    return { action: config.contactAction, rule: 'contact' };
+  }
+
+  // Дальше - незнакомцы (не в контактах)
+  if (traits.isVerified && config.verifiedAction) {
+    return { action: config.verifiedAction, rule: 'verified' };
+  }
+  if (traits.isPremium && config.premiumAction) {
+    return { action: config.premiumAction, rule: 'premium' };
+  }
+  if (config.mode === 'contacts') {
+    return { action: config.deniedAction, rule: 'not-contact' };
+  }
+
+  return { action: config.unknownAction, rule: 'unknown' };
+}
@@ -3,18 +3,61 @@ import { Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import type { Job } from 'bull';
 
-import { ConversationService } from '../conversation/conversation.service';
+import { CommitmentsService } from '../commitments/commitments.service';
+import { ContextBuilderService } from '../conversation/context-builder.service';
+import {
+  ConversationService,
+  MessageMediaType,
+} from '../conversation/conversation.service';
 import { FactsService } from '../conversation/facts.service';
-import { OpenAIService } from '../openai/openai.service';
+import { PersonaService } from '../conversation/persona.service';
+import { ReplyDraftService } from '../conversation/reply-draft.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  ChatMessage,
+  OpenAIService,
+  PromptContext,
+} from '../openai/openai.service';
+import { PauseService } from '../pause/pause.service';
 import { RateLimitService } from '../rate-limit/rate-limit.service';
 import { TelegramService } from '../telegram/telegram.service';
+import { isPauseActive } from '../utils/pause-duration';
 import { getTypoFixDelay, introduceTypo } from '../utils/typo-generator';
 
 import { MESSAGE_QUEUE } from './shared-queue.module';
 
+interface OutgoingMessage {
+  text: string;
+  replyToMessageId?: number; // Ответить на конкретное сообщение собеседника
+}
+
+type StickerReplyMode = 'reaction' | 'sticker' | 'text';
+
+// Эмодзи, доступные как реакции в Telegram (без вариационного селектора)
+const REACTION_EMOJIS = [
+  '👍',
+  '❤',
+  '🔥',
+  '😁',
+  '🤣',
+  '👏',
+  '🎉',
+  '😢',
+  '🤔',
+  '👌',
+  '😍',
+  '🙏',
+];
+const DEFAULT_REACTION_EMOJIS = ['👍', '❤', '😁', '🔥'];
+
 export interface MessageJob {
   userId: string;
-  telegramId: number;
+  telegramId: number; // Куда отвечать: ID пользователя или группового чата
+  chatId?: string; // Telegram ID группового чата (только для групп)
+}
+
+export interface DraftDeliveryJob {
+  draftId: string; // Одобренный владельцем черновик ответа
 }
 
 @Processor(MESSAGE_QUEUE)
@@ -23,6 +66,8 @@ export class MessageProcessor {
   private readonly typoProbability: number;
   private readonly typoFixDelayMin: number;
   private readonly typoFixDelayMax: number;
+  private readonly stickerReplyMode: string;
+  private readonly ownerTelegramId?: string;
 
   constructor(
     private readonly conversationService: ConversationService,
@@ -31,7 +76,16 @@ export class MessageProcessor {
     private readonly rateLimitService: RateLimitService,
     private readonly configService: ConfigService,
     private readonly factsService: FactsService,
+    private readonly personaService: PersonaService,
+    private readonly replyDraftService: ReplyDraftService,
+    private readonly pauseService: PauseService,
+    private readonly notificationsService: NotificationsService,
+    private readonly commitmentsService: CommitmentsService,
+    private readonly contextBuilderService: ContextBuilderService,
   ) {
+    this.ownerTelegramId = this.configService.get<string>(
+      'bot.ownerTelegramId',
+    );
     this.typoProbability = this.configService.get<number>(
       'typo.probability',
       0.15,
@@ -44,27 +98,21 @@ export class MessageProcessor {
       'typo.fixDelayMax',
       3,
     );
+    this.stickerReplyMode = this.configService.get<string>(
+      'stickers.replyMode',
+      'random',
+    );
   }
 
   /**
-   * Извлекает факты из разговора и сохраняет их
+   * Обновляет факты о собеседнике по свежей переписке
    */
   private async extractAndSaveFacts(
     userId: string,
-    contextMessages: any[],
+    conversationId: string,
   ): Promise<void> {
     try {
-      // Извлекаем факты через OpenAI
-      const extractedFacts =
-        await this.openaiService.extractFacts(contextMessages);
-
-      if (extractedFacts.length > 0) {
-        // Сохраняем факты
-        await this.factsService.saveFactsForUser(userId, extractedFacts);
-        this.logger.log(
-          `Extracted and saved ${extractedFacts.length} facts for user ${userId}`,
-        );
-      }
+      await this.factsService.extractFromConversation(userId, conversationId);
     } catch (error) {
       this.logger.error(
         `Failed to extract and save facts for user ${userId}`,
@@ -150,6 +198,205 @@ export class MessageProcessor {
     return messages;
   }
 
+  /**
+   * Выбирает, как ответить на стикер: реакцией, стикером или текстом
+   */
+  private chooseStickerReplyMode(): StickerReplyMode {
+    if (this.stickerReplyMode !== 'random') {
+      return this.stickerReplyMode as StickerReplyMode;
+    }
+
+    const roll = Math.random();
+    if (roll < 0.5) return 'reaction';
+    if (roll < 0.75) return 'sticker';
+    return 'text';
+  }
+
+  /**
+   * Отвечает на стикер реакцией или стикером (без генерации текста)
+   * Если стикерпак не настроен, вместо стикера ставится реакция
+   */
+  private async replyToSticker(
+    telegramId: number,
+    conversationId: string,
+    sticker: { telegramMessageId: number; transcript: string | null },
+    mode: 'reaction' | 'sticker',
+  ): Promise<void> {
+    const emoji = sticker.transcript?.replace(/\uFE0F/g, '') || undefined;
+
+    if (mode === 'sticker') {
+      const sent = await this.telegramService.sendSticker(telegramId, emoji);
+      if (sent) {
+        await this.conversationService.saveMessage(
+          conversationId,
+          'assistant',
+          '',
+          undefined,
+          [],
+          [],
+          { mediaType: 'sticker', transcript: emoji },
+        );
+        this.logger.log(`Replied to sticker with a sticker (${emoji ?? '?'})`);
+        return;
+      }
+    }
+
+    const reaction =
+      emoji && REACTION_EMOJIS.includes(emoji)
+        ? emoji
+        : DEFAULT_REACTION_EMOJIS[
+            Math.floor(Math.random() * DEFAULT_REACTION_EMOJIS.length)
+          ];
+
+    await this.telegramService.sendReaction(
+      telegramId,
+      sticker.telegramMessageId,
+      reaction,
+    );
+    await this.conversationService.saveMessage(
+      conversationId,
+      'assistant',
+      '',
+      undefined,
+      [],
+      [],
+      { mediaType: 'reaction', transcript: reaction },
+    );
+    this.logger.log(`Replied to sticker with reaction ${reaction}`);
+  }
+
+  /**
+   * Отправляет сообщения с "печатает...", опечатками и паузами между ними
+   */
+  private async sendTextMessages(
+    telegramId: number,
+    messages: OutgoingMessage[],
+  ): Promise<void> {
+    for (let i = 0; i < messages.length; i++) {
+      const { text: msg, replyToMessageId } = messages[i];
+
+      // Рассчитать время "печатает..." для этого сообщения
+      // Примерная скорость: 50 символов в секунду
+      const typingDurationMs = Math.min(
+        Math.max((msg.length / 50) * 1000, 1000), // минимум 1 секунда
+        10000, // максимум 10 секунд
+      );
+
+      this.logger.debug(
+        `Sending message ${i + 1}/${messages.length}: "${msg}" (${msg.length} chars, ${Math.round(typingDurationMs / 1000)}s typing)`,
+      );
+
+      // Показать "печатает..."
+      await this.telegramService.setTyping(telegramId, true);
+      await new Promise((resolve) => setTimeout(resolve, typingDurationMs));
+
+      // Проверяем, нужно ли добавить опечатку
+      const typoResult = introduceTypo(msg, this.typoProbability);
+
+      if (typoResult.hasTypo && typoResult.originalText) {
+        // Отправляем сообщение с опечаткой
+        this.logger.debug(
+          `Sending message with typo: "${typoResult.text}" (original: "${typoResult.originalText}")`,
+        );
+        const messageId = await this.telegramService.sendMessage(
+          telegramId,
+          typoResult.text,
+          replyToMessageId,
+        );
+
+        // Ждем случайное время перед исправлением
+        const fixDelay = getTypoFixDelay(
+          this.typoFixDelayMin,
+          this.typoFixDelayMax,
+        );
+        this.logger.debug(
+          `Waiting ${fixDelay}ms before fixing typo in message ${messageId}`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, fixDelay));
+
+        // Исправляем опечатку
+        this.logger.debug(`Fixing typo in message ${messageId}`);
+        await this.telegramService.editMessage(
+          telegramId,
+          messageId,
+          typoResult.originalText,
+        );
+      } else {
+        // Отправляем сообщение без опечатки
+        await this.telegramService.sendMessage(
+          telegramId,
+          msg,
+          replyToMessageId,
+        );
+      }
+
+      // Небольшая пауза между сообщениями (0.5-1.5 секунды)
+      if (i < messages.length - 1) {
+        const pauseMs = 500 + Math.random() * 1000;
+        this.logger.debug(
+          `Pausing ${Math.round(pauseMs)}ms before next message`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, pauseMs));
+      }
+    }
+  }
+
+  /**
+   * Приводит эмодзи к доступной в Telegram реакции (недоступные заменяет на 👍)
+   */
+  private normalizeReaction(emoji: string): string {
+    const normalized = emoji.replace(/\uFE0F/g, '');
+    return REACTION_EMOJIS.includes(normalized) ? normalized : '👍';
+  }
+
+  /**
+   * Сохраняет черновик ответа и отправляет его владельцу на одобрение
+   */
+  private async sendDraftForApproval(
+    conversationId: string,
+    user: {
+      telegramId: bigint;
+      firstName: string | null;
+      username: string | null;
+    },
+    incoming: string[],
+    messages: OutgoingMessage[],
+  ): Promise<void> {
+    const draft = await this.replyDraftService.createDraft(
+      conversationId,
+      user.telegramId,
+      messages.map((msg) => msg.text),
+      messages[0]?.replyToMessageId,
+    );
+
+    const contactName =
+      user.firstName ||
+      (user.username ? `@${user.username}` : user.telegramId.toString());
+    const control = await this.telegramService.sendToControlChat(
+      this.replyDraftService.formatDraft(contactName, incoming, draft.messages),
+    );
+    await this.replyDraftService.setControlMessage(
+      draft.id,
+      control.chatId,
+      control.messageId,
+    );
+
+    this.logger.log(
+      `Draft ${draft.id} for user ${user.telegramId} sent for approval`,
+    );
+  }
+
+  /**
+   * Получает pending сообщения задачи: личного чата или группы
+   */
+  private async getPendingMessagesForJob(job: MessageJob) {
+    return job.chatId
+      ? await this.conversationService.getPendingMessagesForChat(
+          BigInt(job.chatId),
+        )
+      : await this.conversationService.getPendingMessages(job.userId);
+  }
+
   @Process('process-message')
   async handleMessage(job: Job<MessageJob>) {
     this.logger.log(
@@ -158,17 +405,25 @@ export class MessageProcessor {
 
     try {
       const { userId, telegramId } = job.data;
-
-      // 0. Проверить, не находится ли чат в игнор-листе
-      const isIgnored =
-        await this.conversationService.isConversationIgnored(userId);
-      if (isIgnored) {
+      const groupChatId = job.data.chatId ? BigInt(job.data.chatId) : null;
+      const groupConversation = groupChatId
+        ? await this.conversationService.findGroupConversation(groupChatId)
+        : null;
+
+      // 0. Проверить, не находится ли чат в игнор-листе или на общей паузе
+      const isIgnored = groupChatId
+        ? !groupConversation?.groupRepliesEnabled ||
+          isPauseActive(groupConversation)
+        : await this.conversationService.isConversationIgnored(userId);
+      const isGloballyPaused =
+        String(telegramId) !== this.ownerTelegramId &&
+        Boolean(await this.pauseService.getGlobalPause());
+      if (isIgnored || isGloballyPaused) {
         this.logger.debug(
-          `Conversation with user ${userId} is ignored, skipping processing`,
+          `Conversation with ${groupChatId ? `group ${groupChatId}` : `user ${userId}`} is ${isIgnored ? 'ignored' : 'on global pause'}, skipping processing`,
         );
         // Помечаем pending сообщения как обработанные, чтобы они не накапливались
-        const pendingMessages =
-          await this.conversationService.getPendingMessages(userId);
+        const pendingMessages = await this.getPendingMessagesForJob(job.data);
         if (pendingMessages.length > 0) {
           const pendingMessageIds = pendingMessages.map((msg) => msg.id);
           await this.conversationService.markPendingMessagesAsProcessed(
@@ -179,8 +434,7 @@ export class MessageProcessor {
       }
 
       // 1. Получить все непрочитанные сообщения от пользователя из PendingMessage
-      const pendingMessages =
-        await this.conversationService.getPendingMessages(userId);
+      const pendingMessages = await this.getPendingMessagesForJob(job.data);
 
       if (pendingMessages.length === 0) {
         this.logger.debug(`No pending messages for user ${userId}`);
@@ -189,32 +443,88 @@ export class MessageProcessor {
 
       this.logger.debug(`Found ${pendingMessages.length} pending messages`);
 
-      // 2. Найти или создать диалог
+      // 2. Найти или создать диалог (для групп - диалог группового чата)
       const conversation =
-        await this.conversationService.findOrCreateConversation(userId);
+        groupConversation ??
+        (await this.conversationService.findOrCreateConversation(userId));
+
+      // 2.5. Пока владелец спал или был занят, сообщения оставались непрочитанными
+      if (!groupChatId) {
+        await this.telegramService.markAsRead(telegramId);
+      }
 
       // 3. Сохранить все pending сообщения в диалог
       for (const pendingMsg of pendingMessages) {
-        await this.conversationService.saveMessage(
+        const savedMessage = await this.conversationService.saveMessage(
           conversation.id,
           'user',
           pendingMsg.content,
-          pendingMsg.telegramMessageId,
+          pendingMsg.telegramMessageId ?? undefined,
           pendingMsg.imageUrls,
-          pendingMsg.imageBase64 || undefined,
+          [], // Вложения переносим из pending ниже, без повторной записи base64
+          {
+            mediaType: (pendingMsg.mediaType as MessageMediaType) || undefined,
+            transcript: pendingMsg.transcript,
+            senderName: pendingMsg.senderName,
+            senderTelegramId: groupChatId ? pendingMsg.telegramId : null,
+            replyToMessageId: pendingMsg.replyToMessageId,
+            quoteText: pendingMsg.quoteText,
+          },
+        );
+        await this.conversationService.movePendingAttachments(
+          pendingMsg.id,
+          savedMessage.id,
+        );
+      }
+
+      // 3.5. Прислали только стикер(ы): отвечаем реакцией, стикером или коротким текстом
+      const isStickerOnly = pendingMessages.every(
+        (msg) =>
+          msg.mediaType === 'sticker' &&
+          !msg.content.trim() &&
+          !msg.isOwnerMessage,
+      );
+      // В режиме одобрения реакцию и стикер не отправить черновиком - отвечаем текстом
+      const stickerApprovalMode =
+        isStickerOnly &&
+        !groupChatId &&
+        (await this.replyDraftService.isApprovalEnabled(userId));
+      const stickerReplyMode = isStickerOnly
+        ? stickerApprovalMode
+          ? 'text'
+          : this.chooseStickerReplyMode()
+        : null;
+
+      const lastSticker = pendingMessages[pendingMessages.length - 1];
+      if (
+        stickerReplyMode &&
+        stickerReplyMode !== 'text' &&
+        lastSticker.telegramMessageId !== null
+      ) {
+        await this.replyToSticker(
+          telegramId,
+          conversation.id,
+          {
+            telegramMessageId: lastSticker.telegramMessageId,
+            transcript: lastSticker.transcript,
+          },
+          stickerReplyMode,
         );
+        await this.conversationService.markPendingMessagesAsProcessed(
+          pendingMessages.map((msg) => msg.id),
+        );
+        return { success: true, stickerReply: stickerReplyMode };
       }
 
-      // 4. Загрузить контекст разговора (summary + последние N сообщений)
-      const contextMessages =
-        await this.conversationService.getConversationContext(conversation.id);
+      // 4. Системные пометки к новым сообщениям (входят в контекст всегда)
+      const contextNotes: ChatMessage[] = [];
 
       // 4.1. Проверить, есть ли среди pending сообщений owner messages
       const hasOwnerMessage = pendingMessages.some((msg) => msg.isOwnerMessage);
 
       // 4.2. Если есть owner message, добавить системное сообщение
       if (hasOwnerMessage) {
-        contextMessages.push({
+        contextNotes.push({
           role: 'system',
           content:
             'ВАЖНО: Следующее сообщение от владельца бота (Kanat Sydykov). Он обращается к тебе напрямую. Отвечай ему как личному ассистенту, помогай с задачами, выполняй его запросы.',
@@ -222,41 +532,68 @@ export class MessageProcessor {
         this.logger.debug('Added owner message context to AI prompt');
       }
 
-      // 4.25. Загружаем факты о пользователе и добавляем в контекст
-      const userFacts = await this.factsService.getFactsForUser(userId);
-      if (userFacts.length > 0) {
-        const factsContext = this.factsService.formatFactsForContext(userFacts);
-        contextMessages.push({
+      // 4.15. Групповой чат: объясняем модели, где она и кто к ней обращается
+      if (groupConversation) {
+        const senderNames = [
+          ...new Set(pendingMessages.map((msg) => msg.senderName)),
+        ].filter(Boolean);
+        contextNotes.push({
           role: 'system',
-          content: factsContext,
+          content: `Это групповой чат "${groupConversation.title || 'без названия'}". Сообщения участников подписаны именами. К тебе обратились: ${senderNames.join(', ')}. Отвечай коротко и только на то, что адресовано тебе.`,
         });
-        this.logger.debug(`Added ${userFacts.length} user facts to AI context`);
       }
 
-      // 4.3. УМНАЯ ЗАДЕРЖКА: Ждем пока пользователь перестанет печатать + 5 секунд
-      this.logger.log(
-        `Waiting for user ${telegramId} to stop typing before responding...`,
-      );
-      const waited = await this.rateLimitService.waitForUserToStopTyping(
-        BigInt(telegramId),
-        60000, // максимум 1 минута ждем
-      );
+      // 4.16. На стикер отвечаем текстом - но коротко, как на стикер
+      if (stickerReplyMode === 'text') {
+        contextNotes.push({
+          role: 'system',
+          content:
+            'Собеседник прислал только стикер. Ответь очень коротко: пара слов или эмодзи.',
+        });
+      }
 
-      if (!waited) {
-        this.logger.warn(
-          `Timeout waiting for user ${telegramId}, responding anyway`,
-        );
-      } else {
+      // 4.21. Новые сообщения с ID: на них модель может ответить отдельно или поставить реакцию
+      // (служебные пометки без ID - например, о правке - в список не входят)
+      const batchList = pendingMessages
+        .filter((msg) => msg.telegramMessageId !== null)
+        .map(
+          (msg) =>
+            `#${msg.telegramMessageId}: "${(msg.content || `[${msg.mediaType ?? 'медиа'}]`).substring(0, 100)}"`,
+        )
+        .join('\n');
+      if (batchList) {
+        contextNotes.push({
+          role: 'system',
+          content: `Новые сообщения собеседника (ID для действий):\n${batchList}`,
+        });
+      }
+
+      // 4.3. УМНАЯ ЗАДЕРЖКА: Ждем пока пользователь перестанет печатать + 5 секунд
+      // (статус "печатает" отслеживаем только в личных чатах)
+      if (!groupChatId) {
         this.logger.log(
-          `User ${telegramId} stopped typing, generating response`,
+          `Waiting for user ${telegramId} to stop typing before responding...`,
         );
+        const waited = await this.rateLimitService.waitForUserToStopTyping(
+          BigInt(telegramId),
+          60000, // максимум 1 минута ждем
+        );
+
+        if (!waited) {
+          this.logger.warn(
+            `Timeout waiting for user ${telegramId}, responding anyway`,
+          );
+        } else {
+          this.logger.log(
+            `User ${telegramId} stopped typing, generating response`,
+          );
+        }
       }
 
       // 4.5. ВАЖНО: Проверяем pending messages еще раз
       // Могли быть отменены пока ждали (если владелец сам ответил)
       const pendingMessageIds = pendingMessages.map((msg) => msg.id);
-      const stillPending =
-        await this.conversationService.getPendingMessages(userId);
+      const stillPending = await this.getPendingMessagesForJob(job.data);
       const stillPendingIds = pendingMessageIds.filter((id) =>
         stillPending.find((msg) => msg.id === id),
       );
@@ -275,13 +612,47 @@ export class MessageProcessor {
       }
 
       // 5. Получить информацию о пользователе для передачи имени
-      const user = await this.conversationService.getUserById(userId);
+      // (в группах собеседников несколько - имена уже есть в сообщениях)
+      const user = groupChatId
+        ? null
+        : await this.conversationService.getUserById(userId);
       const userName = user?.firstName || undefined;
 
       if (userName) {
         this.logger.debug(`User name: ${userName}`);
       }
 
+      // 5.1. Персона и персональный контекст собеседника
+      const persona = user
+        ? await this.personaService.getPersonaForUser(userId)
+        : null;
+      const promptContext: PromptContext = {
+        personaPrompt: persona
+          ? this.personaService.formatPersonaForPrompt(persona)
+          : undefined,
+        customContext: user?.customContext,
+      };
+
+      if (persona) {
+        this.logger.debug(`Using persona "${persona.name}" for user ${userId}`);
+      }
+
+      // 5.2. Контекст в пределах бюджета токенов: резюме, последние сообщения,
+      // пометки, факты и фрагменты долгой памяти
+      const { messages: contextMessages } =
+        await this.contextBuilderService.build({
+          conversationId: conversation.id,
+          userId: groupChatId ? undefined : userId,
+          systemPrompt: this.openaiService.buildSystemPrompt(
+            userName,
+            promptContext,
+          ),
+          notes: contextNotes,
+          memoryQuery: pendingMessages
+            .map((msg) => msg.content || msg.transcript || '')
+            .join('\n'),
+        });
+
       // 6. Показываем "печатает..." пока генерируем ответ (более естественно)
       await this.telegramService.setTyping(telegramId, true);
 
@@ -290,89 +661,143 @@ export class MessageProcessor {
       const aiResponse = await this.openaiService.generateResponse(
         contextMessages,
         userName,
+        promptContext,
       );
 
-      // 8. Пост-обработка текста (убираем точки, случайно удаляем запятые)
-      const processedText = this.postProcessText(aiResponse.content);
-
-      // 9. Разделяем на несколько сообщений (как люди пишут)
-      const messages = this.splitIntoMessages(processedText);
-
-      this.logger.debug(
-        `Generated response: ${aiResponse.content.length} chars, split into ${messages.length} message(s)`,
-      );
-
-      // 10. Отправляем каждое сообщение с реалистичными задержками
-      for (let i = 0; i < messages.length; i++) {
-        const msg = messages[i];
-
-        // Рассчитать время "печатает..." для этого сообщения
-        // Примерная скорость: 50 символов в секунду
-        const typingDurationMs = Math.min(
-          Math.max((msg.length / 50) * 1000, 1000), // минимум 1 секунда
-          10000, // максимум 10 секунд
-        );
-
-        this.logger.debug(
-          `Sending message ${i + 1}/${messages.length}: "${msg}" (${msg.length} chars, ${Math.round(typingDurationMs / 1000)}s typing)`,
+      // 8. Выполняем действия модели по порядку: сообщения, реакции, стикеры или молчание
+      const allowedMessageIds = stillPending
+        .filter((msg) => stillPendingIds.includes(msg.id))
+        .flatMap((msg) =>
+          msg.telegramMessageId !== null ? [msg.telegramMessageId] : [],
         );
+      const lastMessageId = allowedMessageIds[allowedMessageIds.length - 1];
+      const toAllowedId = (messageId?: number) =>
+        messageId !== undefined && allowedMessageIds.includes(messageId)
+          ? messageId
+          : undefined;
+
+      if (aiResponse.actions.length === 0) {
+        this.logger.warn('Model returned no actions, leaving messages on read');
+      }
 
-        // Показать "печатает..."
-        await this.telegramService.setTyping(telegramId, true);
-        await new Promise((resolve) => setTimeout(resolve, typingDurationMs));
-
-        // Проверяем, нужно ли добавить опечатку
-        const typoResult = introduceTypo(msg, this.typoProbability);
-
-        if (typoResult.hasTypo && typoResult.originalText) {
-          // Отправляем сообщение с опечаткой
-          this.logger.debug(
-            `Sending message with typo: "${typoResult.text}" (original: "${typoResult.originalText}")`,
-          );
-          const messageId = await this.telegramService.sendMessage(
-            telegramId,
-            typoResult.text,
-          );
+      // Режим одобрения: текст уходит владельцу черновиком, реакции и стикеры не отправляем
+      const approvalMode = Boolean(user?.approvalMode);
+      const draftMessages: OutgoingMessage[] = [];
 
-          // Ждем случайное время перед исправлением
-          const fixDelay = getTypoFixDelay(
-            this.typoFixDelayMin,
-            this.typoFixDelayMax,
-          );
+      for (const action of aiResponse.actions) {
+        if (approvalMode && action.type !== 'message') {
           this.logger.debug(
-            `Waiting ${fixDelay}ms before fixing typo in message ${messageId}`,
-          );
-          await new Promise((resolve) => setTimeout(resolve, fixDelay));
-
-          // Исправляем опечатку
-          this.logger.debug(`Fixing typo in message ${messageId}`);
-          await this.telegramService.editMessage(
-            telegramId,
-            messageId,
-            typoResult.originalText,
+            `Approval mode: skipping ${action.type} action for user ${userId}`,
           );
-        } else {
-          // Отправляем сообщение без опечатки
-          await this.telegramService.sendMessage(telegramId, msg);
+          continue;
         }
 
-        // Небольшая пауза между сообщениями (0.5-1.5 секунды)
-        if (i < messages.length - 1) {
-          const pauseMs = 500 + Math.random() * 1000;
-          this.logger.debug(
-            `Pausing ${Math.round(pauseMs)}ms before next message`,
-          );
-          await new Promise((resolve) => setTimeout(resolve, pauseMs));
+        switch (action.type) {
+          case 'message': {
+            // 9. Пост-обработка текста (убираем точки, случайно удаляем запятые)
+            // и разделение на несколько сообщений (как люди пишут)
+            const replyToMessageId = toAllowedId(action.replyToMessageId);
+            const messages: OutgoingMessage[] = this.splitIntoMessages(
+              this.postProcessText(action.text),
+            ).map((text, index) => ({
+              text,
+              replyToMessageId: index === 0 ? replyToMessageId : undefined,
+            }));
+
+            this.logger.debug(
+              `Message action: ${action.text.length} chars, split into ${messages.length} message(s)`,
+            );
+
+            if (approvalMode) {
+              draftMessages.push(...messages);
+              break;
+            }
+
+            // 10. Отправляем каждое сообщение с реалистичными задержками
+            await this.sendTextMessages(telegramId, messages);
+
+            // 11. Сохраняем в БД (объединяем обратно для истории)
+            await this.conversationService.saveMessage(
+              conversation.id,
+              'assistant',
+              messages.map((msg) => msg.text).join('\n'),
+              undefined,
+              [],
+              [],
+              { replyToMessageId },
+            );
+            break;
+          }
+          case 'reaction': {
+            const messageId = toAllowedId(action.messageId) ?? lastMessageId;
+            if (messageId === undefined) {
+              break;
+            }
+            const emoji = this.normalizeReaction(action.emoji);
+            await this.telegramService.sendReaction(
+              telegramId,
+              messageId,
+              emoji,
+            );
+            await this.conversationService.saveMessage(
+              conversation.id,
+              'assistant',
+              '',
+              undefined,
+              [],
+              [],
+              {
+                mediaType: 'reaction',
+                transcript: emoji,
+                replyToMessageId: messageId,
+              },
+            );
+            this.logger.log(`Reacted ${emoji} to message ${messageId}`);
+            break;
+          }
+          case 'sticker': {
+            const sent = await this.telegramService.sendSticker(
+              telegramId,
+              action.emoji,
+              toAllowedId(action.replyToMessageId),
+            );
+            if (!sent) {
+              this.logger.debug(
+                'Sticker set is not configured, skipping sticker',
+              );
+              break;
+            }
+            await this.conversationService.saveMessage(
+              conversation.id,
+              'assistant',
+              '',
+              undefined,
+              [],
+              [],
+              { mediaType: 'sticker', transcript: action.emoji },
+            );
+            break;
+          }
+          case 'silent':
+            this.logger.log(
+              `Model chose to leave ${groupChatId ? `group ${groupChatId}` : `user ${userId}`} on read`,
+            );
+            break;
         }
       }
 
-      // 11. Сохранить все сообщения в БД (объединяем обратно для истории)
-      const fullResponse = messages.join('\n');
-      await this.conversationService.saveMessage(
-        conversation.id,
-        'assistant',
-        fullResponse,
-      );
+      // 11.5. Черновик отправляем владельцу, собеседнику - только после "ок"
+      if (draftMessages.length > 0 && user) {
+        await this.telegramService.setTyping(telegramId, false);
+        await this.sendDraftForApproval(
+          conversation.id,
+          user,
+          stillPending
+            .filter((msg) => stillPendingIds.includes(msg.id))
+            .map((msg) => msg.content),
+          draftMessages,
+        );
+      }
 
       // 12. Пометить pending сообщения как обработанные (только те что остались)
       await this.conversationService.markPendingMessagesAsProcessed(
@@ -383,9 +808,50 @@ export class MessageProcessor {
       await this.conversationService.summarizeConversation(conversation.id);
 
       // 14. Извлечь факты из разговора (асинхронно, не блокируем ответ)
-      this.extractAndSaveFacts(userId, contextMessages).catch((err) => {
-        this.logger.error('Failed to extract facts', err);
-      });
+      if (!groupChatId) {
+        this.extractAndSaveFacts(userId, conversation.id).catch((err) => {
+          this.logger.error('Failed to extract facts', err);
+        });
+      }
+
+      // 15. Сообщить владельцу о важной переписке (асинхронно, не блокируем ответ)
+      if (user && !hasOwnerMessage) {
+        this.notificationsService
+          .notifyIfImportant({
+            contactName:
+              [user.firstName, user.lastName].filter(Boolean).join(' ') ||
+              (user.username ? `@${user.username}` : 'Без имени'),
+            telegramId: user.telegramId,
+            incoming: stillPending
+              .filter((msg) => stillPendingIds.includes(msg.id))
+              .map(
+                (msg) =>
+                  msg.content ||
+                  msg.transcript ||
+                  `[${msg.mediaType ?? 'медиа'}]`,
+              ),
+            reply: aiResponse.content || null,
+            isDraft: approvalMode,
+          })
+          .catch((err) => {
+            this.logger.error('Failed to send owner notification', err);
+          });
+      }
+
+      // 16. Записать обещания из ответа бота (черновик - после отправки)
+      if (user && !groupChatId && !approvalMode && aiResponse.content) {
+        this.commitmentsService
+          .trackReply({
+            telegramId: user.telegramId,
+            incoming: stillPending
+              .filter((msg) => stillPendingIds.includes(msg.id))
+              .map((msg) => msg.content || msg.transcript || ''),
+            reply: aiResponse.content,
+          })
+          .catch((err) => {
+            this.logger.error('Failed to track commitments', err);
+          });
+      }
 
       this.logger.log(`Successfully processed message job ${job.id}`);
       return { success: true };
@@ -394,4 +860,52 @@ export class MessageProcessor {
       throw error;
     }
   }
+
+  /**
+   * Доставляет одобренный владельцем черновик (с "печатает..." и паузами, как обычный ответ)
+   */
+  @Process('deliver-draft')
+  async handleDraftDelivery(job: Job<DraftDeliveryJob>) {
+    const draft = await this.replyDraftService.getDraft(job.data.draftId);
+
+    if (!draft || (draft.status !== 'approved' && draft.status !== 'edited')) {
+      this.logger.debug(
+        `Draft ${job.data.draftId} is not approved (${draft?.status ?? 'missing'}), skipping delivery`,
+      );
+      return { success: true, skipped: true };
+    }
+
+    const telegramId = Number(draft.telegramId);
+    const replyToMessageId = draft.replyToMessageId ?? undefined;
+    const messages: OutgoingMessage[] = draft.messages.map((text, index) => ({
+      text,
+      replyToMessageId: index === 0 ? replyToMessageId : undefined,
+    }));
+
+    await this.sendTextMessages(telegramId, messages);
+    await this.replyDraftService.markSent(draft.id);
+
+    await this.conversationService.saveMessage(
+      draft.conversationId,
+      'assistant',
+      draft.messages.join('\n'),
+      undefined,
+      [],
+      [],
+      { replyToMessageId },
+    );
+
+    this.commitmentsService
+      .trackReply({
+        telegramId: draft.telegramId,
+        incoming: [],
+        reply: draft.messages.join('\n'),
+      })
+      .catch((err) => {
+        this.logger.error('Failed to track commitments', err);
+      });
+
+    this.logger.log(`Delivered draft ${draft.id} to ${telegramId}`);
+    return { success: true };
+  }
 }
@@ -1,7 +1,10 @@
 import { forwardRef, Module } from '@nestjs/common';
 
+import { CommitmentsModule } from '../commitments/commitments.module';
 import { ConversationModule } from '../conversation/conversation.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 import { OpenAIModule } from '../openai/openai.module';
+import { PauseModule } from '../pause/pause.module';
 import { RateLimitModule } from '../rate-limit/rate-limit.module';
 import { TelegramModule } from '../telegram/telegram.module';
 
@@ -11,8 +14,11 @@ import { SharedQueueModule } from './shared-queue.module';
 @Module({
   imports: [
     SharedQueueModule,
+    CommitmentsModule,
     ConversationModule,
+    NotificationsModule,
     OpenAIModule,
+    PauseModule,
     RateLimitModule,
     forwardRef(() => TelegramModule),
   ],
@@ -0,0 +1,142 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { PrismaService } from '../database/prisma.service';
+import {
+  formatLocalTime,
+  getScheduleState,
+  OwnerSchedule,
+  parseTimeRange,
+  parseWorkDays,
+  ScheduleState,
+} from '../utils/owner-schedule';
+
+export const OWNER_STATUS_ID = 'owner';
+
+@Injectable()
+export class ScheduleService {
+  private readonly logger = new Logger(ScheduleService.name);
+  private readonly enabled: boolean;
+  private readonly schedule: OwnerSchedule;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+  ) {
+    this.enabled = this.configService.get<boolean>('schedule.enabled', true);
+    this.schedule = {
+      timezone: this.configService.get<string>(
+        'schedule.timezone',
+        'Asia/Bishkek',
+      ),
+      sleep: parseTimeRange(
+        this.configService.get<string>('schedule.sleepHours', '01:00-09:00'),
+      )!,
+      weekendSleep: parseTimeRange(
+        this.configService.get<string>(
+          'schedule.weekendSleepHours',
+          '02:00-11:00',
+        ),
+      )!,
+      work: parseTimeRange(
+        this.configService.get<string>('schedule.workHours', '10:00-19:00'),
+      )!,
+      workDays: parseWorkDays(
+        this.configService.get<string>('schedule.workDays', '1-5'),
+      ),
+    };
+
+    this.logger.log(
+      `Owner schedule initialized: enabled=${this.enabled}, timezone=${this.schedule.timezone}`,
+    );
+  }
+
+  /**
+   * Часовой пояс владельца
+   */
+  getTimezone(): string {
+    return this.schedule.timezone;
+  }
+
+  /**
+   * Текущее состояние владельца: свободен, на работе, спит или занят
+   */
+  async getCurrentState(now: Date = new Date()): Promise<ScheduleState> {
+    if (!this.enabled) {
+      return { state: 'free' };
+    }
+
+    const status = await this.prisma.ownerStatus.findUnique({
+      where: { id: OWNER_STATUS_ID },
+    });
+
+    return getScheduleState(
+      now,
+      this.schedule,
+      status?.busyUntil,
+      status?.busyReason,
+    );
+  }
+
+  /**
+   * Может ли владелец сейчас "быть в сети" (не спит и не занят)
+   */
+  async isAvailable(): Promise<boolean> {
+    const { state } = await this.getCurrentState();
+    return state === 'free' || state === 'work';
+  }
+
+  /**
+   * Отмечает владельца занятым до указанного времени
+   */
+  async setBusyUntil(until: Date, reason?: string): Promise<void> {
+    await this.prisma.ownerStatus.upsert({
+      where: { id: OWNER_STATUS_ID },
+      create: { id: OWNER_STATUS_ID, busyUntil: until, busyReason: reason },
+      update: { busyUntil: until, busyReason: reason ?? null },
+    });
+    this.logger.log(`Owner is busy until ${until.toISOString()}`);
+  }
+
+  /**
+   * Снимает ручную занятость
+   */
+  async clearBusy(): Promise<void> {
+    await this.prisma.ownerStatus.upsert({
+      where: { id: OWNER_STATUS_ID },
+      create: { id: OWNER_STATUS_ID },
+      update: { busyUntil: null, busyReason: null },
+    });
+    this.logger.log('Owner busy status cleared');
+  }
+
+  /**
+   * Форматирует время в часовом поясе владельца
+   */
+  formatTime(date: Date): string {
+    return formatLocalTime(date, this.schedule.timezone);
+  }
+
+  /**
+   * Описание текущего состояния для owner команды "расписание"
+   */
+  async describeState(): Promise<string> {
+    if (!this.enabled) {
+      return 'Расписание выключено (SCHEDULE_ENABLED=false)';
+    }
+
+    const state = await this.getCurrentState();
+    const until = state.until ? ` до ${this.formatTime(state.until)}` : '';
+
+    switch (state.state) {
+      case 'busy':
+        return `⛔ Занят${until}${state.reason ? ` (${state.reason})` : ''}`;
+      case 'sleep':
+        return `😴 Спишь${until} - ответы после пробуждения`;
+      case 'work':
+        return `💼 Работаешь${until} - отвечаешь медленнее`;
+      default:
+        return '✅ Свободен';
+    }
+  }
+}
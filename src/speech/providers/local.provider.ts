@@ -0,0 +1,21 @@
+import {
+  SpeechToTextProvider,
+  TranscriptionInput,
+} from './speech-to-text.provider';
+
+/**
+ * Офлайн-заглушка для разработки и тестов: не ходит в сеть,
+ * возвращает детерминированное описание аудио вместо расшифровки
+ */
+export class LocalSpeechProvider implements SpeechToTextProvider {
+  readonly name = 'local';
+
+  transcribe(input: TranscriptionInput): Promise<string> {
+    const duration =
+      input.durationSeconds !== undefined
+        ? `${input.durationSeconds} сек`
+        : `${input.buffer.length} байт`;
+
+    return Promise.resolve(`(локальная расшифровка недоступна, ${duration})`);
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Общий интерфейс провайдеров распознавания речи
+ */
+
+export const SPEECH_TO_TEXT_PROVIDER = 'SPEECH_TO_TEXT_PROVIDER';
+
+export interface TranscriptionInput {
+  buffer: Buffer;
+  mimeType: string;
+  fileName: string;
+  durationSeconds?: number;
+}
+
+export interface SpeechToTextProvider {
+  readonly name: string;
+
+  /**
+   * Распознает речь и возвращает текст
+   */
+  transcribe(input: TranscriptionInput): Promise<string>;
+}
@@ -0,0 +1,42 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import OpenAI, { toFile } from 'openai';
+
+import {
+  SpeechToTextProvider,
+  TranscriptionInput,
+} from './speech-to-text.provider';
+
+/**
+ * Распознавание речи через OpenAI Whisper
+ */
+export class WhisperSpeechProvider implements SpeechToTextProvider {
+  readonly name = 'whisper';
+  private readonly logger = new Logger(WhisperSpeechProvider.name);
+  private readonly client: OpenAI;
+  private readonly model: string;
+
+  constructor(configService: ConfigService) {
+    this.client = new OpenAI({
+      apiKey: configService.get<string>('openai.apiKey'),
+    });
+    this.model = configService.get<string>('speech.whisperModel', 'whisper-1');
+  }
+
+  async transcribe(input: TranscriptionInput): Promise<string> {
+    const file = await toFile(input.buffer, input.fileName, {
+      type: input.mimeType,
+    });
+
+    const transcription = await this.client.audio.transcriptions.create({
+      file,
+      model: this.model,
+    });
+
+    this.logger.debug(
+      `Whisper transcribed ${input.buffer.length} bytes into ${transcription.text.length} chars`,
+    );
+
+    return transcription.text.trim();
+  }
+}
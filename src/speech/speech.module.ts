@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+
+import { LocalSpeechProvider } from './providers/local.provider';
+import { SPEECH_TO_TEXT_PROVIDER } from './providers/speech-to-text.provider';
+import { WhisperSpeechProvider } from './providers/whisper.provider';
+import { SpeechService } from './speech.service';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: SPEECH_TO_TEXT_PROVIDER,
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('speech.provider') === 'local'
+          ? new LocalSpeechProvider()
+          : new WhisperSpeechProvider(configService),
+      inject: [ConfigService],
+    },
+    SpeechService,
+  ],
+  exports: [SpeechService],
+})
+export class SpeechModule {}
@@ -0,0 +1,78 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import {
+  SPEECH_TO_TEXT_PROVIDER,
+  type SpeechToTextProvider,
+  TranscriptionInput,
+} from './providers/speech-to-text.provider';
+
+@Injectable()
+export class SpeechService {
+  private readonly logger = new Logger(SpeechService.name);
+  private readonly enabled: boolean;
+  private readonly maxDurationSeconds: number;
+
+  constructor(
+    @Inject(SPEECH_TO_TEXT_PROVIDER)
+    private readonly provider: SpeechToTextProvider,
+    private readonly configService: ConfigService,
+  ) {
+    this.enabled = this.configService.get<boolean>('speech.enabled', true);
+    this.maxDurationSeconds = this.configService.get<number>(
+      'speech.maxDurationSeconds',
+      300,
+    );
+
+    this.logger.log(
+      `Speech-to-text initialized: provider=${this.provider.name}, enabled=${this.enabled}`,
+    );
+  }
+
+  /**
+   * Включено ли распознавание голосовых сообщений
+   */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Не слишком ли длинное аудио для распознавания (проверяется до скачивания)
+   */
+  isDurationAllowed(durationSeconds?: number): boolean {
+    if (
+      durationSeconds !== undefined &&
+      durationSeconds > this.maxDurationSeconds
+    ) {
+      this.logger.warn(
+        `Audio is too long (${durationSeconds}s > ${this.maxDurationSeconds}s), skipping transcription`,
+      );
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Распознает аудио. Возвращает null, если распознать не удалось
+   * (слишком длинное аудио или ошибка провайдера)
+   */
+  async transcribe(input: TranscriptionInput): Promise<string | null> {
+    if (!this.isDurationAllowed(input.durationSeconds)) {
+      return null;
+    }
+
+    try {
+      const text = await this.provider.transcribe(input);
+      this.logger.log(
+        `Transcribed ${input.mimeType} via ${this.provider.name}: "${text.substring(0, 50)}${text.length > 50 ? '...' : ''}"`,
+      );
+      return text || null;
+    } catch (error) {
+      this.logger.error(
+        `Failed to transcribe audio via ${this.provider.name}`,
+        error,
+      );
+      return null;
+    }
+  }
+}
@@ -2,8 +2,13 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 
 import { ConversationModule } from '../conversation/conversation.module';
+import { MediaModule } from '../media/media.module';
+import { PauseModule } from '../pause/pause.module';
+import { PolicyModule } from '../policy/policy.module';
 import { SharedQueueModule } from '../queue/shared-queue.module';
 import { RateLimitModule } from '../rate-limit/rate-limit.module';
+import { ScheduleModule } from '../schedule/schedule.module';
+import { SpeechModule } from '../speech/speech.module';
 
 import { TelegramService } from './telegram.service';
 
@@ -11,8 +16,13 @@ import { TelegramService } from './telegram.service';
   imports: [
     ConfigModule,
     ConversationModule,
+    MediaModule,
+    PauseModule,
+    PolicyModule,
     SharedQueueModule,
     RateLimitModule,
+    ScheduleModule,
+    SpeechModule,
   ],
   providers: [TelegramService],
   exports: [TelegramService],
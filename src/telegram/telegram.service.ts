@@ -2,16 +2,55 @@ import { InjectQueue } from '@nestjs/bull';
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import type { Queue } from 'bull';
-import { TelegramClient } from 'telegram';
+import { TelegramClient, utils } from 'telegram';
 import { NewMessage, NewMessageEvent } from 'telegram/events';
+import {
+  EditedMessage,
+  EditedMessageEvent,
+} from 'telegram/events/EditedMessage';
 import { StringSession } from 'telegram/sessions';
 import { Api } from 'telegram/tl';
 
-import { ConversationService } from '../conversation/conversation.service';
+import {
+  AttachmentInput,
+  ConversationService,
+  MessageMediaType,
+} from '../conversation/conversation.service';
 import { OwnerCommandsService } from '../conversation/owner-commands.service';
+import { ReplyDraftService } from '../conversation/reply-draft.service';
+import { MediaStorageService } from '../media/media-storage.service';
+import { PauseService } from '../pause/pause.service';
+import { PolicyService, RULE_TITLES } from '../policy/policy.service';
+import type { PolicyDecision } from '../policy/reply-policy';
+import type { MessageJob } from '../queue/message.processor';
 import { MESSAGE_QUEUE } from '../queue/shared-queue.module';
 import { RateLimitService } from '../rate-limit/rate-limit.service';
+import { ScheduleService } from '../schedule/schedule.service';
+import { SpeechService } from '../speech/speech.service';
 import { calculateDelay, formatDelay } from '../utils/delay-calculator';
+import { isPauseActive } from '../utils/pause-duration';
+
+interface ExtractedMedia {
+  mediaType: MessageMediaType;
+  images?: AttachmentInput[];
+  transcript?: string | null;
+}
+
+// Картинки, отправленные файлом, обрабатываем как фото
+const IMAGE_DOCUMENT_MIME_TYPES = ['image/jpeg', 'image/png'];
+
+// Сколько ждем остальные фото альбома (Telegram присылает их пачкой за пару секунд)
+const ALBUM_TTL_MS = 60_000;
+
+const AUDIO_FILE_EXTENSIONS: Record<string, string> = {
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/wav': 'wav',
+  'audio/webm': 'webm',
+  'video/mp4': 'mp4',
+};
 
 @Injectable()
 export class TelegramService implements OnModuleInit {
@@ -20,15 +59,32 @@ export class TelegramService implements OnModuleInit {
   private readonly messageDelaySeconds: number;
   private readonly botName: string;
   private readonly ownerTelegramId?: string;
+  private readonly approvalChatId?: string;
+  private readonly notificationsChatId?: string;
   private readonly delayNormalProbability: number;
   private readonly delayMediumProbability: number;
   private readonly delayLongProbability: number;
+  private readonly groupTriggerNames: string[];
+  private readonly notifyModelOnEdit: boolean;
+  private readonly maxImagesPerMessage: number;
+  private readonly maxImageSizeBytes: number;
+  private readonly stickerVision: boolean;
+  private readonly stickerSetName?: string;
+  private stickerSetDocuments?: Promise<Api.Document[]>;
+  // groupedId альбома -> ID pending сообщения, в которое собираются его фото
+  private readonly pendingAlbums = new Map<string, Promise<string | null>>();
 
   constructor(
     private readonly configService: ConfigService,
     private readonly conversationService: ConversationService,
     private readonly ownerCommandsService: OwnerCommandsService,
     private readonly rateLimitService: RateLimitService,
+    private readonly speechService: SpeechService,
+    private readonly mediaStorageService: MediaStorageService,
+    private readonly scheduleService: ScheduleService,
+    private readonly replyDraftService: ReplyDraftService,
+    private readonly pauseService: PauseService,
+    private readonly policyService: PolicyService,
     @InjectQueue(MESSAGE_QUEUE) private readonly messageQueue: Queue,
   ) {
     const apiId = this.configService.get<number>('telegram.apiId');
@@ -46,6 +102,10 @@ export class TelegramService implements OnModuleInit {
     this.ownerTelegramId = this.configService.get<string>(
       'bot.ownerTelegramId',
     );
+    this.approvalChatId = this.configService.get<string>('bot.approvalChatId');
+    this.notificationsChatId = this.configService.get<string>(
+      'notifications.chatId',
+    );
 
     this.delayNormalProbability = this.configService.get<number>(
       'delay.normalProbability',
@@ -60,6 +120,29 @@ export class TelegramService implements OnModuleInit {
       0.05,
     );
 
+    this.groupTriggerNames = this.configService.get<string[]>(
+      'groups.triggerNames',
+      [],
+    );
+
+    this.notifyModelOnEdit = this.configService.get<boolean>(
+      'messageProcessing.notifyModelOnEdit',
+      true,
+    );
+
+    this.maxImagesPerMessage = this.configService.get<number>(
+      'images.maxPerMessage',
+      5,
+    );
+    this.maxImageSizeBytes =
+      this.configService.get<number>('images.maxSizeKb', 1024) * 1024;
+
+    this.stickerVision = this.configService.get<boolean>(
+      'stickers.vision',
+      true,
+    );
+    this.stickerSetName = this.configService.get<string>('stickers.setName');
+
     // Инициализация MTProto клиента
     const session = new StringSession(sessionString || '');
     this.client = new TelegramClient(session, apiId!, apiHash!, {
@@ -88,6 +171,8 @@ export class TelegramService implements OnModuleInit {
   private setupHandlers() {
     // Обработчик входящих сообщений
     this.client.addEventHandler(async (event: NewMessageEvent) => {
+      let resolveAlbum: ((pendingMessageId: string | null) => void) | undefined;
+
       try {
         const message = event.message;
 
@@ -97,13 +182,36 @@ export class TelegramService implements OnModuleInit {
           return;
         }
 
-        // Игнорируем сообщения не из приватных чатов
+        // Групповые чаты обрабатываются отдельно (только allowlist групп)
         const peerId = message.peerId;
+        if (
+          peerId instanceof Api.PeerChat ||
+          peerId instanceof Api.PeerChannel
+        ) {
+          await this.handleGroupMessage(message);
+          return;
+        }
+
+        // Игнорируем сообщения не из приватных чатов
         if (!peerId || !(peerId instanceof Api.PeerUser)) {
           this.logger.debug(`Ignoring message from non-private chat`);
           return;
         }
 
+        // Альбом: остальные фото добавляются в pending сообщение первого фото.
+        // Проверка синхронная, до первого await - события альбома приходят почти одновременно
+        const groupedId = message.groupedId?.toString();
+        const albumPendingId = groupedId
+          ? this.pendingAlbums.get(groupedId)
+          : undefined;
+        if (albumPendingId) {
+          await this.appendToAlbum(message, albumPendingId);
+          return;
+        }
+        if (groupedId) {
+          resolveAlbum = this.registerAlbum(groupedId);
+        }
+
         // Получаем отправителя
         const sender = await message.getSender();
         if (!sender || !(sender instanceof Api.User)) {
@@ -120,59 +228,51 @@ export class TelegramService implements OnModuleInit {
         // Получаем текст сообщения
         const messageText = message.text || '';
 
+        // Политика автоответов (контакты, allowlist, боты, незнакомцы) - по отправителю,
+        // до скачивания медиа, распознавания речи и rate limit: незнакомцы и спам
+        // не тратят ни лимиты, ни токены, и пользователь для них не создается
+        if (!this.isOwner(telegramId) && !sender.self) {
+          const decision = await this.policyService.evaluate(sender);
+          if (decision.action !== 'reply') {
+            await this.applyPolicyDecision(
+              decision,
+              sender,
+              messageText || '[медиа]',
+            );
+            return;
+          }
+        }
+
         // Проверяем и фильтруем типы медиа
-        const imageBase64List: string[] = [];
-        let hasPhoto = false;
+        let media: ExtractedMedia | undefined;
 
         if (message.media) {
-          // Разрешаем только фото
-          if (message.media instanceof Api.MessageMediaPhoto) {
-            hasPhoto = true;
-            try {
-              // Скачиваем фото как Buffer
-              this.logger.debug('Downloading photo...');
-              const buffer = await this.client.downloadMedia(message.media);
-
-              if (buffer && Buffer.isBuffer(buffer)) {
-                // Конвертируем в base64
-                const base64Image = buffer.toString('base64');
-                imageBase64List.push(base64Image);
-                this.logger.debug(
-                  `Photo downloaded successfully (${buffer.length} bytes)`,
-                );
-              } else {
-                this.logger.warn('Downloaded media is not a Buffer');
-              }
-            } catch (error) {
-              this.logger.error('Failed to download photo', error);
-              // Продолжаем обработку даже если фото не скачалось
-            }
-          } else {
-            // Игнорируем другие типы медиа
+          const extracted = await this.extractMedia(message);
+          if (!extracted) {
+            // Игнорируем неподдерживаемые типы медиа
             const mediaType = message.media.className;
             this.logger.debug(`Ignoring unsupported media type: ${mediaType}`);
             return;
           }
+          media = extracted;
         }
 
-        // Разрешаем сообщения с текстом ИЛИ с фото
-        if (!messageText && !hasPhoto) {
-          this.logger.debug('Ignoring message without text and without photo');
+        // Разрешаем сообщения с текстом ИЛИ с медиа
+        if (!messageText && !media) {
+          this.logger.debug('Ignoring message without text and without media');
           return;
         }
 
-        // Антиспам: берем только первое фото (если пришло несколько)
-        const finalImageBase64 =
-          imageBase64List.length > 0 ? imageBase64List[0] : undefined;
-
-        if (imageBase64List.length > 1) {
-          this.logger.warn(
-            `User sent ${imageBase64List.length} photos, using only the first one (anti-spam)`,
-          );
-        }
-
         this.logger.log(
-          `Received message from ${firstName} (${telegramId}): "${messageText.substring(0, 50)}${messageText.length > 50 ? '...' : ''}" ${hasPhoto ? '[with photo]' : ''}`,
+          `Received message from ${firstName} (${telegramId}): "${messageText.substring(0, 50)}${messageText.length > 50 ? '...' : ''}" ${media ? `[with ${media.mediaType}]` : ''}`,
+        );
+
+        // Находим или создаем пользователя
+        const user = await this.conversationService.findOrCreateUser(
+          telegramId,
+          username,
+          firstName,
+          lastName,
         );
 
         // Проверяем rate limit
@@ -206,14 +306,6 @@ export class TelegramService implements OnModuleInit {
         // Инкрементируем счетчик (лимит не превышен)
         await this.rateLimitService.incrementCounter(telegramId);
 
-        // Находим или создаем пользователя
-        const user = await this.conversationService.findOrCreateUser(
-          telegramId,
-          username,
-          firstName,
-          lastName,
-        );
-
         // Проверяем, не находится ли чат в игнор-листе
         const isIgnored = await this.conversationService.isConversationIgnored(
           user.id,
@@ -304,49 +396,58 @@ export class TelegramService implements OnModuleInit {
           }
         }
 
+        // Общая пауза ("стоп все", "отпуск"): никому не отвечаем, сообщения остаются непрочитанными
+        if (
+          !this.isOwner(telegramId) &&
+          (await this.pauseService.getGlobalPause())
+        ) {
+          await this.sendAwayMessage(user.id, Number(sender.id));
+          return;
+        }
+
+        // Альбом уже ждет ответа (например, после перезапуска) - просто докладываем фото
+        const existingAlbum = groupedId
+          ? await this.conversationService.findPendingAlbumMessage(groupedId)
+          : null;
+        if (existingAlbum) {
+          await this.conversationService.appendToPendingAlbum(
+            existingAlbum.id,
+            messageText,
+            media?.images ?? [],
+            this.maxImagesPerMessage,
+          );
+          resolveAlbum?.(existingAlbum.id);
+          return;
+        }
+
         // Сохраняем сообщение как pending
         this.logger.debug(
           `Saving pending message for ${telegramId}, isOwnerMessage=${isOwnerMessage}`,
         );
-        await this.conversationService.savePendingMessage(
-          user.id,
-          telegramId,
-          messageText,
-          messageId,
-          this.messageDelaySeconds,
-          [], // imageUrls deprecated
-          finalImageBase64,
-          isOwnerMessage,
-        );
-
-        // Вычисляем случайную задержку (для владельца всегда минимальная)
-        const isOwnerUser = Boolean(
-          this.ownerTelegramId &&
-            this.ownerTelegramId.length > 0 &&
-            telegramId.toString() === this.ownerTelegramId,
-        );
-        const delayResult = calculateDelay(
-          this.delayNormalProbability,
-          this.delayMediumProbability,
-          this.delayLongProbability,
-          isOwnerUser,
-        );
-
-        this.logger.log(
-          `Scheduling message processing with ${delayResult.delayType} delay: ${formatDelay(delayResult.delaySeconds)} (isOwner=${isOwnerUser})`,
-        );
+        const pendingMessage =
+          await this.conversationService.savePendingMessage(
+            user.id,
+            telegramId,
+            messageText,
+            messageId,
+            this.messageDelaySeconds,
+            [], // imageUrls deprecated
+            (media?.images ?? []).slice(0, this.maxImagesPerMessage),
+            isOwnerMessage,
+            {
+              mediaType: media?.mediaType,
+              transcript: media?.transcript,
+              groupedId,
+              ...(await this.extractReplyInfo(message)),
+            },
+          );
+        resolveAlbum?.(pendingMessage.id);
 
         // Добавляем задачу в очередь со случайной задержкой
-        await this.messageQueue.add(
-          'process-message',
-          {
-            userId: user.id,
-            telegramId: Number(sender.id),
-          },
-          {
-            delay: delayResult.delayMs,
-            jobId: `${user.id}-${Date.now()}`,
-          },
+        await this.scheduleResponse(
+          { userId: user.id, telegramId: Number(sender.id) },
+          user.id,
+          this.isOwner(telegramId),
         );
 
         // Отмечаем сообщение как прочитанное через 0.5-1 секунду (быстро, как человек)
@@ -356,9 +457,42 @@ export class TelegramService implements OnModuleInit {
         });
       } catch (error) {
         this.logger.error('Error handling message', error);
+      } finally {
+        // Если первое фото альбома не попало в очередь, остальные фото тоже игнорируем
+        resolveAlbum?.(null);
       }
     }, new NewMessage({}));
 
+    // Обработчик отредактированных сообщений
+    this.client.addEventHandler(async (event: EditedMessageEvent) => {
+      try {
+        await this.handleEditedMessage(event.message);
+      } catch (error) {
+        this.logger.error('Error handling edited message', error);
+      }
+    }, new EditedMessage({}));
+
+    // Обработчик удаленных сообщений (UpdateDeleteMessages / UpdateDeleteChannelMessages)
+    this.client.addEventHandler(async (update: any) => {
+      try {
+        if (update instanceof Api.UpdateDeleteMessages) {
+          await this.conversationService.markMessagesDeleted(update.messages);
+        } else if (update instanceof Api.UpdateDeleteChannelMessages) {
+          const chatId = BigInt(
+            utils.getPeerId(
+              new Api.PeerChannel({ channelId: update.channelId }),
+            ),
+          );
+          await this.conversationService.markMessagesDeleted(
+            update.messages,
+            chatId,
+          );
+        }
+      } catch (error) {
+        this.logger.error('Error handling deleted messages', error);
+      }
+    });
+
     // Обработчик события "печатает..." (UpdateUserTyping)
     this.client.addEventHandler(async (update: any) => {
       try {
@@ -399,16 +533,681 @@ export class TelegramService implements OnModuleInit {
     process.once('SIGTERM', shutdown);
   }
 
+  /**
+   * Проверяет, является ли пользователь владельцем
+   */
+  private isOwner(telegramId: bigint): boolean {
+    return Boolean(
+      this.ownerTelegramId &&
+        this.ownerTelegramId.length > 0 &&
+        telegramId.toString() === this.ownerTelegramId,
+    );
+  }
+
+  /**
+   * Регистрирует альбом по первому фото
+   * @returns функция, которую вызывают с ID созданного pending сообщения (или null)
+   */
+  private registerAlbum(
+    groupedId: string,
+  ): (pendingMessageId: string | null) => void {
+    let resolve!: (pendingMessageId: string | null) => void;
+    const pendingMessageId = new Promise<string | null>((r) => (resolve = r));
+
+    this.pendingAlbums.set(groupedId, pendingMessageId);
+    setTimeout(() => this.pendingAlbums.delete(groupedId), ALBUM_TTL_MS);
+
+    return resolve;
+  }
+
+  /**
+   * Добавляет фото (и подпись) альбома в pending сообщение первого фото альбома
+   */
+  private async appendToAlbum(
+    message: Api.Message,
+    albumPendingId: Promise<string | null>,
+  ): Promise<void> {
+    // Сначала ждем первое фото: если альбом не попал в очередь, остальное не качаем
+    const pendingMessageId = await albumPendingId;
+
+    if (!pendingMessageId) {
+      this.logger.debug(
+        `Album ${message.groupedId?.toString()} was not queued, ignoring photo`,
+      );
+      return;
+    }
+
+    const media = message.media ? await this.extractMedia(message) : null;
+
+    const added = await this.conversationService.appendToPendingAlbum(
+      pendingMessageId,
+      message.text || '',
+      media?.images ?? [],
+      this.maxImagesPerMessage,
+    );
+    this.logger.debug(
+      `Added ${added} image(s) to album pending message ${pendingMessageId}`,
+    );
+  }
+
+  /**
+   * Ставит задачу обработки сообщений в очередь со случайной задержкой
+   * @param job - данные задачи
+   * @param jobKey - префикс ID задачи (пользователь или диалог)
+   * @param isOwnerUser - для владельца задержка всегда минимальная
+   * Остальным задержка зависит от расписания владельца (сон, работа, "занят до")
+   */
+  private async scheduleResponse(
+    job: MessageJob,
+    jobKey: string,
+    isOwnerUser: boolean = false,
+  ): Promise<void> {
+    const scheduleState = await this.scheduleService.getCurrentState();
+    const delayResult = calculateDelay(
+      this.delayNormalProbability,
+      this.delayMediumProbability,
+      this.delayLongProbability,
+      isOwnerUser,
+      scheduleState,
+    );
+
+    this.logger.log(
+      `Scheduling message processing with ${delayResult.delayType} delay: ${formatDelay(delayResult.delaySeconds)} (isOwner=${isOwnerUser}, schedule=${scheduleState.state}${job.chatId ? `, group=${job.chatId}` : ''})`,
+    );
+
+    await this.messageQueue.add('process-message', job, {
+      delay: delayResult.delayMs,
+      jobId: `${jobKey}-${Date.now()}`,
+    });
+  }
+
+  /**
+   * Обрабатывает отредактированное входящее сообщение:
+   * обновляет pending/сохраненное сообщение, при необходимости сообщает модели о правке
+   */
+  private async handleEditedMessage(message: Api.Message): Promise<void> {
+    // Свои правки (в том числе исправление опечаток) не интересны
+    if (message.out) {
+      return;
+    }
+
+    const peerId = message.peerId;
+    const isGroup =
+      peerId instanceof Api.PeerChat || peerId instanceof Api.PeerChannel;
+    if (!isGroup && !(peerId instanceof Api.PeerUser)) {
+      return;
+    }
+
+    const text = message.text || '';
+    if (!text) {
+      return;
+    }
+
+    const chatId = isGroup ? BigInt(utils.getPeerId(peerId)) : undefined;
+    const senderId =
+      peerId instanceof Api.PeerUser ? peerId.userId : message.senderId;
+    if (!senderId) {
+      return;
+    }
+    const telegramId = BigInt(senderId.toString());
+
+    this.logger.debug(
+      `Message ${message.id} edited by ${telegramId}${chatId ? ` in group ${chatId}` : ''}`,
+    );
+
+    const result = await this.conversationService.applyIncomingEdit(
+      message.id,
+      text,
+      telegramId,
+      chatId,
+    );
+
+    // Сообщаем модели о правке уже отвеченного сообщения (только личные чаты)
+    if (!result.editedMessage || chatId || !this.notifyModelOnEdit) {
+      return;
+    }
+
+    const user = await this.conversationService.findOrCreateUser(telegramId);
+    if (await this.conversationService.isConversationIgnored(user.id)) {
+      return;
+    }
+
+    const note = `[собеседник отредактировал сообщение, на которое ты уже ответил]\nбыло: "${result.editedMessage.previousContent}"\nстало: "${text}"`;
+
+    // Без ID сообщения: следующая правка должна найти само сообщение, а не эту пометку
+    await this.conversationService.savePendingMessage(
+      user.id,
+      telegramId,
+      note,
+      null,
+      this.messageDelaySeconds,
+    );
+
+    await this.scheduleResponse(
+      { userId: user.id, telegramId: Number(telegramId) },
+      user.id,
+      this.isOwner(telegramId),
+    );
+  }
+
+  /**
+   * Обрабатывает входящее сообщение в групповом чате
+   * Отвечаем только в группах из allowlist и только если к нам обратились
+   */
+  private async handleGroupMessage(message: Api.Message): Promise<void> {
+    const chatId = BigInt(utils.getPeerId(message.peerId));
+
+    const conversation =
+      await this.conversationService.findGroupConversation(chatId);
+    if (!conversation?.groupRepliesEnabled || isPauseActive(conversation)) {
+      this.logger.debug(`Ignoring message from group ${chatId} (not enabled)`);
+      return;
+    }
+
+    const sender = await message.getSender();
+    if (!sender || !(sender instanceof Api.User) || sender.bot) {
+      this.logger.debug('Group message sender is not a user, ignoring');
+      return;
+    }
+
+    const senderTelegramId = BigInt(sender.id.toString());
+    const senderName =
+      [sender.firstName, sender.lastName].filter(Boolean).join(' ') ||
+      sender.username ||
+      'Без имени';
+    const messageText = message.text || '';
+
+    // Неподдерживаемое медиа в группе не повод игнорировать текст
+    const media = message.media
+      ? ((await this.extractMedia(message)) ?? undefined)
+      : undefined;
+
+    if (!messageText && !media) {
+      return;
+    }
+
+    const isTriggered = await this.isGroupTrigger(message, messageText);
+    const replyInfo = await this.extractReplyInfo(message);
+
+    // Во время общей паузы тоже только сохраняем контекст
+    if (!isTriggered || (await this.pauseService.getGlobalPause())) {
+      // Сохраняем как контекст беседы, но не отвечаем
+      await this.conversationService.saveMessage(
+        conversation.id,
+        'user',
+        messageText,
+        message.id,
+        [],
+        media?.images ?? [],
+        {
+          mediaType: media?.mediaType,
+          transcript: media?.transcript,
+          senderName,
+          senderTelegramId,
+          ...replyInfo,
+        },
+      );
+      return;
+    }
+
+    this.logger.log(
+      `Triggered in group ${conversation.title || chatId} by ${senderName} (${senderTelegramId}): "${messageText.substring(0, 50)}${messageText.length > 50 ? '...' : ''}"`,
+    );
+
+    // Rate limit по отправителю (в группе без предупреждений)
+    const rateLimitStatus =
+      await this.rateLimitService.checkLimit(senderTelegramId);
+    if (rateLimitStatus.exceeded) {
+      this.logger.debug(
+        `Rate limit exceeded for ${senderTelegramId} in group ${chatId}, ignoring`,
+      );
+      return;
+    }
+    await this.rateLimitService.incrementCounter(senderTelegramId);
+
+    const user = await this.conversationService.findOrCreateUser(
+      senderTelegramId,
+      sender.username || undefined,
+      sender.firstName || undefined,
+      sender.lastName || undefined,
+    );
+
+    await this.conversationService.savePendingMessage(
+      user.id,
+      senderTelegramId,
+      messageText,
+      message.id,
+      this.messageDelaySeconds,
+      [],
+      (media?.images ?? []).slice(0, this.maxImagesPerMessage),
+      false,
+      {
+        mediaType: media?.mediaType,
+        transcript: media?.transcript,
+        chatId,
+        senderName,
+        ...replyInfo,
+      },
+    );
+
+    await this.scheduleResponse(
+      {
+        userId: user.id,
+        telegramId: Number(chatId),
+        chatId: chatId.toString(),
+      },
+      conversation.id,
+    );
+
+    this.client.markAsRead(message.peerId).catch((err) => {
+      this.logger.error(`Failed to mark group ${chatId} as read`, err);
+    });
+  }
+
+  /**
+   * Проверяет, обращаются ли к владельцу в групповом сообщении:
+   * упоминание, ответ на его сообщение или обращение по имени
+   */
+  private async isGroupTrigger(
+    message: Api.Message,
+    text: string,
+  ): Promise<boolean> {
+    // Telegram сам выставляет mentioned при упоминании и ответе на наше сообщение
+    if (message.mentioned) {
+      return true;
+    }
+
+    if (message.replyTo?.replyToMsgId) {
+      const replyMessage = await message.getReplyMessage();
+      if (replyMessage?.out) {
+        return true;
+      }
+    }
+
+    return this.groupTriggerNames.some((name) => {
+      const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return new RegExp(`(^|[^\\p{L}])${escaped}([^\\p{L}]|$)`, 'iu').test(
+        text,
+      );
+    });
+  }
+
+  /**
+   * Обрабатывает исходящие сообщения владельца в групповом чате:
+   * owner commands (группа вкл/выкл, стоп) и отмена автоответа
+   */
+  private async handleGroupControlCommands(
+    message: Api.Message,
+    text: string,
+  ): Promise<void> {
+    const chatId = BigInt(utils.getPeerId(message.peerId));
+
+    if (
+      this.ownerTelegramId &&
+      text.toLowerCase().includes(this.botName.toLowerCase())
+    ) {
+      const chat = await message.getChat();
+      const title = chat && 'title' in chat ? chat.title : undefined;
+
+      const commandResult = await this.ownerCommandsService.handleOwnerCommand(
+        BigInt(this.ownerTelegramId),
+        BigInt(this.ownerTelegramId),
+        text,
+        { chatId, title },
+      );
+
+      if (commandResult.isCommand && commandResult.response) {
+        this.logger.log(
+          `Processing owner command in group ${chatId}: ${text.substring(0, 50)}...`,
+        );
+        await message.edit({ text: commandResult.response });
+        return;
+      }
+    }
+
+    const conversation =
+      await this.conversationService.findGroupConversation(chatId);
+    if (!conversation) {
+      return;
+    }
+
+    // Владелец сам ответил в группе - отменяем автоответ
+    const pendingMessages =
+      await this.conversationService.getPendingMessagesForChat(chatId);
+    if (pendingMessages.length > 0) {
+      this.logger.log(
+        `Owner wrote in group ${chatId}, cancelling ${pendingMessages.length} pending auto-responses`,
+      );
+      await this.conversationService.markPendingMessagesAsProcessed(
+        pendingMessages.map((msg) => msg.id),
+      );
+    }
+
+    if (text) {
+      await this.conversationService.saveMessage(
+        conversation.id,
+        'assistant',
+        text,
+      );
+    }
+  }
+
+  /**
+   * Извлекает информацию об ответе: ID сообщения и цитату
+   * (выделенный фрагмент или текст исходного сообщения)
+   */
+  private async extractReplyInfo(
+    message: Api.Message,
+  ): Promise<{ replyToMessageId?: number; quoteText?: string }> {
+    const replyTo = message.replyTo;
+    if (!(replyTo instanceof Api.MessageReplyHeader) || !replyTo.replyToMsgId) {
+      return {};
+    }
+
+    if (replyTo.quote && replyTo.quoteText) {
+      return {
+        replyToMessageId: replyTo.replyToMsgId,
+        quoteText: replyTo.quoteText,
+      };
+    }
+
+    try {
+      const replyMessage = await message.getReplyMessage();
+      return {
+        replyToMessageId: replyTo.replyToMsgId,
+        quoteText: replyMessage?.message || undefined,
+      };
+    } catch (error) {
+      this.logger.warn(
+        `Failed to load reply message ${replyTo.replyToMsgId}`,
+        error,
+      );
+      return { replyToMessageId: replyTo.replyToMsgId };
+    }
+  }
+
+  /**
+   * Извлекает поддерживаемое медиа из сообщения
+   * Возвращает null, если тип медиа не поддерживается
+   */
+  private async extractMedia(
+    message: Api.Message,
+  ): Promise<ExtractedMedia | null> {
+    const media = message.media;
+
+    if (media instanceof Api.MessageMediaPhoto) {
+      const image = await this.downloadPhoto(media);
+      // Продолжаем обработку даже если фото не скачалось
+      return { mediaType: 'photo', images: image ? [image] : [] };
+    }
+
+    if (
+      media instanceof Api.MessageMediaDocument &&
+      media.document instanceof Api.Document
+    ) {
+      const document = media.document;
+
+      // Стикер: эмодзи берем из атрибутов, картинку - если включено зрение для стикеров
+      const stickerAttribute = document.attributes.find(
+        (attribute): attribute is Api.DocumentAttributeSticker =>
+          attribute instanceof Api.DocumentAttributeSticker,
+      );
+      if (stickerAttribute) {
+        const image = this.stickerVision
+          ? await this.downloadPreview(message, document, 'sticker')
+          : null;
+        return {
+          mediaType: 'sticker',
+          transcript: stickerAttribute.alt || null,
+          images: image ? [image] : [],
+        };
+      }
+
+      // GIF: модель видит один кадр (превью)
+      if (
+        document.attributes.some(
+          (attribute) => attribute instanceof Api.DocumentAttributeAnimated,
+        )
+      ) {
+        const image = await this.downloadPreview(message, document, 'gif');
+        return { mediaType: 'gif', images: image ? [image] : [] };
+      }
+
+      if (IMAGE_DOCUMENT_MIME_TYPES.includes(document.mimeType)) {
+        const image = await this.downloadImageDocument(message, document);
+        return { mediaType: 'photo', images: image ? [image] : [] };
+      }
+
+      let mediaType: MessageMediaType | undefined;
+      let durationSeconds: number | undefined;
+
+      for (const attribute of document.attributes) {
+        if (attribute instanceof Api.DocumentAttributeAudio) {
+          mediaType = attribute.voice ? 'voice' : 'audio';
+          durationSeconds = attribute.duration;
+        } else if (
+          attribute instanceof Api.DocumentAttributeVideo &&
+          attribute.roundMessage
+        ) {
+          mediaType = 'video_note';
+          durationSeconds = Math.round(attribute.duration);
+        }
+      }
+
+      if (!mediaType || !this.speechService.isEnabled()) {
+        return null;
+      }
+
+      return {
+        mediaType,
+        transcript: await this.transcribeDocument(
+          message,
+          document,
+          mediaType,
+          durationSeconds,
+        ),
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Скачивает фото, при необходимости уменьшенную копию (до MAX_IMAGE_SIZE_KB)
+   */
+  private async downloadPhoto(
+    media: Api.MessageMediaPhoto,
+  ): Promise<AttachmentInput | null> {
+    try {
+      const thumb =
+        media.photo instanceof Api.Photo
+          ? this.pickPhotoSize(media.photo.sizes)
+          : undefined;
+
+      this.logger.debug(`Downloading photo (size ${thumb?.type ?? 'full'})...`);
+      const buffer = await this.client.downloadMedia(media, { thumb });
+
+      return await this.storeImage(buffer, 'image/jpeg');
+    } catch (error) {
+      this.logger.error('Failed to download photo', error);
+      return null;
+    }
+  }
+
+  /**
+   * Скачивает картинку, отправленную файлом. Слишком большую заменяем превью
+   */
+  private async downloadImageDocument(
+    message: Api.Message,
+    document: Api.Document,
+  ): Promise<AttachmentInput | null> {
+    try {
+      if (document.size.toJSNumber() <= this.maxImageSizeBytes) {
+        this.logger.debug(
+          `Downloading image document (${document.mimeType})...`,
+        );
+        const buffer = await this.client.downloadMedia(message);
+        return await this.storeImage(buffer, document.mimeType);
+      }
+
+      const thumb = this.pickPhotoSize(document.thumbs ?? []);
+      if (!thumb) {
+        this.logger.warn(
+          `Image document is too large (${document.size.toString()} bytes) and has no thumbnails, skipping`,
+        );
+        return null;
+      }
+
+      this.logger.debug(
+        `Image document is too large, downloading thumbnail ${thumb.type}...`,
+      );
+      const buffer = await this.client.downloadMedia(message, { thumb });
+      // Превью Telegram всегда в JPEG
+      return await this.storeImage(buffer, 'image/jpeg');
+    } catch (error) {
+      this.logger.error('Failed to download image document', error);
+      return null;
+    }
+  }
+
+  /**
+   * Скачивает картинку стикера или кадр GIF (для GPT Vision)
+   */
+  private async downloadPreview(
+    message: Api.Message,
+    document: Api.Document,
+    mediaType: 'sticker' | 'gif',
+  ): Promise<AttachmentInput | null> {
+    try {
+      // Обычный стикер - небольшая webp картинка, берем ее целиком
+      if (
+        document.mimeType === 'image/webp' &&
+        document.size.toJSNumber() <= this.maxImageSizeBytes
+      ) {
+        const buffer = await this.client.downloadMedia(message);
+        return await this.storeImage(buffer, 'image/webp');
+      }
+
+      const thumb = this.pickPhotoSize(document.thumbs ?? []);
+      if (!thumb) {
+        this.logger.debug(`No preview for ${mediaType}, skipping image`);
+        return null;
+      }
+
+      this.logger.debug(`Downloading ${mediaType} preview ${thumb.type}...`);
+      const buffer = await this.client.downloadMedia(message, { thumb });
+      // Превью стикеров Telegram отдает в webp, кадр GIF - в JPEG
+      return await this.storeImage(
+        buffer,
+        mediaType === 'sticker' ? 'image/webp' : 'image/jpeg',
+      );
+    } catch (error) {
+      this.logger.error(`Failed to download ${mediaType} preview`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Выбирает самый большой размер фото, который влезает в лимит
+   * (если не влезает ни один - самый маленький)
+   */
+  private pickPhotoSize(
+    sizes: Api.TypePhotoSize[],
+  ): Api.PhotoSize | Api.PhotoSizeProgressive | undefined {
+    const candidates = sizes
+      .filter(
+        (size): size is Api.PhotoSize | Api.PhotoSizeProgressive =>
+          size instanceof Api.PhotoSize ||
+          size instanceof Api.PhotoSizeProgressive,
+      )
+      .map((size) => ({
+        size,
+        bytes:
+          size instanceof Api.PhotoSize ? size.size : Math.max(...size.sizes),
+      }))
+      .sort((a, b) => a.bytes - b.bytes);
+
+    const fitting = candidates.filter(
+      ({ bytes }) => bytes <= this.maxImageSizeBytes,
+    );
+
+    return (fitting[fitting.length - 1] ?? candidates[0])?.size;
+  }
+
+  /**
+   * Сохраняет скачанное изображение в MediaStorage и возвращает вложение
+   */
+  private async storeImage(
+    buffer: string | Buffer | undefined,
+    mimeType: string,
+  ): Promise<AttachmentInput | null> {
+    if (!buffer || !Buffer.isBuffer(buffer)) {
+      this.logger.warn('Downloaded image is not a Buffer');
+      return null;
+    }
+
+    this.logger.debug(`Image downloaded successfully (${buffer.length} bytes)`);
+    return await this.mediaStorageService.saveImage(buffer, mimeType);
+  }
+
+  /**
+   * Скачивает голосовое/аудио/видеосообщение и распознает речь
+   */
+  private async transcribeDocument(
+    message: Api.Message,
+    document: Api.Document,
+    mediaType: MessageMediaType,
+    durationSeconds?: number,
+  ): Promise<string | null> {
+    // Длинное аудио не распознаем - и не качаем зря
+    if (!this.speechService.isDurationAllowed(durationSeconds)) {
+      return null;
+    }
+
+    try {
+      this.logger.debug(`Downloading ${mediaType} (${durationSeconds}s)...`);
+      const buffer = await this.client.downloadMedia(message);
+
+      if (!buffer || !Buffer.isBuffer(buffer)) {
+        this.logger.warn(`Downloaded ${mediaType} is not a Buffer`);
+        return null;
+      }
+
+      const extension = AUDIO_FILE_EXTENSIONS[document.mimeType] ?? 'ogg';
+
+      return await this.speechService.transcribe({
+        buffer,
+        mimeType: document.mimeType,
+        fileName: `${mediaType}.${extension}`,
+        durationSeconds,
+      });
+    } catch (error) {
+      this.logger.error(`Failed to download ${mediaType}`, error);
+      return null;
+    }
+  }
+
   /**
    * Обрабатывает исходящие сообщения: отменяет автоответ + owner commands
    */
-  private async handleControlCommands(message: any): Promise<void> {
+  private async handleControlCommands(message: Api.Message): Promise<void> {
     try {
-      const text: string = (message.text || '').trim();
+      const text = (message.text || '').trim();
       const lowerText = text.toLowerCase();
 
-      // Проверяем, что это приватный чат
+      // Ответ владельца на черновик (режим одобрения)
+      if (await this.handleDraftReply(message, text)) {
+        return;
+      }
+
+      // Групповые чаты: команды владельца и отмена автоответа
       const peerId = message.peerId;
+      if (peerId instanceof Api.PeerChat || peerId instanceof Api.PeerChannel) {
+        await this.handleGroupControlCommands(message, text);
+        return;
+      }
+
+      // Проверяем, что это приватный чат
       if (!peerId || !(peerId instanceof Api.PeerUser)) {
         this.logger.debug(`Outgoing message not in private chat, ignoring`);
         return;
@@ -539,6 +1338,94 @@ export class TelegramService implements OnModuleInit {
     }
   }
 
+  /**
+   * Обрабатывает ответ владельца на черновик: "ок" - отправить, "нет" - отменить,
+   * другой текст - отправить его вместо черновика
+   * @returns true если сообщение было ответом на черновик
+   */
+  private async handleDraftReply(
+    message: Api.Message,
+    text: string,
+  ): Promise<boolean> {
+    const replyToMsgId = message.replyTo?.replyToMsgId;
+    if (!replyToMsgId || !text) {
+      return false;
+    }
+
+    const controlChatId = BigInt(utils.getPeerId(message.peerId));
+    const draft = await this.replyDraftService.findByControlMessage(
+      controlChatId,
+      replyToMsgId,
+    );
+    if (!draft) {
+      return false;
+    }
+
+    const decision = this.replyDraftService.parseDecision(text);
+    const resolved = await this.replyDraftService.resolveDraft(
+      draft.id,
+      decision,
+    );
+
+    let status: string;
+    if (!resolved) {
+      status = '⚠️ Черновик уже неактуален';
+    } else if (decision.type === 'reject') {
+      status = '❌ Не отвечаем';
+    } else {
+      await this.messageQueue.add(
+        'deliver-draft',
+        { draftId: draft.id },
+        { jobId: `draft-${draft.id}` },
+      );
+      status =
+        decision.type === 'edit' ? '✏️ Отправляю твой вариант' : '✅ Отправляю';
+    }
+
+    this.logger.log(`Owner replied to draft ${draft.id}: ${decision.type}`);
+
+    const draftMessage = await message.getReplyMessage();
+    if (draftMessage && resolved) {
+      await draftMessage.edit({ text: `${draftMessage.text}\n\n${status}` });
+    } else {
+      await message.edit({ text: `${text}\n\n${status}` });
+    }
+
+    return true;
+  }
+
+  /**
+   * Отправляет уведомление владельцу: в NOTIFICATIONS_CHAT_ID или в Saved Messages
+   */
+  async sendNotification(text: string): Promise<void> {
+    try {
+      await this.client.sendMessage(
+        this.notificationsChatId ? Number(this.notificationsChatId) : 'me',
+        { message: text },
+      );
+    } catch (error) {
+      this.logger.error('Failed to send owner notification', error);
+    }
+  }
+
+  /**
+   * Отправляет черновик ответа владельцу: в APPROVAL_CHAT_ID или в Saved Messages
+   * @returns чат и ID сообщения с черновиком (по ним находим черновик при ответе)
+   */
+  async sendToControlChat(
+    text: string,
+  ): Promise<{ chatId: bigint; messageId: number }> {
+    const result = await this.client.sendMessage(
+      this.approvalChatId ? Number(this.approvalChatId) : 'me',
+      { message: text },
+    );
+
+    return {
+      chatId: BigInt(utils.getPeerId(result.peerId)),
+      messageId: result.id,
+    };
+  }
+
   /**
    * Устанавливает статус "печатает..." для пользователя
    */
@@ -561,9 +1448,15 @@ export class TelegramService implements OnModuleInit {
   /**
    * Устанавливает статус онлайн/оффлайн
    * @param offline - true для оффлайн, false для онлайн
+   * Пока владелец спит или занят, "в сети" не показываем
    */
   async updateStatus(offline: boolean = false): Promise<void> {
     try {
+      if (!offline && !(await this.scheduleService.isAvailable())) {
+        this.logger.debug('Owner is asleep or busy, staying offline');
+        return;
+      }
+
       await this.client.invoke(new Api.account.UpdateStatus({ offline }));
     } catch (error) {
       this.logger.error(`Failed to update status (offline=${offline})`, error);
@@ -574,6 +1467,7 @@ export class TelegramService implements OnModuleInit {
   /**
    * Отмечает сообщения как прочитанные с задержкой (имитация чтения человеком)
    * С вероятностью 20% показывает "в сети" без прочтения сообщений
+   * Пока владелец спит или занят, сообщения остаются непрочитанными
    * @param telegramId - ID пользователя
    * @param minDelay - минимальная задержка в секундах (по умолчанию 3)
    * @param maxDelay - максимальная задержка в секундах (по умолчанию 5)
@@ -584,6 +1478,13 @@ export class TelegramService implements OnModuleInit {
     maxDelay: number = 5,
   ): Promise<void> {
     try {
+      if (!(await this.scheduleService.isAvailable())) {
+        this.logger.debug(
+          `Owner is asleep or busy, leaving messages from ${telegramId} unread`,
+        );
+        return;
+      }
+
       const seenWithoutReadProbability = this.configService.get<number>(
         'readStatus.seenWithoutReadProbability',
         0.2,
@@ -658,14 +1559,74 @@ export class TelegramService implements OnModuleInit {
     }
   }
 
+  /**
+   * Выполняет действие политики автоответов для сообщения, на которое не отвечаем
+   */
+  private async applyPolicyDecision(
+    decision: PolicyDecision,
+    sender: Api.User,
+    preview: string,
+  ) {
+    const telegramId = BigInt(sender.id.toString());
+    this.logger.log(
+      `Reply policy: ${decision.action} message from ${telegramId} (rule: ${decision.rule})`,
+    );
+
+    if (decision.action === 'read') {
+      await this.markAsRead(Number(telegramId));
+      return;
+    }
+
+    if (
+      decision.action !== 'notify' ||
+      !this.policyService.shouldNotify(telegramId)
+    ) {
+      return;
+    }
+
+    const name =
+      [sender.firstName, sender.lastName].filter(Boolean).join(' ') ||
+      'Без имени';
+    const username = sender.username ? ` @${sender.username}` : '';
+    await this.sendNotification(
+      `📨 Не отвечаю: ${name}${username} (\`${telegramId}\`) - ${RULE_TITLES[decision.rule] ?? decision.rule}\n\n"${preview.substring(0, 300)}"\n\nОтвечать ему: \`${this.botName}, разрешить ${telegramId}\``,
+    );
+  }
+
+  /**
+   * Автоответ режима "отпуск": один раз каждому собеседнику за время общей паузы
+   */
+  private async sendAwayMessage(userId: string, telegramId: number) {
+    const conversation =
+      await this.conversationService.findOrCreateConversation(userId);
+    const awayMessage = await this.pauseService.claimAwayMessage(
+      conversation.id,
+    );
+    if (!awayMessage) {
+      this.logger.debug(
+        `Global pause active, skipping message from ${telegramId}`,
+      );
+      return;
+    }
+
+    await this.sendMessage(telegramId, awayMessage);
+    this.logger.log(`Away message sent to ${telegramId}`);
+  }
+
   /**
    * Отправляет сообщение пользователю
+   * @param replyToMessageId - ID сообщения, на которое нужно ответить (опционально)
    * @returns ID отправленного сообщения
    */
-  async sendMessage(telegramId: number, text: string): Promise<number> {
+  async sendMessage(
+    telegramId: number,
+    text: string,
+    replyToMessageId?: number,
+  ): Promise<number> {
     try {
       const result = await this.client.sendMessage(telegramId, {
         message: text,
+        replyTo: replyToMessageId,
       });
       return result.id;
     } catch (error) {
@@ -731,6 +1692,79 @@ export class TelegramService implements OnModuleInit {
     }
   }
 
+  /**
+   * Отправляет стикер из стикерпака STICKER_SET_NAME:
+   * по возможности с тем же эмодзи, иначе случайный
+   * @returns false, если стикерпак не настроен или пуст
+   */
+  async sendSticker(
+    telegramId: number,
+    emoji?: string,
+    replyToMessageId?: number,
+  ): Promise<boolean> {
+    if (!this.stickerSetName) {
+      return false;
+    }
+
+    try {
+      const stickers = await this.getStickerSetDocuments();
+      if (stickers.length === 0) {
+        return false;
+      }
+
+      const matching = emoji
+        ? stickers.filter((sticker) =>
+            sticker.attributes.some(
+              (attribute) =>
+                attribute instanceof Api.DocumentAttributeSticker &&
+                attribute.alt === emoji,
+            ),
+          )
+        : [];
+      const pool = matching.length > 0 ? matching : stickers;
+      const sticker = pool[Math.floor(Math.random() * pool.length)];
+
+      await this.client.sendFile(telegramId, {
+        file: sticker,
+        replyTo: replyToMessageId,
+      });
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to send sticker to ${telegramId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Загружает стикеры стикерпака (один раз, дальше из кеша)
+   */
+  private getStickerSetDocuments(): Promise<Api.Document[]> {
+    this.stickerSetDocuments ??= this.client
+      .invoke(
+        new Api.messages.GetStickerSet({
+          stickerset: new Api.InputStickerSetShortName({
+            shortName: this.stickerSetName!,
+          }),
+          hash: 0,
+        }),
+      )
+      .then((result) =>
+        result instanceof Api.messages.StickerSet
+          ? result.documents.filter(
+              (document): document is Api.Document =>
+                document instanceof Api.Document,
+            )
+          : [],
+      )
+      .catch((error) => {
+        // Не кешируем ошибку - попробуем снова при следующей отправке
+        this.stickerSetDocuments = undefined;
+        throw error;
+      });
+
+    return this.stickerSetDocuments;
+  }
+
   /**
    * Возвращает экземпляр клиента (для дополнительной кастомизации если нужно)
    */
@@ -1,19 +1,25 @@
 /**
  * Калькулятор случайных задержек для имитации занятости
  */
+import type { ScheduleState } from './owner-schedule';
 
 export interface DelayResult {
   delayMs: number;
-  delayType: 'normal' | 'medium' | 'long';
+  delayType: 'normal' | 'medium' | 'long' | 'sleep' | 'busy';
   delaySeconds: number;
 }
 
+// Во время работы средние и длинные задержки во столько раз вероятнее
+const WORK_DELAY_MULTIPLIER = 2;
+
 /**
  * Вычисляет случайную задержку перед ответом на сообщение
  * @param normalProbability - вероятность обычной задержки (2 сек)
  * @param mediumProbability - вероятность средней задержки (5-15 мин)
  * @param longProbability - вероятность длинной задержки (30-60 мин)
  * @param isOwner - если true, всегда возвращает минимальную задержку (2 сек)
+ * @param scheduleState - состояние владельца: во сне/занятости ответ откладывается
+ * до пробуждения, на работе чаще выпадают долгие задержки
  * @returns задержка в миллисекундах и тип задержки
  */
 export function calculateDelay(
@@ -21,6 +27,7 @@ export function calculateDelay(
   mediumProbability: number = 0.15,
   longProbability: number = 0.05,
   isOwner: boolean = false,
+  scheduleState?: ScheduleState,
 ): DelayResult {
   // Для владельца всегда минимальная задержка
   if (isOwner) {
@@ -31,6 +38,33 @@ export function calculateDelay(
     };
   }
 
+  // Спит или занят: отвечаем через 5-40 минут после пробуждения (1-10 после занятости)
+  if (
+    scheduleState?.until &&
+    (scheduleState.state === 'sleep' || scheduleState.state === 'busy')
+  ) {
+    const afterMinutes =
+      scheduleState.state === 'sleep'
+        ? 5 + Math.random() * 35
+        : 1 + Math.random() * 9;
+    const delaySeconds = Math.floor(
+      Math.max(scheduleState.until.getTime() - Date.now(), 0) / 1000 +
+        afterMinutes * 60,
+    );
+    return {
+      delayMs: delaySeconds * 1000,
+      delayType: scheduleState.state,
+      delaySeconds,
+    };
+  }
+
+  // На работе: средние и длинные задержки вероятнее
+  if (scheduleState?.state === 'work') {
+    mediumProbability *= WORK_DELAY_MULTIPLIER;
+    longProbability *= WORK_DELAY_MULTIPLIER;
+    normalProbability = Math.max(0, 1 - mediumProbability - longProbability);
+  }
+
   // Генерируем случайное число от 0 до 1
   const random = Math.random();
 
@@ -87,7 +121,5 @@ export function formatDelay(delaySeconds: number): string {
   const hours = Math.floor(minutes / 60);
   const remainingMinutes = minutes % 60;
 
-  return remainingMinutes > 0
-    ? `${hours}h ${remainingMinutes}m`
-    : `${hours}h`;
+  return remainingMinutes > 0 ? `${hours}h ${remainingMinutes}m` : `${hours}h`;
 }
@@ -0,0 +1,200 @@
+import {
+  formatLocalIso,
+  formatLocalTime,
+  getLocalDate,
+  getLocalTime,
+  getScheduleState,
+  getWeekStart,
+  OwnerSchedule,
+  parseBusyUntil,
+  parseTime,
+  parseTimeRange,
+  parseWorkDays,
+} from './owner-schedule';
+
+// Бишкек - UTC+6 без перехода на летнее время
+const TIMEZONE = 'Asia/Bishkek';
+
+const schedule: OwnerSchedule = {
+  timezone: TIMEZONE,
+  sleep: { startMinutes: 60, endMinutes: 9 * 60 },
+  weekendSleep: { startMinutes: 2 * 60, endMinutes: 11 * 60 },
+  work: { startMinutes: 10 * 60, endMinutes: 19 * 60 },
+  workDays: [1, 2, 3, 4, 5],
+};
+
+// Местное время в Бишкеке: "2026-05-11T12:00" (понедельник) -> Date
+const local = (value: string) => new Date(`${value}:00+06:00`);
+
+describe('owner-schedule', () => {
+  describe('parsing', () => {
+    it('parses time of day into minutes', () => {
+      expect(parseTime('9')).toBe(540);
+      expect(parseTime(' 09:30 ')).toBe(570);
+      expect(parseTime('24:00')).toBeNull();
+      expect(parseTime('12:60')).toBeNull();
+      expect(parseTime('полдень')).toBeNull();
+    });
+
+    it('parses time ranges, including ranges over midnight', () => {
+      expect(parseTimeRange('23:00-07:00')).toEqual({
+        startMinutes: 23 * 60,
+        endMinutes: 7 * 60,
+      });
+      expect(parseTimeRange('01:00')).toBeNull();
+      expect(parseTimeRange('01:00-25:00')).toBeNull();
+    });
+
+    it('parses work days from ranges and lists', () => {
+      expect(parseWorkDays('1-5')).toEqual([1, 2, 3, 4, 5]);
+      expect(parseWorkDays('1, 3,7')).toEqual([1, 3, 7]);
+      expect(parseWorkDays('6-9,x')).toEqual([6, 7]);
+    });
+  });
+
+  describe('getLocalTime', () => {
+    it('returns weekday and minutes in the timezone', () => {
+      expect(getLocalTime(local('2026-05-11T12:30'), TIMEZONE)).toEqual({
+        weekday: 1,
+        minutes: 12 * 60 + 30,
+      });
+      expect(getLocalTime(local('2026-05-10T23:59'), TIMEZONE)).toEqual({
+        weekday: 7,
+        minutes: 23 * 60 + 59,
+      });
+    });
+  });
+
+  describe('getScheduleState', () => {
+    it('is work during work hours on a work day', () => {
+      expect(getScheduleState(local('2026-05-11T12:00'), schedule)).toEqual({
+        state: 'work',
+        until: local('2026-05-11T19:00'),
+      });
+    });
+
+    it('is free outside work and sleep, and all day off on weekends', () => {
+      expect(getScheduleState(local('2026-05-11T20:00'), schedule)).toEqual({
+        state: 'free',
+      });
+      expect(getScheduleState(local('2026-05-09T12:00'), schedule)).toEqual({
+        state: 'free',
+      });
+    });
+
+    it('uses longer sleep on mornings of days off', () => {
+      expect(getScheduleState(local('2026-05-11T03:00'), schedule)).toEqual({
+        state: 'sleep',
+        until: local('2026-05-11T09:00'),
+      });
+      expect(getScheduleState(local('2026-05-09T10:00'), schedule)).toEqual({
+        state: 'sleep',
+        until: local('2026-05-09T11:00'),
+      });
+    });
+
+    it('picks sleep over midnight by the wake-up day', () => {
+      const nightOwl: OwnerSchedule = {
+        ...schedule,
+        sleep: { startMinutes: 23 * 60, endMinutes: 7 * 60 },
+        weekendSleep: { startMinutes: 30, endMinutes: 10 * 60 },
+      };
+
+      // Воскресенье вечером: просыпаться в понедельник
+      expect(getScheduleState(local('2026-05-10T23:30'), nightOwl)).toEqual({
+        state: 'sleep',
+        until: local('2026-05-11T07:00'),
+      });
+      // Пятница вечером: завтра выходной, ложится позже
+      expect(getScheduleState(local('2026-05-08T23:30'), nightOwl)).toEqual({
+        state: 'free',
+      });
+    });
+
+    it('puts manual busy status above the schedule', () => {
+      const now = local('2026-05-11T03:00');
+
+      expect(
+        getScheduleState(now, schedule, local('2026-05-11T05:00'), 'в дороге'),
+      ).toEqual({
+        state: 'busy',
+        until: local('2026-05-11T05:00'),
+        reason: 'в дороге',
+      });
+      expect(
+        getScheduleState(now, schedule, local('2026-05-11T02:00'), 'в дороге')
+          .state,
+      ).toBe('sleep');
+    });
+  });
+
+  describe('parseBusyUntil', () => {
+    const now = local('2026-05-11T12:00');
+
+    it('parses the nearest time of day', () => {
+      expect(parseBusyUntil('18:00', now, TIMEZONE)).toEqual(
+        local('2026-05-11T18:00'),
+      );
+      expect(parseBusyUntil('9:00', now, TIMEZONE)).toEqual(
+        local('2026-05-12T09:00'),
+      );
+      expect(parseBusyUntil('12:00', now, TIMEZONE)).toEqual(
+        local('2026-05-12T12:00'),
+      );
+    });
+
+    it('parses durations in hours and minutes', () => {
+      expect(parseBusyUntil('2ч', now, TIMEZONE)).toEqual(
+        local('2026-05-11T14:00'),
+      );
+      expect(parseBusyUntil('1,5 часа', now, TIMEZONE)).toEqual(
+        local('2026-05-11T13:30'),
+      );
+      expect(parseBusyUntil('30 мин', now, TIMEZONE)).toEqual(
+        local('2026-05-11T12:30'),
+      );
+    });
+
+    it('returns null for unknown values', () => {
+      expect(parseBusyUntil('завтра', now, TIMEZONE)).toBeNull();
+    });
+  });
+
+  describe('formatting', () => {
+    const now = local('2026-05-11T12:00');
+
+    it('shows only the time for today, weekday within a week, date otherwise', () => {
+      expect(formatLocalTime(local('2026-05-11T18:00'), TIMEZONE, now)).toBe(
+        '18:00',
+      );
+      expect(formatLocalTime(local('2026-05-12T09:30'), TIMEZONE, now)).toBe(
+        'вт 09:30',
+      );
+      expect(formatLocalTime(local('2026-10-25T09:00'), TIMEZONE, now)).toBe(
+        '25.10 09:00',
+      );
+    });
+
+    it('formats ISO 8601 with the timezone offset', () => {
+      expect(formatLocalIso(now, TIMEZONE)).toBe('2026-05-11T12:00+06:00');
+      expect(formatLocalIso(now, 'UTC')).toBe('2026-05-11T06:00Z');
+    });
+  });
+
+  describe('calendar', () => {
+    it('returns the local calendar date as UTC midnight', () => {
+      expect(getLocalDate(local('2026-05-11T02:00'), TIMEZONE)).toEqual(
+        new Date('2026-05-11T00:00:00Z'),
+      );
+    });
+
+    it('returns Monday of the week', () => {
+      expect(getWeekStart(new Date('2026-05-10T00:00:00Z'))).toEqual(
+        new Date('2026-05-04T00:00:00Z'),
+      );
+      expect(getWeekStart(new Date('2026-05-11T00:00:00Z'))).toEqual(
+        new Date('2026-05-11T00:00:00Z'),
+      );
+    });
+  });
+});
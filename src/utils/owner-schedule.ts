@@ -0,0 +1,309 @@
+/**
+ * Расписание владельца: сон, работа, выходные, "занят до"
+ * Все времена - в часовом поясе владельца
+ */
+
+export interface TimeRange {
+  startMinutes: number; // Минуты от начала суток
+  endMinutes: number; // Может быть меньше startMinutes (диапазон через полночь)
+}
+
+export interface OwnerSchedule {
+  timezone: string; // IANA часовой пояс, например Asia/Bishkek
+  sleep: TimeRange;
+  weekendSleep: TimeRange; // Сон в выходные (обычно дольше)
+  work: TimeRange;
+  workDays: number[]; // Рабочие дни: 1 - понедельник ... 7 - воскресенье
+}
+
+export type ScheduleStateType = 'free' | 'work' | 'sleep' | 'busy';
+
+export interface ScheduleState {
+  state: ScheduleStateType;
+  until?: Date; // Когда состояние закончится (для sleep/busy)
+  reason?: string; // Причина занятости (для busy)
+}
+
+const MINUTES_IN_DAY = 24 * 60;
+
+const WEEKDAYS: Record<string, number> = {
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+  Sun: 7,
+};
+
+/**
+ * Парсит время "HH:MM" в минуты от начала суток
+ */
+export function parseTime(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?$/);
+  if (!match) {
+    return null;
+  }
+
+  const hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Парсит диапазон "HH:MM-HH:MM" (например "01:00-09:00")
+ */
+export function parseTimeRange(value: string): TimeRange | null {
+  const [start, end] = value.split('-');
+  if (!start || !end) {
+    return null;
+  }
+
+  const startMinutes = parseTime(start);
+  const endMinutes = parseTime(end);
+  if (startMinutes === null || endMinutes === null) {
+    return null;
+  }
+
+  return { startMinutes, endMinutes };
+}
+
+/**
+ * Парсит список рабочих дней "1-5" или "1,2,3,4,5"
+ */
+export function parseWorkDays(value: string): number[] {
+  const days = new Set<number>();
+
+  for (const part of value.split(',')) {
+    const [from, to = from] = part
+      .split('-')
+      .map((day) => parseInt(day.trim(), 10));
+    if (Number.isNaN(from)) continue;
+
+    for (let day = from; day <= (Number.isNaN(to) ? from : to); day++) {
+      if (day >= 1 && day <= 7) {
+        days.add(day);
+      }
+    }
+  }
+
+  return [...days];
+}
+
+/**
+ * Возвращает локальные день недели и минуты от начала суток в часовом поясе
+ */
+export function getLocalTime(
+  date: Date,
+  timezone: string,
+): { weekday: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: string) =>
+    parts.find((part) => part.type === type)?.value ?? '';
+
+  return {
+    weekday: WEEKDAYS[get('weekday')] ?? 1,
+    minutes: parseInt(get('hour'), 10) * 60 + parseInt(get('minute'), 10),
+  };
+}
+
+/**
+ * Попадает ли время в диапазон (с учетом диапазонов через полночь)
+ */
+function isInRange(minutes: number, range: TimeRange): boolean {
+  if (range.startMinutes <= range.endMinutes) {
+    return minutes >= range.startMinutes && minutes < range.endMinutes;
+  }
+  return minutes >= range.startMinutes || minutes < range.endMinutes;
+}
+
+/**
+ * Сколько минут осталось до конца диапазона
+ */
+function minutesUntilEnd(minutes: number, range: TimeRange): number {
+  return (range.endMinutes - minutes + MINUTES_IN_DAY) % MINUTES_IN_DAY;
+}
+
+/**
+ * День недели пробуждения: для сна через полночь, начавшегося вечером, - завтра
+ */
+function getWakeDay(
+  weekday: number,
+  minutes: number,
+  range: TimeRange,
+): number {
+  return range.startMinutes > range.endMinutes && minutes >= range.startMinutes
+    ? (weekday % 7) + 1
+    : weekday;
+}
+
+/**
+ * Определяет состояние владельца в момент времени
+ * Приоритет: "занят до" > сон > работа > свободен
+ * @param busyUntil - ручная занятость из owner команды (если есть)
+ */
+export function getScheduleState(
+  now: Date,
+  schedule: OwnerSchedule,
+  busyUntil?: Date | null,
+  busyReason?: string | null,
+): ScheduleState {
+  if (busyUntil && busyUntil > now) {
+    return { state: 'busy', until: busyUntil, reason: busyReason ?? undefined };
+  }
+
+  const { weekday, minutes } = getLocalTime(now, schedule.timezone);
+  const isWorkDay = schedule.workDays.includes(weekday);
+
+  // Какой сон действует, решает день пробуждения: утро выходного - спим дольше
+  const sleep = [schedule.sleep, schedule.weekendSleep].find(
+    (range, index) =>
+      isInRange(minutes, range) &&
+      schedule.workDays.includes(getWakeDay(weekday, minutes, range)) ===
+        (index === 0),
+  );
+
+  if (sleep) {
+    return {
+      state: 'sleep',
+      until: new Date(now.getTime() + minutesUntilEnd(minutes, sleep) * 60000),
+    };
+  }
+
+  if (isWorkDay && isInRange(minutes, schedule.work)) {
+    return {
+      state: 'work',
+      until: new Date(
+        now.getTime() + minutesUntilEnd(minutes, schedule.work) * 60000,
+      ),
+    };
+  }
+
+  return { state: 'free' };
+}
+
+/**
+ * Парсит время окончания занятости: "18:00" (ближайшее такое время)
+ * или длительность "2ч", "30м", "1.5 часа"
+ */
+export function parseBusyUntil(
+  value: string,
+  now: Date,
+  timezone: string,
+): Date | null {
+  const text = value.trim().toLowerCase();
+
+  const time = parseTime(text);
+  if (time !== null) {
+    const { minutes } = getLocalTime(now, timezone);
+    const diff = (time - minutes + MINUTES_IN_DAY) % MINUTES_IN_DAY;
+    const until = new Date(now.getTime() + (diff || MINUTES_IN_DAY) * 60000);
+    until.setSeconds(0, 0);
+    return until;
+  }
+
+  const duration = text.match(
+    /^(\d+(?:[.,]\d+)?)\s*(ч|час|часа|часов|h|м|мин|минут|минуты|m)$/,
+  );
+  if (!duration) {
+    return null;
+  }
+
+  const amount = parseFloat(duration[1].replace(',', '.'));
+  const isHours = ['ч', 'час', 'часа', 'часов', 'h'].includes(duration[2]);
+  return new Date(now.getTime() + amount * (isHours ? 60 : 1) * 60000);
+}
+
+/**
+ * Форматирует время в часовом поясе владельца
+ * ("18:00", "пн 09:30" если не сегодня, "25.10 09:00" если дальше недели)
+ */
+export function formatLocalTime(
+  date: Date,
+  timezone: string,
+  now: Date = new Date(),
+): string {
+  const time = new Intl.DateTimeFormat('ru-RU', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(date);
+
+  const sameDay =
+    Math.abs(date.getTime() - now.getTime()) < MINUTES_IN_DAY * 60000 &&
+    getLocalTime(date, timezone).weekday ===
+      getLocalTime(now, timezone).weekday;
+  if (sameDay) {
+    return time;
+  }
+
+  if (Math.abs(date.getTime() - now.getTime()) >= 6 * MINUTES_IN_DAY * 60000) {
+    const day = new Intl.DateTimeFormat('ru-RU', {
+      timeZone: timezone,
+      day: '2-digit',
+      month: '2-digit',
+    }).format(date);
+    return `${day} ${time}`;
+  }
+
+  const weekday = new Intl.DateTimeFormat('ru-RU', {
+    timeZone: timezone,
+    weekday: 'short',
+  }).format(date);
+  return `${weekday} ${time}`;
+}
+
+/**
+ * Дата и время в часовом поясе в формате ISO 8601 со смещением
+ * ("2025-10-24T18:00+06:00") - так модели проще считать сроки "в пятницу", "через час"
+ */
+export function formatLocalIso(date: Date, timezone: string): string {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZoneName: 'longOffset',
+  }).formatToParts(date);
+
+  const get = (type: string) =>
+    parts.find((part) => part.type === type)?.value ?? '';
+
+  const offset = get('timeZoneName').replace('GMT', '') || 'Z';
+  return `${get('year')}-${get('month')}-${get('day')}T${get('hour')}:${get('minute')}${offset}`;
+}
+
+/**
+ * Календарная дата в часовом поясе (полночь UTC этой даты) - для группировки по дням
+ */
+export function getLocalDate(date: Date, timezone: string): Date {
+  const local = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+  return new Date(`${local}T00:00:00Z`);
+}
+
+/**
+ * Понедельник недели, в которую входит дата (дата - как из getLocalDate)
+ */
+export function getWeekStart(date: Date): Date {
+  const weekday = (date.getUTCDay() + 6) % 7; // 0 - понедельник
+  return new Date(date.getTime() - weekday * MINUTES_IN_DAY * 60000);
+}
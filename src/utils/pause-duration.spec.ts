@@ -0,0 +1,106 @@
+import {
+  isPauseActive,
+  parsePauseUntil,
+  splitPauseUntil,
+} from './pause-duration';
+
+// Бишкек - UTC+6 без перехода на летнее время
+const TIMEZONE = 'Asia/Bishkek';
+// 16:00 по Бишкеку
+const NOW = new Date('2026-05-10T10:00:00Z');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('pause-duration', () => {
+  describe('isPauseActive', () => {
+    it('is active for an indefinite or not yet expired pause', () => {
+      expect(isPauseActive({ isIgnored: true, ignoredUntil: null }, NOW)).toBe(
+        true,
+      );
+      expect(
+        isPauseActive(
+          { isIgnored: true, ignoredUntil: new Date(NOW.getTime() + 1000) },
+          NOW,
+        ),
+      ).toBe(true);
+    });
+
+    it('is inactive when expired or not ignored', () => {
+      expect(
+        isPauseActive(
+          { isIgnored: true, ignoredUntil: new Date(NOW.getTime() - 1000) },
+          NOW,
+        ),
+      ).toBe(false);
+      expect(isPauseActive({ isIgnored: false, ignoredUntil: null }, NOW)).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('parsePauseUntil', () => {
+    const parse = (value: string) =>
+      parsePauseUntil(value, NOW, TIMEZONE)?.toISOString() ?? null;
+
+    it('parses durations', () => {
+      expect(parse('на 3 часа')).toBe('2026-05-10T13:00:00.000Z');
+      expect(parse('3ч')).toBe('2026-05-10T13:00:00.000Z');
+      expect(parse('на час')).toBe('2026-05-10T11:00:00.000Z');
+      expect(parse('1,5 часа')).toBe('2026-05-10T11:30:00.000Z');
+      expect(parse('на 30 минут')).toBe('2026-05-10T10:30:00.000Z');
+      expect(parse('неделю')).toBe(
+        new Date(NOW.getTime() + 7 * 24 * HOUR_MS).toISOString(),
+      );
+    });
+
+    it('parses time of day as the nearest one in the owner timezone', () => {
+      expect(parse('до 18:00')).toBe('2026-05-10T12:00:00.000Z');
+      expect(parse('до 15:00')).toBe('2026-05-11T09:00:00.000Z');
+    });
+
+    it('parses named moments', () => {
+      expect(parse('до завтра')).toBe('2026-05-11T03:00:00.000Z');
+      expect(parse('до утра')).toBe('2026-05-11T03:00:00.000Z');
+      expect(parse('до вечера')).toBe('2026-05-10T12:00:00.000Z');
+    });
+
+    it('parses dates as the morning of the nearest such day', () => {
+      expect(parse('до 25.10')).toBe('2026-10-25T03:00:00.000Z');
+      expect(parse('до 01.05')).toBe('2027-05-01T03:00:00.000Z');
+    });
+
+    it('returns null for unknown or invalid values', () => {
+      expect(parse('когда-нибудь')).toBeNull();
+      expect(parse('0 часов')).toBeNull();
+      expect(parse('до 32.01')).toBeNull();
+      expect(parse('5 попугаев')).toBeNull();
+    });
+  });
+
+  describe('splitPauseUntil', () => {
+    it('separates the longest recognized prefix from the rest', () => {
+      const { until, rest } = splitPauseUntil(
+        'на 3 дня я в отпуске',
+        NOW,
+        TIMEZONE,
+      );
+
+      expect(until).toEqual(new Date(NOW.getTime() + 3 * 24 * HOUR_MS));
+      expect(rest).toBe('я в отпуске');
+    });
+
+    it('strips punctuation between the term and the rest', () => {
+      expect(splitPauseUntil('до завтра, потом решу', NOW, TIMEZONE)).toEqual({
+        until: new Date('2026-05-11T03:00:00Z'),
+        rest: 'потом решу',
+      });
+    });
+
+    it('keeps the whole text when there is no term', () => {
+      expect(splitPauseUntil(' просто отдыхаю ', NOW, TIMEZONE)).toEqual({
+        until: null,
+        rest: 'просто отдыхаю',
+      });
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Сроки пауз: "на 3 часа", "до завтра", "до 18:00", "до 25.10"
+ * Все времена - в часовом поясе владельца
+ */
+import { getLocalTime, parseTime } from './owner-schedule';
+
+const MINUTE = 60000;
+const MINUTES_IN_DAY = 24 * 60;
+
+// Во сколько заканчиваются паузы "до утра" / "до завтра" / "до 25.10"
+const MORNING_MINUTES = 9 * 60;
+const EVENING_MINUTES = 18 * 60;
+
+const DURATION_UNITS: Array<{ pattern: RegExp; minutes: number }> = [
+  { pattern: /^(м|мин|минут[аы]?|минуту|m|min)$/, minutes: 1 },
+  { pattern: /^(ч|час|часа|часов|h)$/, minutes: 60 },
+  { pattern: /^(д|день|дня|дней|сутки|суток|d)$/, minutes: MINUTES_IN_DAY },
+  { pattern: /^(нед|неделю|недели|недель|w)$/, minutes: 7 * MINUTES_IN_DAY },
+];
+
+export interface PauseState {
+  isIgnored: boolean;
+  ignoredUntil: Date | null;
+}
+
+/**
+ * Действует ли пауза чата: бессрочная или еще не истекшая
+ */
+export function isPauseActive(
+  pause: PauseState,
+  now: Date = new Date(),
+): boolean {
+  return pause.isIgnored && (!pause.ignoredUntil || pause.ignoredUntil > now);
+}
+
+/**
+ * Момент, когда через days дней (0 - сегодня) в часовом поясе будет указанное время суток
+ */
+function localTimeInDays(
+  now: Date,
+  timezone: string,
+  minutes: number,
+  days: number,
+): Date {
+  const local = getLocalTime(now, timezone).minutes;
+  const until = new Date(
+    now.getTime() + (minutes - local + days * MINUTES_IN_DAY) * MINUTE,
+  );
+  until.setSeconds(0, 0);
+  return until;
+}
+
+/**
+ * Ближайший момент в будущем, когда в часовом поясе будет указанное время суток
+ */
+function nextLocalTime(now: Date, timezone: string, minutes: number): Date {
+  const local = getLocalTime(now, timezone).minutes;
+  return localTimeInDays(now, timezone, minutes, minutes > local ? 0 : 1);
+}
+
+/**
+ * Дата "DD.MM" (ближайшая в будущем), утро этого дня
+ */
+function parseDate(text: string, now: Date, timezone: string): Date | null {
+  const match = text.match(/^(\d{1,2})\.(\d{1,2})$/);
+  if (!match) {
+    return null;
+  }
+
+  const day = parseInt(match[1], 10);
+  const month = parseInt(match[2], 10) - 1;
+  if (day < 1 || day > 31 || month < 0 || month > 11) {
+    return null;
+  }
+
+  const [year, currentMonth, currentDay] = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  })
+    .format(now)
+    .split('-')
+    .map((part) => parseInt(part, 10));
+
+  const today = Date.UTC(year, currentMonth - 1, currentDay);
+  let target = Date.UTC(year, month, day);
+  if (target <= today) {
+    target = Date.UTC(year + 1, month, day);
+  }
+
+  const days = Math.round((target - today) / (MINUTES_IN_DAY * MINUTE));
+  return localTimeInDays(now, timezone, MORNING_MINUTES, days);
+}
+
+/**
+ * Парсит срок паузы: "на 3 часа", "на час", "2д", "до 18:00", "до завтра",
+ * "до утра", "до вечера", "до 25.10"
+ * @returns время окончания паузы или null, если не распознано
+ */
+export function parsePauseUntil(
+  value: string,
+  now: Date,
+  timezone: string,
+): Date | null {
+  const text = value
+    .trim()
+    .toLowerCase()
+    .replace(/^(на|до)\s+/, '');
+
+  if (text === 'завтра') {
+    return localTimeInDays(now, timezone, MORNING_MINUTES, 1);
+  }
+  if (text === 'утра') {
+    return nextLocalTime(now, timezone, MORNING_MINUTES);
+  }
+  if (text === 'вечера') {
+    return nextLocalTime(now, timezone, EVENING_MINUTES);
+  }
+
+  const time = parseTime(text);
+  if (time !== null && text.includes(':')) {
+    return nextLocalTime(now, timezone, time);
+  }
+
+  const date = parseDate(text, now, timezone);
+  if (date) {
+    return date;
+  }
+
+  // "3 часа", "3ч", "1.5 часа", "час", "неделю"
+  const duration = text.match(/^(\d+(?:[.,]\d+)?)?\s*([a-zа-яё]+)$/);
+  if (!duration) {
+    return null;
+  }
+
+  const unit = DURATION_UNITS.find(({ pattern }) => pattern.test(duration[2]));
+  if (!unit) {
+    return null;
+  }
+
+  const amount = duration[1] ? parseFloat(duration[1].replace(',', '.')) : 1;
+  if (amount <= 0) {
+    return null;
+  }
+
+  return new Date(now.getTime() + amount * unit.minutes * MINUTE);
+}
+
+/**
+ * Отделяет срок паузы от остального текста: "на 3 дня я в отпуске" ->
+ * { until: +3 дня, rest: "я в отпуске" }. Берет самое длинное распознанное начало
+ */
+export function splitPauseUntil(
+  value: string,
+  now: Date,
+  timezone: string,
+): { until: Date | null; rest: string } {
+  const words = value.trim().split(/\s+/).filter(Boolean);
+
+  for (let count = Math.min(words.length, 3); count > 0; count--) {
+    const until = parsePauseUntil(
+      words
+        .slice(0, count)
+        .join(' ')
+        .replace(/[,.:;-]+$/, ''),
+      now,
+      timezone,
+    );
+    if (until) {
+      const rest = words
+        .slice(count)
+        .join(' ')
+        .replace(/^[,.:;-]+\s*/, '');
+      return { until, rest };
+    }
+  }
+
+  return { until: null, rest: value.trim() };
+}
@@ -0,0 +1,86 @@
+import type { ChatMessage } from '../openai/openai.service';
+
+import {
+  countChatTokens,
+  countMessageTokens,
+  countTokens,
+  IMAGE_TOKENS,
+} from './tokens';
+
+describe('tokens', () => {
+  describe('countTokens', () => {
+    it('returns 0 for empty text', () => {
+      expect(countTokens('', 'gpt-4o')).toBe(0);
+    });
+
+    it('estimates words by alphabet', () => {
+      expect(countTokens('hello world', 'gpt-4o')).toBe(4);
+      expect(countTokens('Привет', 'gpt-4o')).toBe(2);
+      expect(countTokens('Привет', 'gpt-4')).toBe(3);
+    });
+
+    it('splits numbers into groups of up to 3 digits', () => {
+      expect(countTokens('12345', 'gpt-4o')).toBe(2);
+    });
+
+    it('merges punctuation and never counts a word as 0 tokens', () => {
+      expect(countTokens('!!!', 'gpt-4o')).toBe(2);
+      expect(countTokens('a b c', 'gpt-4o')).toBe(3);
+    });
+
+    it('counts Cyrillic text heavier than Latin text of the same length', () => {
+      expect(countTokens('расписание встреч', 'gpt-4o')).toBeGreaterThan(
+        countTokens('schedule meetings', 'gpt-4o'),
+      );
+    });
+
+    it('uses the older dictionary only for gpt-4 and gpt-3.5', () => {
+      const text = 'Как дела? Давай созвонимся завтра';
+
+      expect(countTokens(text, 'gpt-4')).toBe(
+        countTokens(text, 'gpt-3.5-turbo'),
+      );
+      expect(countTokens(text, 'gpt-4-turbo')).toBeGreaterThan(
+        countTokens(text, 'gpt-4o'),
+      );
+      expect(countTokens(text, 'gpt-4.1-mini')).toBe(
+        countTokens(text, 'gpt-4o'),
+      );
+    });
+  });
+
+  describe('countMessageTokens', () => {
+    it('adds per-message overhead to text content', () => {
+      expect(
+        countMessageTokens({ role: 'user', content: 'hello world' }, 'gpt-4o'),
+      ).toBe(3 + 4);
+    });
+
+    it('counts images by detail level', () => {
+      const message: ChatMessage = {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'hello world' },
+          { type: 'image_url', image_url: { url: 'a', detail: 'low' } },
+          { type: 'image_url', image_url: { url: 'b' } },
+        ],
+      };
+
+      expect(countMessageTokens(message, 'gpt-4o')).toBe(
+        3 + 4 + IMAGE_TOKENS.low + IMAGE_TOKENS.high,
+      );
+    });
+  });
+
+  describe('countChatTokens', () => {
+    it('sums messages and adds reply priming', () => {
+      const messages: ChatMessage[] = [
+        { role: 'system', content: 'hello world' },
+        { role: 'user', content: 'Привет' },
+      ];
+
+      expect(countChatTokens(messages, 'gpt-4o')).toBe(3 + (3 + 4) + (3 + 2));
+      expect(countChatTokens([], 'gpt-4o')).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Подсчет токенов без токенизатора из сети: приближение BPE-токенизаторов OpenAI
+ * Текст режется на слова, числа и знаки так же, как перед BPE, а длина слова
+ * в токенах оценивается по алфавиту - кириллица дробится мельче латиницы
+ */
+import type { ChatMessage } from '../openai/openai.service';
+
+type Encoding = 'o200k' | 'cl100k';
+
+// Сколько символов слова в среднем приходится на один токен
+const CHARS_PER_TOKEN: Record<
+  Encoding,
+  { latin: number; cyrillic: number; other: number }
+> = {
+  o200k: { latin: 4.5, cyrillic: 3.5, other: 1.2 },
+  cl100k: { latin: 4, cyrillic: 2.2, other: 0.8 },
+};
+
+// Служебные токены на каждое сообщение чата и на начало ответа модели
+const MESSAGE_OVERHEAD_TOKENS = 3;
+const REPLY_PRIMING_TOKENS = 3;
+
+// Картинки: low detail - фиксированная цена, high - типичное фото 1024x768 (4 тайла)
+export const IMAGE_TOKENS = { low: 85, high: 765 } as const;
+
+// Предварительная разбивка: слово (с пробелом перед ним), до 3 цифр, знаки, пробелы
+const PIECE_REGEX =
+  /\s?[\p{L}\p{M}]+|\s?\p{N}{1,3}|\s?[^\s\p{L}\p{M}\p{N}]+|\s+/gu;
+
+/**
+ * Словарь модели: gpt-4o, gpt-4.1, o-серия и новее - o200k, старые gpt-4 и gpt-3.5 - cl100k
+ */
+function getEncoding(model: string): Encoding {
+  return /^(gpt-3\.5|gpt-4(-|$))/.test(model) ? 'cl100k' : 'o200k';
+}
+
+/**
+ * Число токенов в тексте для модели
+ */
+export function countTokens(text: string, model: string): number {
+  const ratios = CHARS_PER_TOKEN[getEncoding(model)];
+  let tokens = 0;
+
+  for (const piece of text.match(PIECE_REGEX) ?? []) {
+    const word = piece.trim();
+    if (!word || /^\p{N}+$/u.test(word)) {
+      tokens += 1;
+    } else if (/[\p{L}\p{M}]/u.test(word[0])) {
+      const ratio = /\p{Script=Cyrillic}/u.test(word)
+        ? ratios.cyrillic
+        : /\p{Script=Latin}/u.test(word)
+          ? ratios.latin
+          : ratios.other;
+      tokens += Math.max(1, Math.ceil(word.length / ratio));
+    } else {
+      // Знаки препинания склеиваются, эмодзи - примерно токен на символ
+      tokens += Math.max(1, Math.ceil(word.length / 2));
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Число токенов сообщения чата: текст, картинки и служебные токены
+ */
+export function countMessageTokens(
+  message: ChatMessage,
+  model: string,
+): number {
+  if (typeof message.content === 'string') {
+    return MESSAGE_OVERHEAD_TOKENS + countTokens(message.content, model);
+  }
+
+  return message.content.reduce(
+    (sum, part) =>
+      sum +
+      (part.type === 'text'
+        ? countTokens(part.text, model)
+        : IMAGE_TOKENS[part.image_url.detail === 'low' ? 'low' : 'high']),
+    MESSAGE_OVERHEAD_TOKENS,
+  );
+}
+
+/**
+ * Число токенов всего запроса: сообщения + начало ответа
+ */
+export function countChatTokens(
+  messages: ChatMessage[],
+  model: string,
+): number {
+  return messages.reduce(
+    (sum, message) => sum + countMessageTokens(message, model),
+    REPLY_PRIMING_TOKENS,
+  );
+}